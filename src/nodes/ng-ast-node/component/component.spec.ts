@@ -0,0 +1,160 @@
+import * as chai from 'chai'
+import { createAppProject } from '../../../utils/test-utils'
+
+function createComponentProject (templateProperty: string, files: Record<string, string> = {}) {
+  return createAppProject({
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-root',
+        ${templateProperty},
+      })
+      export class AppComponent {
+        public title = 'Title'
+        public items = []
+        public user = { title: 'User' }
+
+        public reset () {
+          this.title = ''
+        }
+      }
+    `,
+    ...files,
+  }, ['AppComponent'])
+}
+
+describe(`Component`, () => {
+
+  describe(`renameMember`, () => {
+
+    it(`renames usages in an inline template, but not variables or members of other objects`, () => {
+      const template = `<h1 title="title">{{ title }}</h1><p *ngFor="let title of items">{{ title }}</p><button (click)="title = this.title + title">{{ user.title }}</button>`
+      const project = createComponentProject(`template: '${template}'`)
+      const component = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+      component.renameMember('title', 'heading')
+
+      const text = component.getClassDeclaration().getSourceFile().getFullText()
+      chai.assert.include(text, `'<h1 title="title">{{ heading }}</h1><p *ngFor="let title of items">{{ title }}</p><button (click)="heading = this.heading + heading">{{ user.title }}</button>'`)
+      chai.assert.include(text, `public heading = 'Title'`)
+      chai.assert.include(text, `this.heading = ''`)
+    })
+
+    it(`renames usages in an external template`, () => {
+      const project = createComponentProject(`templateUrl: './app.component.html'`, {
+        '/app/app.component.html': `<ul><li *ngFor="let item of items">{{ item }}</li></ul>`,
+      })
+      const component = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+      component.renameMember('items', 'entries')
+      chai.assert.equal(component.getTemplateString(), `<ul><li *ngFor="let item of entries">{{ item }}</li></ul>`)
+      chai.assert.isTrue(component.getTemplateLocationSpan().getFile().isDirty())
+      chai.assert.include(component.getClassDeclaration().getText(), `public entries = []`)
+    })
+
+    it(`throws for an unknown member`, () => {
+      const project = createComponentProject(`template: ''`)
+      const component = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+      chai.assert.throws(() => component.renameMember('subtitle', 'caption'), /subtitle/)
+    })
+
+  })
+
+  describe(`renameSelector`, () => {
+
+    function createSelectorProject (cardSelector: string = 'app-card') {
+      return createAppProject({
+        '/app/app.module.ts': `
+          import { NgModule } from '@angular/core'
+          import { AppComponent } from './app.component'
+          import { CardComponent } from './card.component'
+          import { OtherModule } from './other.module'
+
+          @NgModule({
+            imports: [OtherModule],
+            declarations: [AppComponent, CardComponent],
+          })
+          export class AppModule {
+          }
+        `,
+        '/app/other.module.ts': `
+          import { NgModule } from '@angular/core'
+          import { OtherComponent } from './other.component'
+
+          @NgModule({
+            declarations: [OtherComponent],
+          })
+          export class OtherModule {
+          }
+        `,
+        '/app/app.component.ts': `
+          import { Component } from '@angular/core'
+
+          @Component({
+            selector: 'app-root',
+            templateUrl: './app.component.html',
+          })
+          export class AppComponent {
+          }
+        `,
+        '/app/app.component.html': `<app-card><b>Title</b></app-card><app-card></app-card>`,
+        '/app/card.component.ts': `
+          import { Component } from '@angular/core'
+
+          @Component({
+            selector: '${cardSelector}',
+            template: '<ng-content></ng-content>',
+          })
+          export class CardComponent {
+          }
+        `,
+        '/app/other.component.ts': `
+          import { Component } from '@angular/core'
+
+          @Component({
+            selector: 'app-other',
+            template: '<app-card></app-card>',
+          })
+          export class OtherComponent {
+          }
+        `,
+      })
+    }
+
+    it(`renames elements where the component is in scope and reports the others`, () => {
+      const project = createSelectorProject()
+      const card = project.getComponentByClassNameIfSingleOrThrow('CardComponent')
+      const notInScope = card.renameSelector('app-user-card')
+
+      chai.assert.equal(card.getSelectorDefinition(), 'app-user-card')
+      const app = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+      chai.assert.equal(app.getTemplateString(), `<app-user-card><b>Title</b></app-user-card><app-user-card></app-user-card>`)
+      const other = project.getComponentByClassNameIfSingleOrThrow('OtherComponent')
+      chai.assert.equal(other.getTemplateString(), `'<app-card></app-card>'`)
+      chai.assert.deepEqual(notInScope.map(element => element.getTemplate().getComponent()), [other])
+    })
+
+    it(`refuses a selector without an element name`, () => {
+      const card = createSelectorProject().getComponentByClassNameIfSingleOrThrow('CardComponent')
+      chai.assert.throws(() => card.renameSelector('[appCard]'), /element name/)
+    })
+
+    it(`keeps the other selectors of a comma-separated selector`, () => {
+      const project = createSelectorProject('app-card, [appCard]')
+      const card = project.getComponentByClassNameIfSingleOrThrow('CardComponent')
+      card.renameSelector('app-user-card')
+
+      chai.assert.equal(card.getSelectorDefinition(), 'app-user-card, [appCard]')
+      const app = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+      chai.assert.equal(app.getTemplateString(), `<app-user-card><b>Title</b></app-user-card><app-user-card></app-user-card>`)
+    })
+
+    it(`refuses a selector with several element names`, () => {
+      const project = createSelectorProject('app-card, app-tile')
+      const card = project.getComponentByClassNameIfSingleOrThrow('CardComponent')
+      chai.assert.throws(() => card.renameSelector('app-user-card'), /exactly one element name/)
+      chai.assert.equal(card.getSelectorDefinition(), 'app-card, app-tile')
+    })
+
+  })
+
+})
@@ -1,43 +1,20 @@
-import { throwIfUndefined } from '../../../utils'
-import { Declarable } from '../declarable'
+import { flatMap, throwIfUndefined } from '../../../utils'
+import { Directive } from '../directive/directive'
 import { ChangeDetectionStrategy, ViewEncapsulation } from './enums'
-import { Decorator, TypeGuards } from 'ts-morph'
-import * as tg from 'type-guards'
+import { StringLiteral, TypeGuards } from 'ts-morph'
 import * as path from 'path'
-import { defaultTemplateConfig, Template } from '../template/template'
+import { defaultTemplateConfig, Template, TemplateConfig } from '../template/template'
 import { LocationFile, LocationSpan } from '../location'
+import { Provider, readProvidersFromDecorator } from '../provider'
+import { findUsages, TemplateDeclarationKind } from '../template/template-scope'
+import { MemberAccessTemplateNode } from '../template/expression/expression-nodes'
+import { ElementTemplateNode } from '../template/template-nodes'
+import * as tng from '../template/template-nodes-type-guards'
+import { CssSelector } from '../directive/css-selector'
 
-export class Component extends Declarable {
+export class Component extends Directive {
 
-  /**
-   * Get the component's selector, if it exists.
-   *
-   * A selector is not obligatory to define. You can still use the component dynamically
-   * with `ComponentFactoryResolver`, `ngComponentOutlet` and similar. In this case,
-   * Angular will use `ng-component` as the tag name in the DOM.
-   *
-   * In such cases, this method will return undefined.
-   *
-   * See also:
-   * @see {@link getSelectorNameOrThrow}
-   *
-   * @return The name of the selector, if it's defined. Otherwise, `undefined`.
-   */
-  public getSelectorDefinition (): string | undefined {
-    const property = this.getDecoratorProperty(
-      'selector',
-      TypeGuards.isStringLiteral,
-      `Expected @Component.selector to be a string literal`,
-    )
-    return property == null ? undefined : property.getLiteralValue()
-  }
-
-  /**
-   * @see {@link getSelectorDefinition}
-   */
-  public getSelectorNameOrThrow (): string {
-    return throwIfUndefined(this.getSelectorDefinition())
-  }
+  private template?: { template: Template, sourceText: string }
 
   public getTemplateLocationSpan (): LocationSpan {
     const inlineTemplate = this.getInlineTemplateLocationSpan()
@@ -50,16 +27,36 @@ export class Component extends Declarable {
     return this.getTemplateLocationSpan().getText()
   }
 
+  /**
+   * The parsed template. The same template is given back until its source is changed by
+   * something other than the template itself, so edits made to its nodes are kept until
+   * they are written back (see {@link Project.save}).
+   */
   public getTemplate (): Template {
-    if (this.isInlineTemplate()) {
-      const locationSpan = this.getInlineTemplateLocationSpan()!
-      return Template.FromLocationSpan(this.project, locationSpan, defaultTemplateConfig)
-    } else {
-      const relativeUrl = this.getExternalTemplatePathOrThrow()
-      const locationFile = this.getExternalFile(relativeUrl)
-      const locationSpan = LocationSpan.FromFullFile(locationFile)
-      return Template.FromLocationSpan(this.project, locationSpan, defaultTemplateConfig)
+    const sourceText = this.getTemplateString()
+    if (this.template == null || this.template.sourceText != sourceText) {
+      this.template = { template: this.parseTemplate(), sourceText }
+    }
+    return this.template.template
+  }
+
+  /**
+   * The configuration which the template is parsed with, which takes the custom
+   * interpolation delimiters from `@Component.interpolation` into account.
+   */
+  public getTemplateConfig (): TemplateConfig {
+    const property = this.getDecoratorProperty(
+      'interpolation',
+      TypeGuards.isArrayLiteralExpression,
+      kind => `Expected @Component.interpolation to be an array literal, but got ${kind}.`,
+    )
+    if (property == null) return defaultTemplateConfig
+    const delimiters = property.getElements()
+    if (delimiters.length != 2 || !delimiters.every(delimiter => TypeGuards.isStringLiteral(delimiter))) {
+      throw new Error(`Expected @Component.interpolation to be an array of two string literals.`)
     }
+    const [start, end] = delimiters.map(delimiter => (delimiter as StringLiteral).getLiteralValue())
+    return new TemplateConfig(start, end)
   }
 
   public isInlineTemplate (): boolean {
@@ -122,39 +119,173 @@ export class Component extends Declarable {
     return throwIfUndefined(this.getViewEncapsulation(), `Expected @Component.viewEncapsulation to exist.`)
   }
 
+  /**
+   * Providers listed in `@Component.viewProviders`. Unlike {@link getProviders}, they are
+   * not visible to the content children.
+   */
+  public getViewProviders (): Provider[] {
+    return readProvidersFromDecorator(this.project, this.getDecorator(), 'viewProviders')
+  }
+
+  /**
+   * Renames a member of the component class, together with its usages in the template of
+   * the component, which the TypeScript language service doesn't know about. Template
+   * variables and references with the same name are left alone, as are members of the
+   * same name accessed on other objects (as in `user.name`).
+   */
+  public renameMember (oldName: string, newName: string): void {
+    const member = this.getInstanceMemberOrThrow(oldName)
+    const template = this.getTemplate()
+    const usages = findUsages(template, declaration => declaration.kind == TemplateDeclarationKind.ComponentMember && declaration.member == member)
+
+    // Going from the end keeps the offsets of the usages which are not renamed yet.
+    const getOffset = (usage: MemberAccessTemplateNode) => usage.getNameLocationSpan().getStart().getOffset()
+    usages.sort((a, b) => getOffset(b) - getOffset(a))
+    for (const usage of usages) {
+      usage.changeName(newName)
+    }
+
+    super.renameMember(oldName, newName)
+    if (usages.length > 0) this._writeTemplate(template)
+  }
+
+  /**
+   * Changes the element name in the selector of the component, together with the tag name of
+   * each element which renders the component, in templates of all components in the project.
+   * An element is only renamed where the component is in the compilation scope of the template.
+   * The rest of the selector is kept, so `app-card, [appCard]` becomes `app-user-card, [appCard]`.
+   *
+   * @param newElementName - The new element name, as in `app-user-card`.
+   * @return Elements which have the old tag name, but were left alone since the component is
+   * not in scope there (they most likely render something else, or nothing at all).
+   * @throws Error - If the selector selects no element name or several different ones, since
+   * it's not clear which one to rename.
+   */
+  public renameSelector (newElementName: string): ElementTemplateNode[] {
+    this.throwIfNotElementName(newElementName)
+    const oldTagName = this.getSelectorElementNameOrThrow()
+    const notInScope: ElementTemplateNode[] = []
+
+    const components = flatMap(this.project.getNgModules(), ngModule => ngModule.getComponents())
+    for (const component of components) {
+      const template = component.getTemplate()
+      const elements = template.getTemplateNodes(tng.isElement).filter(element => element.getTagName().toLowerCase() == oldTagName.toLowerCase())
+      const toRename = elements.filter(element => element.getMatchedComponent() == this)
+      notInScope.push(...elements.filter(element => !toRename.includes(element)))
+      for (const element of toRename) {
+        element.changeTagName(newElementName)
+      }
+      if (toRename.length > 0) component._writeTemplate(template)
+    }
+
+    const selector = this.getDecoratorPropertyOrThrow(
+      'selector',
+      TypeGuards.isStringLiteral,
+      `Expected "${this.getName()}" to have a selector.`,
+      `Expected @Component.selector to be a string literal.`,
+    )
+    selector.setLiteralValue(CssSelector.ReplaceElementName(selector.getLiteralValue(), oldTagName, newElementName))
+    return notInScope
+  }
+
+  /**
+   * @internal
+   *
+   * Writes the text of the component's template back to where it comes from: the string
+   * literal of an inline template, or the external file. Templates are edited in their own
+   * copy of the text, so this is needed after editing one.
+   */
+  public _writeTemplate (template: Template): void {
+    const text = this.getTemplateSourceText(template)
+    const inlineTemplate = this.getInlineTemplate()
+    if (inlineTemplate != null) {
+      inlineTemplate.replaceWithText(text)
+    } else {
+      this.getTemplateLocationSpan().replaceText(text)
+    }
+    if (this.template != null && this.template.template == template) {
+      this.template.sourceText = text
+    }
+  }
+
+  /**
+   * @internal
+   *
+   * Writes the template back if its nodes were edited since it was parsed or last written.
+   */
+  public _writeTemplateIfEdited (): void {
+    if (this.template != null && this.getTemplateSourceText(this.template.template) != this.template.sourceText) {
+      this._writeTemplate(this.template.template)
+    }
+  }
+
+  /**
+   * @internal
+   *
+   * Drops the parsed template (together with any edits not written back), so that it's
+   * parsed again on the next {@link getTemplate}.
+   */
+  public _forgetTemplate (): void {
+    this.template = undefined
+  }
+
   // region Internal
 
-  private getDecorator (): Decorator {
-    return this.classDeclaration.getDecoratorOrThrow('Component')
+  protected getDecoratorName (): string {
+    return 'Component'
   }
 
-  private getDecoratorProperty<T> (key: string, guard: tg.Guard<T>, message: string | ((actual: string) => string)): T | undefined {
-    const decoratorArguments = this.getDecorator().getArguments()
-    if (decoratorArguments.length != 1) throw new Error(`Expected @Component decorator to have only a single argument.`)
-    const argument = decoratorArguments[0]
-    if (!TypeGuards.isObjectLiteralExpression(argument)) throw new Error(`Expected the only argument of @Component decorator to be an object literal expression.`)
-    const property = argument.getProperty(key)
-    if (property == null) return undefined
-    if (!TypeGuards.isPropertyAssignment(property)) throw new Error(`Expected a property assignment.`)
-    const initializer = property.getInitializerOrThrow()
-    const errorMessage = message != null ? message : `getDecoratorProperty predicate failed.`
-    if (!guard(initializer)) throw new Error(typeof errorMessage == 'string' ? errorMessage : errorMessage(initializer.getKindName()))
-    return initializer
+  private parseTemplate (): Template {
+    if (this.isInlineTemplate()) {
+      const locationSpan = this.getInlineTemplateLocationSpan()!
+      return Template.FromLocationSpan(this.project, locationSpan, this.getTemplateConfig(), this)
+    } else {
+      const relativeUrl = this.getExternalTemplatePathOrThrow()
+      const locationFile = this.getExternalFile(relativeUrl)
+      const locationSpan = LocationSpan.FromFullFile(locationFile)
+      return Template.FromLocationSpan(this.project, locationSpan, this.getTemplateConfig(), this)
+    }
   }
 
-  private getDecoratorPropertyOrThrow<T> (key: string, guard: tg.Guard<T>, messageNotFound: string, messageGuardFail: string) {
-    return throwIfUndefined(
-      this.getDecoratorProperty(key, guard, messageGuardFail),
-      messageNotFound,
-    )
+  /**
+   * The text of the template as it should be written back. In an inline template, quotes
+   * which were added by edits (as in a binding to `'text'`) are escaped when they would
+   * otherwise end the string literal.
+   */
+  private getTemplateSourceText (template: Template): string {
+    const text = template.getText()
+    return this.isInlineTemplate() ? escapeQuotesInStringLiteral(text) : text
   }
 
-  private getInlineTemplateLocationSpan (): LocationSpan | undefined {
-    const property = this.getDecoratorProperty(
+  private throwIfNotElementName (elementName: string): void {
+    const selectors = CssSelector.Parse(elementName)
+    if (selectors.length != 1 || !selectors[0].isElementSelector()) {
+      throw new Error(`Expected "${elementName}" to be an element name.`)
+    }
+  }
+
+  private getSelectorElementNameOrThrow (): string {
+    const selectorDefinition = this.getSelectorNameOrThrow()
+    const elementNames = this.getSelector().filter(selector => selector.hasElementSelector()).map(selector => selector.element!)
+    const uniqueElementNames = elementNames.filter((name, index) => {
+      return elementNames.findIndex(other => other.toLowerCase() == name.toLowerCase()) == index
+    })
+    if (uniqueElementNames.length != 1) {
+      throw new Error(`Expected selector "${selectorDefinition}" of "${this.getName()}" to have exactly one element name, but got ${uniqueElementNames.length}.`)
+    }
+    return uniqueElementNames[0]
+  }
+
+  private getInlineTemplate (): StringLiteral | undefined {
+    return this.getDecoratorProperty(
       'template',
       TypeGuards.isStringLiteral,
       kind => `Expected @Component.template to be a string literal, but got ${kind}.`,
     )
+  }
+
+  private getInlineTemplateLocationSpan (): LocationSpan | undefined {
+    const property = this.getInlineTemplate()
     if (property == null) {
       return undefined
     } else {
@@ -191,3 +322,22 @@ export class Component extends Declarable {
   // endregion Internal
 
 }
+
+/**
+ * Puts a backslash before each quote inside the string literal which is the same as the ones
+ * around it. Quotes which are already escaped are left alone.
+ */
+function escapeQuotesInStringLiteral (literal: string): string {
+  const quote = literal[0]
+  if (literal.length < 2 || (quote != `'` && quote != `"`) || literal[literal.length - 1] != quote) return literal
+  let result = ''
+  for (let i = 1; i < literal.length - 1; i++) {
+    const char = literal[i]
+    if (char == '\\') {
+      result += char + literal[++i]
+    } else {
+      result += char == quote ? `\\${char}` : char
+    }
+  }
+  return quote + result + quote
+}
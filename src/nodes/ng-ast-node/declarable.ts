@@ -1,8 +1,11 @@
 import { NgAstNode } from './ng-ast-node'
-import { ClassDeclaration } from 'ts-morph'
+import { ClassDeclaration, Decorator, TypeGuards } from 'ts-morph'
+import * as tg from 'type-guards'
 import { NgModule } from './ng-module'
 import { Project } from '../../project'
 import { LocationSpan } from './location'
+import { ConstructorDependency, readConstructorDependencies } from './dependency'
+import { throwIfUndefined } from '../../utils'
 
 export abstract class Declarable extends NgAstNode {
 
@@ -33,4 +36,53 @@ export abstract class Declarable extends NgAstNode {
     return this.ngModule
   }
 
+  /**
+   * @see readConstructorDependencies
+   */
+  public getConstructorDependencies (): ConstructorDependency[] {
+    return readConstructorDependencies(this.project, this.classDeclaration)
+  }
+
+  // region Internal
+
+  /**
+   * The name of the decorator which makes the class a declarable, such as `Component`.
+   */
+  protected abstract getDecoratorName (): string
+
+  protected getDecorator (): Decorator {
+    return this.classDeclaration.getDecoratorOrThrow(this.getDecoratorName())
+  }
+
+  /**
+   * Reads the initializer of a property from the object literal given to the decorator.
+   *
+   * @return The initializer, or `undefined` if the decorator has no argument or the
+   * argument doesn't have the property.
+   */
+  protected getDecoratorProperty<T> (key: string, guard: tg.Guard<T>, message: string | ((actual: string) => string)): T | undefined {
+    const decoratorName = this.getDecoratorName()
+    const decoratorArguments = this.getDecorator().getArguments()
+    if (decoratorArguments.length == 0) return undefined
+    if (decoratorArguments.length != 1) throw new Error(`Expected @${decoratorName} decorator to have only a single argument.`)
+    const argument = decoratorArguments[0]
+    if (!TypeGuards.isObjectLiteralExpression(argument)) throw new Error(`Expected the only argument of @${decoratorName} decorator to be an object literal expression.`)
+    const property = argument.getProperty(key)
+    if (property == null) return undefined
+    if (!TypeGuards.isPropertyAssignment(property)) throw new Error(`Expected a property assignment.`)
+    const initializer = property.getInitializerOrThrow()
+    const errorMessage = message != null ? message : `getDecoratorProperty predicate failed.`
+    if (!guard(initializer)) throw new Error(typeof errorMessage == 'string' ? errorMessage : errorMessage(initializer.getKindName()))
+    return initializer
+  }
+
+  protected getDecoratorPropertyOrThrow<T> (key: string, guard: tg.Guard<T>, messageNotFound: string, messageGuardFail: string) {
+    return throwIfUndefined(
+      this.getDecoratorProperty(key, guard, messageGuardFail),
+      messageNotFound,
+    )
+  }
+
+  // endregion Internal
+
 }
@@ -0,0 +1,113 @@
+import { NgAstNode } from './ng-ast-node'
+import { Project } from '../../project'
+import { LocationSpan } from './location'
+import { ProviderToken } from './provider'
+import * as tsm from 'ts-morph'
+
+/**
+ * Resolution modifiers which can be put on a constructor parameter next to (or instead
+ * of) `@Inject`.
+ */
+export interface DependencyFlags {
+  optional: boolean
+  self: boolean
+  skipSelf: boolean
+  host: boolean
+}
+
+/**
+ * A single parameter of a constructor which Angular fills in through dependency injection.
+ *
+ * The token is read from `@Inject(token)` when present, and from the type annotation of
+ * the parameter otherwise.
+ */
+export class ConstructorDependency extends NgAstNode {
+
+  public constructor (project: Project,
+                      private parameter: tsm.ParameterDeclaration,
+                      private token: ProviderToken,
+                      private flags: DependencyFlags) {
+    super(project, LocationSpan.FromTsm(parameter), parameter)
+  }
+
+  public getParameter (): tsm.ParameterDeclaration {
+    return this.parameter
+  }
+
+  public getParameterName (): string {
+    return this.parameter.getName()
+  }
+
+  public getToken (): ProviderToken {
+    return this.token
+  }
+
+  /**
+   * Is the token given explicitly via `@Inject(token)`, rather than through the type?
+   */
+  public isExplicitToken (): boolean {
+    return this.parameter.getDecorator('Inject') != null
+  }
+
+  public getFlags (): DependencyFlags {
+    return this.flags
+  }
+
+  public isOptional (): boolean {
+    return this.flags.optional
+  }
+
+  public isSelf (): boolean {
+    return this.flags.self
+  }
+
+  public isSkipSelf (): boolean {
+    return this.flags.skipSelf
+  }
+
+  public isHost (): boolean {
+    return this.flags.host
+  }
+
+}
+
+function getTokenExpression (parameter: tsm.ParameterDeclaration): tsm.Node | undefined {
+  const injectDecorator = parameter.getDecorator('Inject')
+  if (injectDecorator != null) {
+    const [argument] = injectDecorator.getArguments()
+    if (argument == null) throw new Error(`Expected "${injectDecorator.getText()}" to have an argument.`)
+    return argument
+  }
+  const typeNode = parameter.getTypeNode()
+  if (typeNode == null) return undefined
+  return tsm.TypeGuards.isTypeReferenceNode(typeNode) ? typeNode.getTypeName() : typeNode
+}
+
+/**
+ * Reads the dependencies from the constructor of the class. If the class has no
+ * constructor of its own, the constructor of the base class is used, as Angular does.
+ */
+export function readConstructorDependencies (project: Project, classDeclaration: tsm.ClassDeclaration): ConstructorDependency[] {
+  const [constructor] = classDeclaration.getConstructors()
+  if (constructor == null) {
+    const baseClass = classDeclaration.getBaseClass()
+    return baseClass == null ? [] : readConstructorDependencies(project, baseClass)
+  }
+
+  const result: ConstructorDependency[] = []
+  for (const parameter of constructor.getParameters()) {
+    const tokenExpression = getTokenExpression(parameter)
+    if (tokenExpression == null) {
+      console.warn(`Cannot determine the token of parameter "${parameter.getName()}" in "${classDeclaration.getName()}" since it has neither a type nor @Inject. Skipping...`)
+      continue
+    }
+    const flags: DependencyFlags = {
+      optional: parameter.getDecorator('Optional') != null,
+      self: parameter.getDecorator('Self') != null,
+      skipSelf: parameter.getDecorator('SkipSelf') != null,
+      host: parameter.getDecorator('Host') != null,
+    }
+    result.push(new ConstructorDependency(project, parameter, new ProviderToken(tokenExpression), flags))
+  }
+  return result
+}
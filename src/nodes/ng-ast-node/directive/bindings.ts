@@ -0,0 +1,309 @@
+import { NgAstNode } from '../ng-ast-node'
+import { Project } from '../../../project'
+import { LocationSpan } from '../location'
+import * as tsm from 'ts-morph'
+import { resolveArrayDestructing } from '../../../utils/array-destructing-resolver'
+
+export type DirectiveMember = tsm.PropertyDeclaration | tsm.GetAccessorDeclaration | tsm.SetAccessorDeclaration | tsm.MethodDeclaration
+
+/**
+ * An input or an output of a directive (or a component). It's declared either in the
+ * `inputs`/`outputs` array of the decorator (`'propertyName: bindingName'`), or with a
+ * member decorator (`@Input('bindingName') propertyName`).
+ */
+export abstract class DirectiveBinding extends NgAstNode {
+
+  public constructor (project: Project,
+                      tsmNode: tsm.Node,
+                      private classDeclaration: tsm.ClassDeclaration,
+                      private propertyName: string,
+                      private bindingName: string) {
+    super(project, LocationSpan.FromTsm(tsmNode), tsmNode)
+  }
+
+  /**
+   * The name of the class member.
+   */
+  public getPropertyName (): string {
+    return this.propertyName
+  }
+
+  /**
+   * The name used in templates, which is the alias when one is given.
+   */
+  public getBindingName (): string {
+    return this.bindingName
+  }
+
+  public hasAlias (): boolean {
+    return this.propertyName != this.bindingName
+  }
+
+  /**
+   * Is the binding listed in the decorator's `inputs` or `outputs` (as opposed to being
+   * declared with `@Input()` or `@Output()` on the member)?
+   */
+  public isDeclaredInDecorator (): boolean {
+    return this.tsmNode != null && tsm.TypeGuards.isStringLiteral(this.tsmNode)
+  }
+
+  /**
+   * The class member which backs the binding. Might be missing when the binding is listed
+   * in the decorator, since nothing forces the class to declare the property.
+   */
+  public getMember (): DirectiveMember | undefined {
+    return getMemberByName(this.classDeclaration, this.propertyName)
+  }
+
+  /**
+   * The class of the directive (or the component) which declares the binding.
+   */
+  public getClassDeclaration (): tsm.ClassDeclaration {
+    return this.classDeclaration
+  }
+
+  /**
+   * Bindings are read from the class on each request, so they're compared by the class
+   * and the binding name instead of by identity.
+   */
+  public isSameAs (other: DirectiveBinding | undefined): boolean {
+    return other != null
+      && other.constructor == this.constructor
+      && other.getClassDeclaration() == this.classDeclaration
+      && other.getBindingName() == this.bindingName
+  }
+
+  /**
+   * @internal
+   *
+   * Writes the new binding name where the decorators spell it out: the alias, or the
+   * element of the decorator's array. Renaming the class member (when there is no alias)
+   * is left to the caller.
+   */
+  public _changeBindingNameInDecorator (newBindingName: string): void {
+    const node = this.tsmNode
+    if (node == null) return
+    if (tsm.TypeGuards.isStringLiteral(node) || tsm.TypeGuards.isNoSubstitutionTemplateLiteral(node)) {
+      node.setLiteralValue(this.hasAlias() ? `${this.propertyName}: ${newBindingName}` : newBindingName)
+      return
+    }
+    if (!this.hasAlias()) return
+    const decorator = (node as DirectiveMember).getDecoratorOrThrow(this.getMemberDecoratorName())
+    const alias = getAliasNodeFromMemberDecorator(decorator)
+    if (alias == null) throw new Error(`Expected "${decorator.getText()}" to give an alias.`)
+    alias.setLiteralValue(newBindingName)
+  }
+
+  protected abstract getMemberDecoratorName (): string
+
+}
+
+export class DirectiveInput extends DirectiveBinding {
+
+  protected getMemberDecoratorName (): string {
+    return 'Input'
+  }
+
+}
+
+export class DirectiveOutput extends DirectiveBinding {
+
+  protected getMemberDecoratorName (): string {
+    return 'Output'
+  }
+
+}
+
+/**
+ * A property binding on the host element, from `host: { '[target]': 'expression' }`
+ * or `@HostBinding('target') member`.
+ */
+export class HostBinding extends NgAstNode {
+
+  public constructor (project: Project,
+                      tsmNode: tsm.Node,
+                      private target: string,
+                      private expression: string) {
+    super(project, LocationSpan.FromTsm(tsmNode), tsmNode)
+  }
+
+  /**
+   * What is bound, such as `class.active`, `attr.role` or `disabled`.
+   */
+  public getTarget (): string {
+    return this.target
+  }
+
+  /**
+   * The bound expression. For `@HostBinding`, this is the name of the member.
+   */
+  public getExpression (): string {
+    return this.expression
+  }
+
+}
+
+/**
+ * An event listener on the host element, from `host: { '(event)': 'handler($event)' }`
+ * or `@HostListener('event', ['$event']) handler`.
+ */
+export class HostListener extends NgAstNode {
+
+  public constructor (project: Project,
+                      tsmNode: tsm.Node,
+                      private eventName: string,
+                      private handler: string) {
+    super(project, LocationSpan.FromTsm(tsmNode), tsmNode)
+  }
+
+  /**
+   * The name of the event, optionally with a global target, such as `window:resize`.
+   */
+  public getEventName (): string {
+    return this.eventName
+  }
+
+  /**
+   * The statement executed when the event fires. For `@HostListener`, this is a call of
+   * the decorated method with the given arguments, such as `onClick($event)`.
+   */
+  public getHandler (): string {
+    return this.handler
+  }
+
+}
+
+function getMemberByName (classDeclaration: tsm.ClassDeclaration, name: string): DirectiveMember | undefined {
+  for (const member of classDeclaration.getInstanceMembers()) {
+    if (tsm.TypeGuards.isPropertyDeclaration(member)
+      || tsm.TypeGuards.isGetAccessorDeclaration(member)
+      || tsm.TypeGuards.isSetAccessorDeclaration(member)
+      || tsm.TypeGuards.isMethodDeclaration(member)) {
+      if (member.getName() == name) return member
+    }
+  }
+  return undefined
+}
+
+function getDecoratedMembers (classDeclaration: tsm.ClassDeclaration, decoratorName: string): Array<{ member: DirectiveMember, decorator: tsm.Decorator }> {
+  const result: Array<{ member: DirectiveMember, decorator: tsm.Decorator }> = []
+  for (const member of classDeclaration.getInstanceMembers()) {
+    if (!tsm.TypeGuards.isPropertyDeclaration(member)
+      && !tsm.TypeGuards.isGetAccessorDeclaration(member)
+      && !tsm.TypeGuards.isSetAccessorDeclaration(member)
+      && !tsm.TypeGuards.isMethodDeclaration(member)) continue
+    const decorator = member.getDecorator(decoratorName)
+    if (decorator != null) result.push({ member, decorator })
+  }
+  return result
+}
+
+function getStringLiteral (node: tsm.Node, description: string): tsm.StringLiteral | tsm.NoSubstitutionTemplateLiteral {
+  if (tsm.TypeGuards.isStringLiteral(node) || tsm.TypeGuards.isNoSubstitutionTemplateLiteral(node)) {
+    return node
+  }
+  throw new Error(`Expected ${description} to be a string literal, but got "${node.getText()}" (${node.getKindName()}).`)
+}
+
+function getStringLiteralValue (node: tsm.Node, description: string): string {
+  return getStringLiteral(node, description).getLiteralValue()
+}
+
+/**
+ * Finds the alias in `@Input('alias')` or `@Input({ alias: 'alias' })`.
+ */
+function getAliasNodeFromMemberDecorator (decorator: tsm.Decorator): tsm.StringLiteral | tsm.NoSubstitutionTemplateLiteral | undefined {
+  const [argument] = decorator.getArguments()
+  if (argument == null) return undefined
+  if (tsm.TypeGuards.isObjectLiteralExpression(argument)) {
+    const property = argument.getProperty('alias')
+    if (property == null || !tsm.TypeGuards.isPropertyAssignment(property)) return undefined
+    return getStringLiteral(property.getInitializerOrThrow(), `the alias in "${decorator.getText()}"`)
+  }
+  return getStringLiteral(argument, `the argument of "${decorator.getText()}"`)
+}
+
+function getAliasFromMemberDecorator (decorator: tsm.Decorator): string | undefined {
+  const alias = getAliasNodeFromMemberDecorator(decorator)
+  return alias == null ? undefined : alias.getLiteralValue()
+}
+
+type BindingConstructor<T extends DirectiveBinding> = new (project: Project,
+                                                            tsmNode: tsm.Node,
+                                                            classDeclaration: tsm.ClassDeclaration,
+                                                            propertyName: string,
+                                                            bindingName: string) => T
+
+/**
+ * Merges the bindings from the decorator's array (`inputs` or `outputs`) with the ones
+ * declared through member decorators (`@Input()` or `@Output()`). When a property appears
+ * in both places, the member decorator wins, as it does in Angular.
+ */
+export function readDirectiveBindings<T extends DirectiveBinding> (project: Project,
+                                                                   classDeclaration: tsm.ClassDeclaration,
+                                                                   decoratorArray: tsm.Node | undefined,
+                                                                   memberDecoratorName: string,
+                                                                   ctor: BindingConstructor<T>): T[] {
+  const fromMembers = getDecoratedMembers(classDeclaration, memberDecoratorName).map(({ member, decorator }) => {
+    const propertyName = member.getName()
+    const alias = getAliasFromMemberDecorator(decorator)
+    return new ctor(project, member, classDeclaration, propertyName, alias != null ? alias : propertyName)
+  })
+
+  const elements = decoratorArray == null ? [] : resolveArrayDestructing(decoratorArray)
+  const fromDecorator = elements.map(element => {
+    const definition = getStringLiteralValue(element, `each element of "${memberDecoratorName.toLowerCase()}s"`)
+    const [propertyName, bindingName] = definition.split(':').map(part => part.trim())
+    return new ctor(project, element, classDeclaration, propertyName, bindingName != null ? bindingName : propertyName)
+  })
+
+  const result = fromDecorator.filter(binding => {
+    return !fromMembers.some(member => member.getPropertyName() == binding.getPropertyName())
+  })
+  result.push(...fromMembers)
+  return result
+}
+
+/**
+ * Reads `host: { ... }` from the decorator together with `@HostBinding` and `@HostListener`
+ * member decorators. Static attributes (keys without brackets or parentheses) are skipped.
+ */
+export function readHostMetadata (project: Project,
+                                  classDeclaration: tsm.ClassDeclaration,
+                                  hostObject: tsm.ObjectLiteralExpression | undefined): { bindings: HostBinding[], listeners: HostListener[] } {
+  const bindings: HostBinding[] = []
+  const listeners: HostListener[] = []
+
+  const properties = hostObject == null ? [] : hostObject.getProperties()
+  for (const property of properties) {
+    if (!tsm.TypeGuards.isPropertyAssignment(property)) {
+      throw new Error(`Expected every property of "host" to be a property assignment, but got "${property.getText()}".`)
+    }
+    const nameNode = property.getNameNode()
+    const key = tsm.TypeGuards.isStringLiteral(nameNode) ? nameNode.getLiteralValue() : nameNode.getText()
+    const value = getStringLiteralValue(property.getInitializerOrThrow(), `the value of "${key}" in "host"`)
+    if (key.startsWith('[') && key.endsWith(']')) {
+      bindings.push(new HostBinding(project, property, key.slice(1, -1), value))
+    } else if (key.startsWith('(') && key.endsWith(')')) {
+      listeners.push(new HostListener(project, property, key.slice(1, -1), value))
+    }
+  }
+
+  for (const { member, decorator } of getDecoratedMembers(classDeclaration, 'HostBinding')) {
+    const [argument] = decorator.getArguments()
+    const target = argument == null ? member.getName() : getStringLiteralValue(argument, `the argument of "${decorator.getText()}"`)
+    bindings.push(new HostBinding(project, member, target, member.getName()))
+  }
+
+  for (const { member, decorator } of getDecoratedMembers(classDeclaration, 'HostListener')) {
+    const [eventArgument, argsArgument] = decorator.getArguments()
+    if (eventArgument == null) throw new Error(`Expected "${decorator.getText()}" to have the event name as an argument.`)
+    const eventName = getStringLiteralValue(eventArgument, `the event name in "${decorator.getText()}"`)
+    const args = argsArgument == null
+      ? []
+      : resolveArrayDestructing(argsArgument).map(arg => getStringLiteralValue(arg, `each argument in "${decorator.getText()}"`))
+    listeners.push(new HostListener(project, member, eventName, `${member.getName()}(${args.join(', ')})`))
+  }
+
+  return { bindings, listeners }
+}
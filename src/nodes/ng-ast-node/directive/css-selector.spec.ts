@@ -0,0 +1,61 @@
+import * as chai from 'chai'
+import { CssSelector } from './css-selector'
+
+describe(`CssSelector`, () => {
+
+  describe(`Parse`, () => {
+
+    it(`parses an element with attributes and classes`, () => {
+      const [selector] = CssSelector.Parse(`button[mat-button][type=submit].primary`)
+      chai.assert.equal(selector.element, 'button')
+      chai.assert.deepEqual(selector.attributes, [{ name: 'mat-button', value: '' }, { name: 'type', value: 'submit' }])
+      chai.assert.deepEqual(selector.classNames, ['primary'])
+    })
+
+    it(`parses a comma-separated list`, () => {
+      const selectors = CssSelector.Parse(`[ngModel]:not([formControlName]), ngModel`)
+      chai.assert.sameOrderedMembers(selectors.map(selector => selector.toString()), [
+        `[ngModel]:not([formControlName])`,
+        `ngModel`,
+      ])
+    })
+
+    it(`throws on nested :not()`, () => {
+      chai.assert.throws(() => CssSelector.Parse(`:not(:not(a))`), /Nesting/)
+    })
+
+  })
+
+  describe(`ReplaceElementName`, () => {
+
+    it(`replaces only the element name, keeping the other selectors and the text around`, () => {
+      const result = CssSelector.ReplaceElementName(`app-card[big],  [appCard]:not(app-card)`, 'app-card', 'app-user-card')
+      chai.assert.equal(result, `app-user-card[big],  [appCard]:not(app-card)`)
+    })
+
+  })
+
+  describe(`matches`, () => {
+
+    it(`matches by element name and attribute`, () => {
+      const [selector] = CssSelector.Parse(`input[ngModel]`)
+      chai.assert.isTrue(selector.matches({ tagName: 'input', attributes: [{ name: 'ngModel', value: '' }] }))
+      chai.assert.isFalse(selector.matches({ tagName: 'select', attributes: [{ name: 'ngModel', value: '' }] }))
+      chai.assert.isFalse(selector.matches({ tagName: 'input', attributes: [] }))
+    })
+
+    it(`matches classes from the class attribute`, () => {
+      const [selector] = CssSelector.Parse(`.card.active`)
+      chai.assert.isTrue(selector.matches({ tagName: 'div', attributes: [{ name: 'class', value: 'active  card' }] }))
+      chai.assert.isFalse(selector.matches({ tagName: 'div', attributes: [{ name: 'class', value: 'card' }] }))
+    })
+
+    it(`respects :not()`, () => {
+      const [selector] = CssSelector.Parse(`[ngModel]:not([formControlName])`)
+      chai.assert.isTrue(selector.matches({ tagName: 'input', attributes: [{ name: 'ngModel', value: '' }] }))
+      chai.assert.isFalse(selector.matches({ tagName: 'input', attributes: [{ name: 'ngModel', value: '' }, { name: 'formControlName', value: 'x' }] }))
+    })
+
+  })
+
+})
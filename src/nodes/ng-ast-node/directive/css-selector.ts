@@ -0,0 +1,189 @@
+export interface CssSelectorAttribute {
+  name: string
+  /**
+   * An empty string when any value is accepted, as in `[foo]`.
+   */
+  value: string
+}
+
+/**
+ * What a selector is matched against: the tag name and the attributes of an element as
+ * written in a template. Bindings contribute their names as attributes too, so `[foo]="x"`
+ * is matched by the selector `[foo]`.
+ */
+export interface SelectorMatchTarget {
+  tagName: string
+  attributes: CssSelectorAttribute[]
+}
+
+/**
+ * Tokenizes selectors the same way Angular's compiler does.
+ *
+ * Groups: (1) `:not(`, (2) a tag, `.class` or `#id` with (3) its prefix, (4) an attribute name,
+ * (6) an attribute value, (7) the closing `)` of `:not(` and (8) a comma.
+ */
+const SELECTOR_REGEXP = /(:not\()|(([.#]?)[-\w]+)|(?:\[([-.\w*\\$]+)(?:=(["']?)([^\]"']*)\5)?\])|(\))|(\s*,\s*)/g
+
+/**
+ * A single compound selector (without commas), as used in `@Directive.selector` and
+ * `@Component.selector`. Only the subset of CSS which Angular supports is understood:
+ * an element name, attributes with optional values, classes, and `:not()`.
+ */
+export class CssSelector {
+
+  /**
+   * Parses a selector, which can be a comma-separated list of compound selectors.
+   *
+   * @throws Error - If the selector uses something Angular doesn't support, such as
+   * nested `:not()` or an `#id`.
+   */
+  public static Parse (selector: string): CssSelector[] {
+    const results: CssSelector[] = []
+    let current = new CssSelector()
+    let currentNot: CssSelector | undefined
+    let lastIndex = 0
+
+    const addCurrent = () => {
+      if (current.isEmpty() && current.notSelectors.length > 0) current.element = '*'
+      results.push(current)
+    }
+
+    SELECTOR_REGEXP.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = SELECTOR_REGEXP.exec(selector)) != null) {
+      if (match.index != lastIndex && selector.slice(lastIndex, match.index).trim() != '') {
+        throw new Error(`Unexpected "${selector.slice(lastIndex, match.index)}" in selector "${selector}".`)
+      }
+      lastIndex = SELECTOR_REGEXP.lastIndex
+      const target = currentNot != null ? currentNot : current
+
+      if (match[1] != null) {
+        if (currentNot != null) throw new Error(`Nesting :not() in selector "${selector}" is not allowed.`)
+        currentNot = new CssSelector()
+        current.notSelectors.push(currentNot)
+      } else if (match[2] != null) {
+        const prefix = match[3]
+        if (prefix == '#') throw new Error(`Selecting by id ("${match[2]}") is not supported in selector "${selector}".`)
+        if (prefix == '.') {
+          target.classNames.push(match[2].slice(1).toLowerCase())
+        } else {
+          target.element = match[2]
+        }
+      } else if (match[4] != null) {
+        const name = match[4].replace(/\\\$/g, '$')
+        target.attributes.push({ name, value: match[6] != null ? match[6] : '' })
+      } else if (match[7] != null) {
+        if (currentNot == null) throw new Error(`Unbalanced ")" in selector "${selector}".`)
+        currentNot = undefined
+      } else if (match[8] != null) {
+        if (currentNot != null) throw new Error(`Multiple selectors in :not() are not supported in selector "${selector}".`)
+        addCurrent()
+        current = new CssSelector()
+      }
+    }
+
+    if (selector.slice(lastIndex).trim() != '') {
+      throw new Error(`Unexpected "${selector.slice(lastIndex)}" in selector "${selector}".`)
+    }
+    if (currentNot != null) throw new Error(`Unclosed :not() in selector "${selector}".`)
+    addCurrent()
+    return results
+  }
+
+  /**
+   * Changes the element name of each compound selector in the comma-separated list which
+   * selects the given element, leaving everything else in the text as it is. Element names
+   * inside `:not()` are not touched.
+   */
+  public static ReplaceElementName (selector: string, oldElementName: string, newElementName: string): string {
+    let result = ''
+    let inNot = false
+    let lastIndex = 0
+
+    SELECTOR_REGEXP.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = SELECTOR_REGEXP.exec(selector)) != null) {
+      if (match[1] != null) {
+        inNot = true
+      } else if (match[7] != null) {
+        inNot = false
+      } else if (match[2] != null && match[3] == '' && !inNot && match[2].toLowerCase() == oldElementName.toLowerCase()) {
+        result += selector.slice(lastIndex, match.index) + newElementName
+        lastIndex = SELECTOR_REGEXP.lastIndex
+      }
+    }
+    return result + selector.slice(lastIndex)
+  }
+
+  public element?: string
+
+  public readonly classNames: string[] = []
+
+  public readonly attributes: CssSelectorAttribute[] = []
+
+  public readonly notSelectors: CssSelector[] = []
+
+  public isElementSelector (): boolean {
+    return this.hasElementSelector() && this.classNames.length == 0 && this.attributes.length == 0 && this.notSelectors.length == 0
+  }
+
+  public hasElementSelector (): boolean {
+    return this.element != null && this.element != '*'
+  }
+
+  /**
+   * Does the element satisfy this selector, including its `:not()` parts? Names are
+   * compared case-insensitively, like Angular does for elements and attributes.
+   */
+  public matches (target: SelectorMatchTarget): boolean {
+    if (!this.matchesIgnoringNot(target)) return false
+    return this.notSelectors.every(notSelector => !notSelector.matchesIgnoringNot(target))
+  }
+
+  public toString (): string {
+    let result = this.element != null ? this.element : ''
+    result += this.classNames.map(className => `.${className}`).join('')
+    result += this.attributes.map(({ name, value }) => value == '' ? `[${name}]` : `[${name}=${value}]`).join('')
+    result += this.notSelectors.map(notSelector => `:not(${notSelector})`).join('')
+    return result
+  }
+
+  // region Internal
+
+  private isEmpty (): boolean {
+    return this.element == null && this.classNames.length == 0 && this.attributes.length == 0
+  }
+
+  private matchesIgnoringNot (target: SelectorMatchTarget): boolean {
+    if (this.hasElementSelector() && this.element!.toLowerCase() != target.tagName.toLowerCase()) {
+      return false
+    }
+
+    const attributes = target.attributes.map(({ name, value }) => ({ name: name.toLowerCase(), value }))
+    const hasAttribute = ({ name, value }: CssSelectorAttribute) => {
+      return attributes.some(attribute => attribute.name == name.toLowerCase() && (value == '' || attribute.value == value))
+    }
+    if (!this.attributes.every(hasAttribute)) return false
+
+    if (this.classNames.length > 0) {
+      const classNames = new Set<string>()
+      for (const { name, value } of attributes) {
+        if (name == 'class') value.split(/\s+/).filter(Boolean).forEach(className => classNames.add(className.toLowerCase()))
+        if (name.startsWith('class.')) classNames.add(name.slice('class.'.length))
+      }
+      if (!this.classNames.every(className => classNames.has(className))) return false
+    }
+
+    return true
+  }
+
+  // endregion Internal
+
+}
+
+/**
+ * Does the element satisfy any of the selectors from a comma-separated list?
+ */
+export function matchesAnySelector (selectors: CssSelector[], target: SelectorMatchTarget): boolean {
+  return selectors.some(selector => selector.matches(target))
+}
@@ -0,0 +1,152 @@
+import * as chai from 'chai'
+import { createAppProject } from '../../../utils/test-utils'
+
+function createDirectiveProject () {
+  return createAppProject({
+    '/app/tooltip.directive.ts': `
+      import { Directive, Input, Output, EventEmitter, HostBinding, HostListener } from '@angular/core'
+
+      @Directive({
+        selector: '[appTooltip], app-tooltip',
+        exportAs: 'tooltip, appTooltip',
+        inputs: ['position: tooltipPosition', 'delay'],
+        outputs: ['shown'],
+        host: {
+          '[attr.aria-describedby]': 'id',
+          '(mouseenter)': 'show()',
+          'role': 'tooltip',
+        },
+      })
+      export class TooltipDirective {
+        @Input('appTooltip') text: string
+        @Input() delay: number
+        @Output() hidden = new EventEmitter<void>()
+        @HostBinding('class.visible') isVisible = false
+        @HostListener('window:keydown', ['$event']) onKeyDown (event: KeyboardEvent) {}
+      }
+    `,
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-root',
+        template: '',
+      })
+      export class AppComponent {
+      }
+    `,
+  }, ['AppComponent', 'TooltipDirective'])
+}
+
+describe(`Directive`, () => {
+
+  it(`does not list components among directives`, () => {
+    const ngModule = createDirectiveProject().getBootstrapModule()
+    chai.assert.sameMembers(ngModule.getDirectives().map(directive => directive.getName()), ['TooltipDirective'])
+    chai.assert.sameMembers(ngModule.getComponents().map(component => component.getName()), ['AppComponent'])
+  })
+
+  it(`parses the selector`, () => {
+    const [directive] = createDirectiveProject().getBootstrapModule().getDirectives()
+    chai.assert.equal(directive.getSelectorDefinition(), '[appTooltip], app-tooltip')
+    chai.assert.sameOrderedMembers(directive.getSelector().map(selector => selector.toString()), ['[appTooltip]', 'app-tooltip'])
+  })
+
+  it(`merges inputs and outputs from the decorator and the members`, () => {
+    const [directive] = createDirectiveProject().getBootstrapModule().getDirectives()
+    const inputs = directive.getInputs().map(input => `${input.getPropertyName()}:${input.getBindingName()}`)
+    chai.assert.sameMembers(inputs, ['position:tooltipPosition', 'text:appTooltip', 'delay:delay'])
+    const outputs = directive.getOutputs().map(output => output.getBindingName())
+    chai.assert.sameMembers(outputs, ['shown', 'hidden'])
+    chai.assert.isFalse(directive.getInputByBindingName('delay')!.isDeclaredInDecorator())
+  })
+
+  it(`reads host bindings and listeners`, () => {
+    const [directive] = createDirectiveProject().getBootstrapModule().getDirectives()
+    const bindings = directive.getHostBindings().map(binding => `${binding.getTarget()}=${binding.getExpression()}`)
+    chai.assert.sameMembers(bindings, ['attr.aria-describedby=id', 'class.visible=isVisible'])
+    const listeners = directive.getHostListeners().map(listener => `${listener.getEventName()}=${listener.getHandler()}`)
+    chai.assert.sameMembers(listeners, ['mouseenter=show()', 'window:keydown=onKeyDown($event)'])
+  })
+
+  it(`splits exportAs`, () => {
+    const [directive] = createDirectiveProject().getBootstrapModule().getDirectives()
+    chai.assert.sameOrderedMembers(directive.getExportAs(), ['tooltip', 'appTooltip'])
+  })
+
+  describe(`renameInput and renameOutput`, () => {
+
+    function createCounterProject () {
+      return createAppProject({
+        '/app/counter.component.ts': `
+          import { Component, Input, Output, EventEmitter } from '@angular/core'
+
+          @Component({
+            selector: 'app-counter',
+            template: '{{ count }}',
+            outputs: ['reset'],
+          })
+          export class CounterComponent {
+            @Input() count: number
+            @Input('label') caption: string
+            @Output() countChange = new EventEmitter<number>()
+            reset = new EventEmitter<void>()
+          }
+        `,
+        '/app/app.component.ts': `
+          import { Component } from '@angular/core'
+
+          @Component({
+            selector: 'app-root',
+            template: '<app-counter [count]="total" label="Total" [(count)]="total" (countChange)="log($event)" (reset)="clear()"></app-counter><p [count]="total"></p>',
+          })
+          export class AppComponent {
+          }
+        `,
+      }, ['AppComponent', 'CounterComponent'])
+    }
+
+    function getTemplateString (project: ReturnType<typeof createCounterProject>) {
+      return project.getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplateString()
+    }
+
+    it(`renames the member of an input, the attributes which set it, and its "Change" output`, () => {
+      const project = createCounterProject()
+      const counter = project.getComponentByClassNameIfSingleOrThrow('CounterComponent')
+      counter.renameInput('count', 'value')
+      chai.assert.include(getTemplateString(project), `<app-counter [value]="total" label="Total" [(value)]="total" (valueChange)="log($event)" (reset)="clear()"></app-counter><p [count]="total"></p>`)
+      chai.assert.include(counter.getClassDeclaration().getText(), `@Input() value: number`)
+      chai.assert.include(counter.getClassDeclaration().getText(), `@Output() valueChange = new EventEmitter<number>()`)
+      chai.assert.equal(counter.getTemplateString(), `'{{ value }}'`)
+    })
+
+    it(`renames only the alias when there is one`, () => {
+      const project = createCounterProject()
+      const counter = project.getComponentByClassNameIfSingleOrThrow('CounterComponent')
+      counter.renameInput('label', 'title')
+      chai.assert.include(getTemplateString(project), ` title="Total" `)
+      chai.assert.include(counter.getClassDeclaration().getText(), `@Input('title') caption: string`)
+    })
+
+    it(`renames outputs from the decorator's array and two-way bindings`, () => {
+      const project = createCounterProject()
+      const counter = project.getComponentByClassNameIfSingleOrThrow('CounterComponent')
+      counter.renameOutput('reset', 'cleared')
+      counter.renameOutput('countChange', 'valueChange')
+      chai.assert.include(getTemplateString(project), `<app-counter [value]="total" label="Total" [(value)]="total" (valueChange)="log($event)" (cleared)="clear()">`)
+      chai.assert.include(counter.getClassDeclaration().getText(), `@Input() value: number`)
+      chai.assert.include(counter.getClassDeclaration().getSourceFile().getText(), `outputs: ['cleared']`)
+      chai.assert.include(counter.getClassDeclaration().getText(), `cleared = new EventEmitter<void>()`)
+    })
+
+    it(`refuses to rename the output of a two-way binding to a name without "Change"`, () => {
+      const project = createCounterProject()
+      const counter = project.getComponentByClassNameIfSingleOrThrow('CounterComponent')
+      chai.assert.throws(() => counter.renameOutput('countChange', 'updated'), /two-way binding with input "count".*ending with "Change"/)
+      chai.assert.include(getTemplateString(project), `[(count)]="total" (countChange)="log($event)"`)
+      chai.assert.include(counter.getClassDeclaration().getText(), `@Output() countChange`)
+    })
+
+  })
+
+})
@@ -1,5 +1,250 @@
 import { Declarable } from '../declarable'
+import { Provider, readProvidersFromDecorator } from '../provider'
+import { ClassInstanceMemberTypes, TypeGuards } from 'ts-morph'
+import { throwIfUndefined } from '../../../utils'
+import { CssSelector } from './css-selector'
+import {
+  DirectiveBinding,
+  DirectiveInput,
+  DirectiveOutput,
+  HostBinding,
+  HostListener,
+  readDirectiveBindings,
+  readHostMetadata,
+} from './bindings'
+import { AttributeTemplateNode } from '../template/template-nodes'
 
 export class Directive extends Declarable {
 
+  /**
+   * Get the selector, exactly as written in the decorator, if it exists.
+   *
+   * A component's selector is not obligatory to define. You can still use the component
+   * dynamically with `ComponentFactoryResolver`, `ngComponentOutlet` and similar. In this
+   * case, Angular will use `ng-component` as the tag name in the DOM.
+   *
+   * In such cases, this method will return undefined.
+   *
+   * See also:
+   * @see {@link getSelectorNameOrThrow}
+   * @see {@link getSelector}
+   *
+   * @return The selector, if it's defined. Otherwise, `undefined`.
+   */
+  public getSelectorDefinition (): string | undefined {
+    const property = this.getDecoratorProperty(
+      'selector',
+      TypeGuards.isStringLiteral,
+      `Expected @${this.getDecoratorName()}.selector to be a string literal`,
+    )
+    return property == null ? undefined : property.getLiteralValue()
+  }
+
+  /**
+   * @see {@link getSelectorDefinition}
+   */
+  public getSelectorNameOrThrow (): string {
+    return throwIfUndefined(this.getSelectorDefinition(), `Expected "${this.getName()}" to have a selector.`)
+  }
+
+  /**
+   * The parsed selector. A comma-separated selector results in more than one element.
+   *
+   * @return The parsed selector, or an empty array if there is no selector.
+   */
+  public getSelector (): CssSelector[] {
+    const selectorDefinition = this.getSelectorDefinition()
+    return selectorDefinition == null ? [] : CssSelector.Parse(selectorDefinition)
+  }
+
+  /**
+   * Inputs declared in the decorator's `inputs` and with `@Input()`.
+   */
+  public getInputs (): DirectiveInput[] {
+    const inputs = this.getDecoratorProperty('inputs', TypeGuards.isExpression, `Expected "inputs" to be an expression.`)
+    return readDirectiveBindings(this.project, this.classDeclaration, inputs, 'Input', DirectiveInput)
+  }
+
+  /**
+   * Finds an input by the name used in templates (the alias, if one is given).
+   */
+  public getInputByBindingName (bindingName: string): DirectiveInput | undefined {
+    return this.getInputs().find(input => input.getBindingName() == bindingName)
+  }
+
+  /**
+   * Outputs declared in the decorator's `outputs` and with `@Output()`.
+   */
+  public getOutputs (): DirectiveOutput[] {
+    const outputs = this.getDecoratorProperty('outputs', TypeGuards.isExpression, `Expected "outputs" to be an expression.`)
+    return readDirectiveBindings(this.project, this.classDeclaration, outputs, 'Output', DirectiveOutput)
+  }
+
+  /**
+   * Finds an output by the name used in templates (the alias, if one is given).
+   */
+  public getOutputByBindingName (bindingName: string): DirectiveOutput | undefined {
+    return this.getOutputs().find(output => output.getBindingName() == bindingName)
+  }
+
+  /**
+   * Property bindings from `host: { '[x]': '...' }` and `@HostBinding()`.
+   */
+  public getHostBindings (): HostBinding[] {
+    return this.getHostMetadata().bindings
+  }
+
+  /**
+   * Event listeners from `host: { '(x)': '...' }` and `@HostListener()`.
+   */
+  public getHostListeners (): HostListener[] {
+    return this.getHostMetadata().listeners
+  }
+
+  /**
+   * Names under which the instance can be referenced from a template, as in `#ref="name"`.
+   * A comma-separated `exportAs` gives more than one name.
+   */
+  public getExportAs (): string[] {
+    const property = this.getDecoratorProperty(
+      'exportAs',
+      TypeGuards.isStringLiteral,
+      kind => `Expected @${this.getDecoratorName()}.exportAs to be a string literal, but got ${kind}.`,
+    )
+    if (property == null) return []
+    return property.getLiteralValue().split(',').map(name => name.trim()).filter(name => name != '')
+  }
+
+  /**
+   * Providers listed in the decorator's `providers`, which are added to the element injector
+   * of the element the directive is applied to.
+   */
+  public getProviders (): Provider[] {
+    return readProvidersFromDecorator(this.project, this.getDecorator(), 'providers')
+  }
+
+  /**
+   * Renames a member of the class with the TypeScript language service.
+   */
+  public renameMember (oldName: string, newName: string): void {
+    this.getInstanceMemberOrThrow(oldName).rename(newName)
+  }
+
+  /**
+   * Renames an input, together with the attributes which set it (as in `[value]`, `value`
+   * and `[(value)]`) in templates of all components which have the directive in scope.
+   * With an alias, only the alias changes; otherwise, the class member is renamed as well.
+   * Inputs set through the microsyntax of a structural directive are not renamed.
+   *
+   * An output named as the input with `Change` appended (as `valueChange` for `value`) makes
+   * a two-way binding with it, so it's renamed in the same way, to keep `[(value)]` working.
+   *
+   * @param bindingName - The name used in templates, which is the alias if there is one.
+   */
+  public renameInput (bindingName: string, newBindingName: string): void {
+    const input = throwIfUndefined(
+      this.getInputByBindingName(bindingName),
+      `Expected "${this.getName()}" to have an input named "${bindingName}".`,
+    )
+    const output = this.getOutputByBindingName(`${bindingName}Change`)
+    if (output != null) {
+      this.renameTwoWayBinding(input, output, newBindingName)
+      return
+    }
+    this.renameUsages(this.project.findInputUsages(input), attribute => attribute.changeBoundInputName(newBindingName))
+    this.renameBinding(input, newBindingName)
+  }
+
+  /**
+   * Renames an output, together with the attributes which listen to it (as in `(changed)`
+   * and `[(value)]`) in templates of all components which have the directive in scope.
+   * With an alias, only the alias changes; otherwise, the class member is renamed as well.
+   *
+   * An output which makes a two-way binding with an input (as `valueChange` with `value`)
+   * can only be renamed to a name ending with `Change`, and the input is renamed with it.
+   *
+   * @param bindingName - The name used in templates, which is the alias if there is one.
+   * @see BananaInTheBoxTemplateNode.changeBoundOutputName
+   */
+  public renameOutput (bindingName: string, newBindingName: string): void {
+    const output = throwIfUndefined(
+      this.getOutputByBindingName(bindingName),
+      `Expected "${this.getName()}" to have an output named "${bindingName}".`,
+    )
+    const input = bindingName.endsWith('Change')
+      ? this.getInputByBindingName(bindingName.slice(0, -'Change'.length))
+      : undefined
+    if (input != null) {
+      if (!newBindingName.endsWith('Change')) {
+        throw new Error(`Expected output "${bindingName}" of "${this.getName()}", which makes a two-way binding with input "${input.getBindingName()}", to be renamed to something ending with "Change", but got "${newBindingName}".`)
+      }
+      this.renameTwoWayBinding(input, output, newBindingName.slice(0, -'Change'.length))
+      return
+    }
+    this.renameUsages(this.project.findOutputUsages(output), attribute => attribute.changeBoundOutputName(newBindingName))
+    this.renameBinding(output, newBindingName)
+  }
+
+  // region Internal
+
+  protected getDecoratorName (): string {
+    return 'Directive'
+  }
+
+  protected getInstanceMemberOrThrow (name: string): ClassInstanceMemberTypes {
+    return throwIfUndefined(
+      this.classDeclaration.getInstanceMember(name),
+      `Expected "${this.getName()}" to have a member named "${name}".`,
+    )
+  }
+
+  /**
+   * Renames the attributes, and then writes back each template. Templates are edited in
+   * their own copy of the text, so an error halfway through leaves nothing half renamed.
+   */
+  private renameUsages (attributes: AttributeTemplateNode[], rename: (attribute: AttributeTemplateNode) => void): void {
+    const templates = new Set(attributes.map(attribute => attribute.getTemplate()))
+    attributes.forEach(rename)
+    for (const template of templates) {
+      const component = throwIfUndefined(template.getComponent(), `Expected the template to belong to a component.`)
+      component._writeTemplate(template)
+    }
+  }
+
+  /**
+   * Renames an input and its `Change` output at once. A two-way binding such as `[(value)]`
+   * uses both, but is renamed only once.
+   */
+  private renameTwoWayBinding (input: DirectiveInput, output: DirectiveOutput, newInputName: string): void {
+    const inputUsages = this.project.findInputUsages(input)
+    const outputUsages = this.project.findOutputUsages(output).filter(attribute => !inputUsages.includes(attribute))
+    this.renameUsages([...inputUsages, ...outputUsages], attribute => {
+      if (inputUsages.includes(attribute)) {
+        attribute.changeBoundInputName(newInputName)
+      } else {
+        attribute.changeBoundOutputName(`${newInputName}Change`)
+      }
+    })
+    this.renameBinding(input, newInputName)
+    this.renameBinding(output, `${newInputName}Change`)
+  }
+
+  private renameBinding (binding: DirectiveBinding, newBindingName: string): void {
+    const propertyName = binding.getPropertyName()
+    const hasMember = !binding.hasAlias() && binding.getMember() != null
+    binding._changeBindingNameInDecorator(newBindingName)
+    if (hasMember) this.renameMember(propertyName, newBindingName)
+  }
+
+  private getHostMetadata () {
+    const host = this.getDecoratorProperty(
+      'host',
+      TypeGuards.isObjectLiteralExpression,
+      kind => `Expected @${this.getDecoratorName()}.host to be an object literal, but got ${kind}.`,
+    )
+    return readHostMetadata(this.project, this.classDeclaration, host)
+  }
+
+  // endregion Internal
+
 }
@@ -0,0 +1,182 @@
+import { NgAstNode } from './ng-ast-node'
+import { Project } from '../../project'
+import { LocationSpan } from './location'
+import { NgModule } from './ng-module'
+import * as tsm from 'ts-morph'
+
+export enum PlatformKind {
+  BrowserDynamic = 0,
+  Browser = 1,
+  Server = 2,
+  Unknown = 3,
+}
+
+const PLATFORM_FACTORIES: Record<string, PlatformKind> = {
+  platformBrowserDynamic: PlatformKind.BrowserDynamic,
+  platformBrowser: PlatformKind.Browser,
+  platformServer: PlatformKind.Server,
+  platformDynamicServer: PlatformKind.Server,
+}
+
+/**
+ * Functions which bootstrap a module on the server. The module is given either as the
+ * first argument or as the `bootstrap` property of the first argument.
+ */
+const SERVER_RENDER_FUNCTIONS = ['renderModule', 'renderModuleFactory', 'ngExpressEngine']
+
+/**
+ * A place where an NgModule is bootstrapped: a `bootstrapModule` call in `main.ts`, or
+ * a module exported from the server's entry file for server-side rendering.
+ */
+export class EntryPoint extends NgAstNode {
+
+  public constructor (project: Project,
+                      locationSpan: LocationSpan,
+                      private platformKind: PlatformKind,
+                      private ngModule: NgModule,
+                      tsmNode: tsm.Node) {
+    super(project, locationSpan, tsmNode)
+  }
+
+  public getPlatformKind (): PlatformKind {
+    return this.platformKind
+  }
+
+  public isServer (): boolean {
+    return this.getPlatformKind() == PlatformKind.Server
+  }
+
+  /**
+   * The bootstrapped module.
+   */
+  public getNgModule (): NgModule {
+    return this.ngModule
+  }
+
+  public getFilePath (): string {
+    return this.getLocationSpan().getFile().getUri()
+  }
+
+}
+
+export interface EntryPointCandidate {
+  node: tsm.Node
+  platformKind: PlatformKind
+  classDeclaration: tsm.ClassDeclaration
+}
+
+function getSymbolName (node: tsm.Node): string {
+  const symbol = node.getSymbol()
+  if (symbol == null) return node.getText()
+  // Follow imports (and renamed imports), unless the imported module cannot be resolved.
+  const aliasedSymbol = symbol.getAliasedSymbol()
+  if (aliasedSymbol != null && aliasedSymbol.getDeclarations().length > 0) return aliasedSymbol.getName()
+  return symbol.getName()
+}
+
+/**
+ * Is the call's target `PlatformRef.bootstrapModule`? When Angular's typings cannot be
+ * resolved (for example, in a virtual file system without `node_modules`), the name of
+ * the method is all we have to go by.
+ */
+function isBootstrapModuleCall (callExpression: tsm.CallExpression): boolean {
+  const expression = callExpression.getExpression()
+  if (!tsm.TypeGuards.isPropertyAccessExpression(expression)) return false
+  if (expression.getName() != 'bootstrapModule') return false
+  const symbol = expression.getNameNode().getSymbol()
+  const declarations = symbol == null ? [] : symbol.getDeclarations()
+  if (declarations.length == 0) return true
+  return declarations.some(declaration => {
+    const parent = declaration.getParent()
+    return parent != null && tsm.TypeGuards.isClassDeclaration(parent) && parent.getName() == 'PlatformRef'
+  })
+}
+
+/**
+ * Figures out which platform the receiver of `bootstrapModule` was created with. Follows
+ * variables, so `const platform = platformBrowserDynamic(); platform.bootstrapModule(...)`
+ * works as well.
+ */
+function getPlatformKind (receiver: tsm.Node): PlatformKind {
+  if (tsm.TypeGuards.isCallExpression(receiver)) {
+    const name = getSymbolName(receiver.getExpression())
+    const kind = PLATFORM_FACTORIES[name]
+    return kind == null ? PlatformKind.Unknown : kind
+  }
+  if (tsm.TypeGuards.isIdentifier(receiver)) {
+    const variableDeclaration = receiver.getDefinitionNodes().find(tsm.TypeGuards.isVariableDeclaration)
+    const initializer = variableDeclaration == null ? undefined : variableDeclaration.getInitializer()
+    if (initializer != null) return getPlatformKind(initializer)
+  }
+  if (tsm.TypeGuards.isParenthesizedExpression(receiver) || tsm.TypeGuards.isAwaitExpression(receiver)) {
+    return getPlatformKind(receiver.getExpression())
+  }
+  return PlatformKind.Unknown
+}
+
+function getClassDeclarationFromExpression (expression: tsm.Node): tsm.ClassDeclaration {
+  if (!tsm.TypeGuards.isIdentifier(expression)) {
+    throw new Error(`Expected the bootstrapped module to be an identifier, but got "${expression.getText()}" (${expression.getKindName()}).`)
+  }
+  const classDeclaration = expression.getDefinitionNodes().find(tsm.TypeGuards.isClassDeclaration)
+  if (classDeclaration == null) {
+    throw new Error(`Expected the bootstrapped module "${expression.getText()}" to reference a class.`)
+  }
+  return classDeclaration
+}
+
+function getServerRenderModuleArgument (callExpression: tsm.CallExpression): tsm.Node | undefined {
+  const name = getSymbolName(callExpression.getExpression())
+  if (!SERVER_RENDER_FUNCTIONS.includes(name)) return undefined
+  const [firstArgument] = callExpression.getArguments()
+  if (firstArgument == null) return undefined
+  if (tsm.TypeGuards.isObjectLiteralExpression(firstArgument)) {
+    const property = firstArgument.getProperty('bootstrap')
+    if (property == null || !tsm.TypeGuards.isPropertyAssignment(property)) return undefined
+    return property.getInitializer()
+  }
+  return firstArgument
+}
+
+/**
+ * Finds all the places in a file where a module is bootstrapped, in order of appearance.
+ *
+ * @param sourceFile - The main file of the application (browser or server).
+ * @param isServerFile - When set, NgModules exported from the file are also considered
+ * to be entry points, since that's how `main.server.ts` exposes `AppServerModule`.
+ */
+export function findEntryPointCandidates (sourceFile: tsm.SourceFile, isServerFile: boolean): EntryPointCandidate[] {
+  const result: EntryPointCandidate[] = []
+
+  for (const callExpression of sourceFile.getDescendantsOfKind(tsm.SyntaxKind.CallExpression)) {
+    if (isBootstrapModuleCall(callExpression)) {
+      const [firstArgument] = callExpression.getArguments()
+      if (firstArgument == null) throw new Error(`Expected "${callExpression.getText()}" to have an argument.`)
+      const receiver = (callExpression.getExpression() as tsm.PropertyAccessExpression).getExpression()
+      const platformKind = getPlatformKind(receiver)
+      const classDeclaration = getClassDeclarationFromExpression(firstArgument)
+      result.push({ node: callExpression, platformKind, classDeclaration })
+      continue
+    }
+
+    const serverModule = getServerRenderModuleArgument(callExpression)
+    if (serverModule != null && tsm.TypeGuards.isIdentifier(serverModule)) {
+      const classDeclaration = serverModule.getDefinitionNodes().find(tsm.TypeGuards.isClassDeclaration)
+      if (classDeclaration != null) {
+        result.push({ node: callExpression, platformKind: PlatformKind.Server, classDeclaration })
+      }
+    }
+  }
+
+  if (isServerFile && result.length == 0) {
+    for (const declarations of sourceFile.getExportedDeclarations().values()) {
+      for (const declaration of declarations) {
+        if (tsm.TypeGuards.isClassDeclaration(declaration) && declaration.getDecorator('NgModule') != null) {
+          result.push({ node: declaration, platformKind: PlatformKind.Server, classDeclaration: declaration })
+        }
+      }
+    }
+  }
+
+  return result
+}
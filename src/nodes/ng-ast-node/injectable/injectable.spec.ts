@@ -0,0 +1,94 @@
+import * as chai from 'chai'
+import { createAppProject } from '../../../utils/test-utils'
+
+function createServicesProject () {
+  return createAppProject({
+    '/app/tokens.ts': `
+      import { InjectionToken } from '@angular/core'
+      export const API_URL = new InjectionToken<string>('API_URL')
+    `,
+    '/app/services.ts': `
+      import { Injectable, Inject, Optional, SkipSelf } from '@angular/core'
+      import { API_URL } from './tokens'
+
+      @Injectable({ providedIn: 'root' })
+      export class LoggerService {
+      }
+
+      @Injectable()
+      export class HttpService {
+        constructor (@Inject(API_URL) private apiUrl: string,
+                     @Optional() @SkipSelf() private logger: LoggerService) {
+        }
+      }
+
+      @Injectable({ providedIn: 'root' })
+      export class ForgottenService {
+      }
+    `,
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+      import { HttpService } from './services'
+
+      @Component({
+        selector: 'app-root',
+        template: '',
+      })
+      export class AppComponent {
+        constructor (private http: HttpService) {
+        }
+      }
+    `,
+    '/app/app.module.ts': `
+      import { NgModule } from '@angular/core'
+      import { AppComponent } from './app.component'
+      import { HttpService } from './services'
+
+      @NgModule({
+        declarations: [AppComponent],
+        providers: [HttpService],
+      })
+      export class AppModule {
+      }
+    `,
+  })
+}
+
+describe(`Injectable`, () => {
+
+  it(`reads providedIn`, () => {
+    const project = createServicesProject()
+    chai.assert.equal(project.getInjectableByClassNameOrThrow('LoggerService').getProvidedIn(), 'root')
+    chai.assert.isUndefined(project.getInjectableByClassNameOrThrow('HttpService').getProvidedIn())
+  })
+
+  it(`resolves constructor dependencies with their flags`, () => {
+    const project = createServicesProject()
+    const [apiUrl, logger] = project.getInjectableByClassNameOrThrow('HttpService').getConstructorDependencies()
+
+    chai.assert.equal(apiUrl.getToken().getName(), 'API_URL')
+    chai.assert.isTrue(apiUrl.isExplicitToken())
+    chai.assert.isFalse(apiUrl.isOptional())
+
+    chai.assert.strictEqual(logger.getToken().getClassDeclaration(), project.getInjectableByClassNameOrThrow('LoggerService').getClassDeclaration())
+    chai.assert.deepEqual(logger.getFlags(), { optional: true, self: false, skipSelf: true, host: false })
+  })
+
+  it(`finds consumers of a service`, () => {
+    const project = createServicesProject()
+    const consumers = project.getInjectableByClassNameOrThrow('HttpService').getConsumers()
+    chai.assert.sameMembers(consumers.map(consumer => consumer.getName()), ['AppComponent'])
+  })
+
+  it(`finds services which nobody injects`, () => {
+    const project = createServicesProject()
+    chai.assert.sameMembers(project.getUnusedInjectables().map(injectable => injectable.getName()), ['ForgottenService'])
+  })
+
+  it(`puts services provided in root into the root injector`, () => {
+    const project = createServicesProject()
+    const logger = project.getInjectableByClassNameOrThrow('LoggerService')
+    chai.assert.isTrue(project.getDependencyInjectionGraph().getRootInjector().provides(logger.getClassDeclaration()))
+  })
+
+})
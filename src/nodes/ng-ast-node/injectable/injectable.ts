@@ -0,0 +1,123 @@
+import { NgAstNode } from '../ng-ast-node'
+import { Project } from '../../../project'
+import { LocationSpan } from '../location'
+import { NgModule } from '../ng-module'
+import { ClassProvider, ProviderToken } from '../provider'
+import { ConstructorDependency, readConstructorDependencies } from '../dependency'
+import { Declarable } from '../declarable'
+import * as tsm from 'ts-morph'
+
+/**
+ * The value of `@Injectable.providedIn`. A module is given by its class declaration, since
+ * it's not necessarily part of the project (it could be imported lazily, or not at all).
+ */
+export type ProvidedIn = 'root' | 'platform' | 'any' | tsm.ClassDeclaration
+
+/**
+ * Anything whose constructor can ask for dependencies.
+ */
+export type DependencyConsumer = Injectable | Declarable
+
+/**
+ * A class decorated with `@Injectable`, usually a service.
+ */
+export class Injectable extends NgAstNode {
+
+  public constructor (project: Project,
+                      protected classDeclaration: tsm.ClassDeclaration) {
+    super(project, LocationSpan.FromTsm(classDeclaration), classDeclaration)
+  }
+
+  /**
+   * Intended for more complex use-cases. Always check if there's a corresponding method
+   * on the instance before utilizing this.
+   */
+  public getClassDeclaration (): tsm.ClassDeclaration {
+    return this.classDeclaration
+  }
+
+  public getName (): string {
+    return this.getClassDeclaration().getNameOrThrow()
+  }
+
+  /**
+   * Where the service provides itself, as specified by `@Injectable({ providedIn })`.
+   *
+   * @return The scope, or `undefined` if the service has to be listed among the providers
+   * of a module or a component to be available.
+   */
+  public getProvidedIn (): ProvidedIn | undefined {
+    const decorator = this.classDeclaration.getDecoratorOrThrow('Injectable')
+    const [argument] = decorator.getArguments()
+    if (argument == null) return undefined
+    if (!tsm.TypeGuards.isObjectLiteralExpression(argument)) {
+      throw new Error(`Expected the argument of @Injectable in "${this.getName()}" to be an object literal expression.`)
+    }
+    const property = argument.getProperty('providedIn')
+    if (property == null) return undefined
+    if (!tsm.TypeGuards.isPropertyAssignment(property)) throw new Error(`Expected @Injectable.providedIn to be a property assignment.`)
+    const initializer = property.getInitializerOrThrow()
+
+    if (tsm.TypeGuards.isStringLiteral(initializer)) {
+      const value = initializer.getLiteralValue()
+      if (value != 'root' && value != 'platform' && value != 'any') {
+        throw new Error(`Expected @Injectable.providedIn to be "root", "platform" or "any", but got "${value}".`)
+      }
+      return value
+    }
+
+    if (initializer.getKind() == tsm.SyntaxKind.NullKeyword) return undefined
+
+    if (tsm.TypeGuards.isIdentifier(initializer)) {
+      const classDeclaration = initializer.getDefinitionNodes().find(tsm.TypeGuards.isClassDeclaration)
+      if (classDeclaration != null) return classDeclaration
+    }
+
+    throw new Error(`Expected @Injectable.providedIn to be a string literal or a module, but got "${initializer.getText()}".`)
+  }
+
+  public isProvidedInRoot (): boolean {
+    return this.getProvidedIn() == 'root'
+  }
+
+  /**
+   * The module from `@Injectable({ providedIn: SomeModule })`, if it's part of the project.
+   */
+  public getProvidedInNgModule (): NgModule | undefined {
+    const providedIn = this.getProvidedIn()
+    if (providedIn == null || typeof providedIn == 'string') return undefined
+    return this.project.getNgModuleByClassDeclaration(providedIn)
+  }
+
+  /**
+   * The provider which `providedIn` implicitly registers, as if the class was listed among
+   * the providers of the module (or the root injector).
+   *
+   * @return The provider, or `undefined` if the service isn't tree-shakable.
+   */
+  public getTreeShakableProvider (): ClassProvider | undefined {
+    if (this.getProvidedIn() == null) return undefined
+    const nameNode = this.classDeclaration.getNameNodeOrThrow()
+    const token = new ProviderToken(nameNode)
+    return new ClassProvider(this.project, nameNode, token, false, token, true)
+  }
+
+  /**
+   * @see readConstructorDependencies
+   */
+  public getConstructorDependencies (): ConstructorDependency[] {
+    return readConstructorDependencies(this.project, this.classDeclaration)
+  }
+
+  /**
+   * Services, components, directives and pipes which inject this service.
+   */
+  public getConsumers (): DependencyConsumer[] {
+    return this.project.getConsumersOf(this.classDeclaration)
+  }
+
+  public isUnused (): boolean {
+    return this.getConsumers().length == 0
+  }
+
+}
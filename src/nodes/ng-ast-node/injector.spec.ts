@@ -0,0 +1,228 @@
+import * as chai from 'chai'
+import { createAppProject, routerModuleStubFiles } from '../../utils/test-utils'
+import { Injector, InjectorKind } from './injector'
+
+function createShopProject () {
+  return createAppProject({
+    ...routerModuleStubFiles,
+    '/app/services.ts': `
+      export class CartService {}
+      export class LoggerService {}
+      export class ConsoleLoggerService {}
+    `,
+    '/app/shared.module.ts': `
+      import { NgModule } from '@angular/core'
+      import { CartService } from './services'
+
+      @NgModule({
+        providers: [CartService],
+      })
+      export class SharedModule {
+      }
+    `,
+    '/app/app.module.ts': `
+      import { NgModule } from '@angular/core'
+      import { RouterModule } from '@angular/router'
+      import { SharedModule } from './shared.module'
+      import { LoggerService, ConsoleLoggerService } from './services'
+
+      @NgModule({
+        imports: [
+          SharedModule,
+          RouterModule.forRoot([
+            { path: 'admin', loadChildren: () => import('./admin/admin.module').then(m => m.AdminModule) },
+          ]),
+        ],
+        providers: [
+          { provide: LoggerService, useClass: ConsoleLoggerService },
+        ],
+      })
+      export class AppModule {
+      }
+    `,
+    '/app/admin/admin.component.ts': `
+      import { Component } from '@angular/core'
+      import { LoggerService } from '../services'
+
+      @Component({
+        selector: 'app-admin',
+        template: '',
+        providers: [LoggerService],
+      })
+      export class AdminComponent {
+      }
+    `,
+    '/app/admin/admin.module.ts': `
+      import { NgModule } from '@angular/core'
+      import { RouterModule } from '@angular/router'
+      import { SharedModule } from '../shared.module'
+      import { AdminComponent } from './admin.component'
+
+      @NgModule({
+        declarations: [AdminComponent],
+        imports: [
+          SharedModule,
+          RouterModule.forChild([]),
+        ],
+      })
+      export class AdminModule {
+      }
+    `,
+  })
+}
+
+function createTabsProject () {
+  return createAppProject({
+    '/app/services.ts': `
+      export class TabsState {}
+      export class IconRegistry {}
+      export class ThemeService {}
+    `,
+    '/app/app.module.ts': `
+      import { NgModule, Component, Directive } from '@angular/core'
+      import { TabsState, IconRegistry, ThemeService } from './services'
+
+      @Component({
+        selector: 'app-root',
+        template: '<app-tabs><app-panel></app-panel></app-tabs><app-panel></app-panel>',
+      })
+      export class AppComponent {}
+
+      @Component({
+        selector: 'app-tabs',
+        template: '<ng-content></ng-content><div appTheme><app-panel></app-panel></div>',
+        providers: [TabsState],
+        viewProviders: [IconRegistry],
+      })
+      export class TabsComponent {}
+
+      @Directive({
+        selector: '[appTheme]',
+        providers: [ThemeService],
+      })
+      export class ThemeDirective {}
+
+      @Component({ selector: 'app-panel', template: '' })
+      export class PanelComponent {}
+
+      @NgModule({
+        declarations: [AppComponent, TabsComponent, ThemeDirective, PanelComponent],
+      })
+      export class AppModule {
+      }
+    `,
+  })
+}
+
+describe(`DependencyInjectionGraph`, () => {
+
+  it(`creates a child injector for each lazy-loaded module`, () => {
+    const graph = createShopProject().getDependencyInjectionGraph()
+    const names = graph.getModuleInjectors().map(injector => injector.getName())
+    chai.assert.sameOrderedMembers(names, ['root (AppModule)', 'lazy (AdminModule)'])
+    const [, lazyInjector] = graph.getModuleInjectors()
+    chai.assert.equal(lazyInjector.getKind(), InjectorKind.LazyModule)
+    chai.assert.strictEqual(lazyInjector.getParent(), graph.getRootInjector())
+  })
+
+  it(`finds lazy-loaded modules under a route without a component`, () => {
+    const project = createAppProject({
+      ...routerModuleStubFiles,
+      '/app/auth.guard.ts': `
+        export class AuthGuard {}
+      `,
+      '/app/app.module.ts': `
+        import { NgModule } from '@angular/core'
+        import { RouterModule } from '@angular/router'
+        import { AuthGuard } from './auth.guard'
+
+        @NgModule({
+          imports: [
+            RouterModule.forRoot([
+              {
+                path: 'admin',
+                canActivate: [AuthGuard],
+                children: [
+                  { path: '', loadChildren: () => import('./admin/admin.module').then(m => m.AdminModule) },
+                ],
+              },
+            ]),
+          ],
+        })
+        export class AppModule {
+        }
+      `,
+      '/app/admin/admin.module.ts': `
+        import { NgModule } from '@angular/core'
+        import { RouterModule } from '@angular/router'
+
+        @NgModule({
+          imports: [RouterModule.forChild([])],
+        })
+        export class AdminModule {
+        }
+      `,
+    })
+    const names = project.getDependencyInjectionGraph().getModuleInjectors().map(injector => injector.getName())
+    chai.assert.sameOrderedMembers(names, ['root (AppModule)', 'lazy (AdminModule)'])
+  })
+
+  it(`reports services instantiated in several module injectors`, () => {
+    const graph = createShopProject().getDependencyInjectionGraph()
+    const duplicates = graph.getDuplicateProviders()
+    chai.assert.sameOrderedMembers(duplicates.map(duplicate => duplicate.token.getName()), ['CartService'])
+  })
+
+  it(`finds the closest injector which provides a token`, () => {
+    const project = createShopProject()
+    const graph = project.getDependencyInjectionGraph()
+    const adminComponent = project.getComponentByClassNameIfSingleOrThrow('AdminComponent')
+    const services = project.tsMorphProject.getSourceFileOrThrow('/app/services.ts')
+    const loggerService = services.getClassOrThrow('LoggerService')
+    const cartService = services.getClassOrThrow('CartService')
+    chai.assert.equal(graph.getProvidingInjector(loggerService, adminComponent)!.getName(), 'element (AdminComponent)')
+    chai.assert.equal(graph.getProvidingInjector(cartService, adminComponent)!.getName(), 'lazy (AdminModule)')
+  })
+
+  describe(`element injectors of the elements around a component`, () => {
+
+    function getNames (injectors: Array<Injector | undefined>): Array<string | undefined> {
+      return injectors.map(injector => injector == null ? undefined : injector.getName())
+    }
+
+    it(`has one for each place where the component is rendered`, () => {
+      const project = createTabsProject()
+      const panel = project.getComponentByClassNameIfSingleOrThrow('PanelComponent')
+      const injectors = project.getDependencyInjectionGraph().getElementInjectors(panel)
+      chai.assert.lengthOf(injectors, 3)
+      chai.assert.isTrue(injectors.every(injector => injector.getKind() == InjectorKind.View))
+      chai.assert.isTrue(injectors.every(injector => injector.getElement() != null))
+    })
+
+    it(`finds providers of ancestor components, including for projected content`, () => {
+      const project = createTabsProject()
+      const panel = project.getComponentByClassNameIfSingleOrThrow('PanelComponent')
+      const tabsState = project.tsMorphProject.getSourceFileOrThrow('/app/services.ts').getClassOrThrow('TabsState')
+      const names = getNames(project.getDependencyInjectionGraph().getProvidingInjectors(tabsState, panel))
+      chai.assert.sameMembers(names, ['element (TabsComponent)', 'element (TabsComponent)', undefined])
+    })
+
+    it(`finds view providers only from the component's own template`, () => {
+      const project = createTabsProject()
+      const panel = project.getComponentByClassNameIfSingleOrThrow('PanelComponent')
+      const iconRegistry = project.tsMorphProject.getSourceFileOrThrow('/app/services.ts').getClassOrThrow('IconRegistry')
+      const names = getNames(project.getDependencyInjectionGraph().getProvidingInjectors(iconRegistry, panel))
+      chai.assert.sameMembers(names, ['view (TabsComponent)', undefined, undefined])
+    })
+
+    it(`finds providers of directives on ancestor elements`, () => {
+      const project = createTabsProject()
+      const panel = project.getComponentByClassNameIfSingleOrThrow('PanelComponent')
+      const themeService = project.tsMorphProject.getSourceFileOrThrow('/app/services.ts').getClassOrThrow('ThemeService')
+      const names = getNames(project.getDependencyInjectionGraph().getProvidingInjectors(themeService, panel))
+      chai.assert.sameMembers(names, ['element (ThemeDirective)', undefined, undefined])
+    })
+
+  })
+
+})
@@ -0,0 +1,412 @@
+import { Project } from '../../project'
+import { NgModule } from './ng-module'
+import { Component } from './component/component'
+import { Directive } from './directive/directive'
+import { Provider, ProviderToken } from './provider'
+import { isLazyRoute, LazyRoute, Route } from './route'
+import * as tsm from 'ts-morph'
+import * as tg from 'type-guards'
+import { flatMap } from '../../utils'
+import { ElementLikeTemplateNode } from './template/template-nodes'
+import { isElementLike } from './template/template-nodes-type-guards'
+
+export enum InjectorKind {
+  Root = 0,
+  LazyModule = 1,
+  Element = 2,
+  View = 3,
+}
+
+export type InjectorOwner = NgModule | Component | Directive
+
+/**
+ * A node in the dependency-injection graph of a project.
+ *
+ * Module injectors (the root injector and one for each lazy-loaded module) collect the
+ * providers of their module and of all the modules it transitively imports. An element
+ * injector holds the providers of the component and directives on an element, and a view
+ * injector the view providers of the component, which only its own template sees.
+ */
+export class Injector {
+
+  public constructor (private kind: InjectorKind,
+                      private owner: InjectorOwner,
+                      private parent: Injector | undefined,
+                      private providers: Provider[],
+                      private ngModules: NgModule[] = [],
+                      private element?: ElementLikeTemplateNode) {
+  }
+
+  public getKind (): InjectorKind {
+    return this.kind
+  }
+
+  /**
+   * The module which creates the injector (the bootstrapped module or the lazy-loaded
+   * module), or the component or directive for element injectors.
+   */
+  public getOwner (): InjectorOwner {
+    return this.owner
+  }
+
+  public getParent (): Injector | undefined {
+    return this.parent
+  }
+
+  public getProviders (): Provider[] {
+    return this.providers
+  }
+
+  /**
+   * For element and view injectors, the element in a template which they belong to.
+   *
+   * @return The element, or `undefined` for a module injector, or for a component which is
+   * not rendered by a template (such as a bootstrapped or routed one).
+   */
+  public getElement (): ElementLikeTemplateNode | undefined {
+    return this.element
+  }
+
+  /**
+   * For module injectors, all modules whose providers end up in the injector. Empty for
+   * element injectors.
+   */
+  public getNgModules (): NgModule[] {
+    return this.ngModules
+  }
+
+  public getProvidersFor (token: ProviderToken | tsm.Node): Provider[] {
+    return this.providers.filter(provider => provider.getToken().isSameAs(token))
+  }
+
+  /**
+   * Does this injector itself (not counting its parents) provide the token?
+   */
+  public provides (token: ProviderToken | tsm.Node): boolean {
+    return this.getProvidersFor(token).length > 0
+  }
+
+  public getDepth (): number {
+    return this.parent == null ? 0 : this.parent.getDepth() + 1
+  }
+
+  public getName (): string {
+    const ownerName = this.owner.getName()
+    switch (this.kind) {
+      case InjectorKind.Root:
+        return `root (${ownerName})`
+      case InjectorKind.LazyModule:
+        return `lazy (${ownerName})`
+      case InjectorKind.Element:
+        return `element (${ownerName})`
+      case InjectorKind.View:
+        return `view (${ownerName})`
+    }
+  }
+
+}
+
+/**
+ * The injectors of an element, for one place where the template it's in is rendered.
+ */
+interface ElementInjectors {
+  /**
+   * The injector with the providers of the component and directives on the element, or the
+   * closest one above for an element without any.
+   */
+  element: Injector
+  /**
+   * The injector with the view providers of the component on the element, if there is one.
+   */
+  view: Injector | undefined
+}
+
+export interface DuplicateProvider {
+  token: ProviderToken
+  providers: Array<{ injector: Injector, provider: Provider }>
+}
+
+/**
+ * Collects the module together with all modules it imports, directly or transitively,
+ * in the order in which Angular instantiates them (imports before the importing module).
+ */
+function getTransitiveImports (ngModule: NgModule, visited: Set<NgModule> = new Set()): NgModule[] {
+  if (visited.has(ngModule)) return []
+  visited.add(ngModule)
+  const result: NgModule[] = []
+  for (const importedModule of ngModule.getDirectlyImportedModules()) {
+    result.push(...getTransitiveImports(importedModule, visited))
+  }
+  result.push(ngModule)
+  return result
+}
+
+function findProvidingInjector (token: ProviderToken | tsm.Node, start: Injector): Injector | undefined {
+  let injector: Injector | undefined = start
+  while (injector != null) {
+    if (injector.provides(token)) return injector
+    injector = injector.getParent()
+  }
+  return undefined
+}
+
+function getParentElement (element: ElementLikeTemplateNode): ElementLikeTemplateNode | undefined {
+  let parent = element.getTemplateParent()
+  while (parent != null && !isElementLike(parent)) {
+    parent = parent.getTemplateParent()
+  }
+  return parent
+}
+
+function collectLazyRoutes (routes: Route[]): LazyRoute[] {
+  const result: LazyRoute[] = []
+  for (const route of routes) {
+    if (isLazyRoute(route)) {
+      result.push(route)
+    } else {
+      result.push(...collectLazyRoutes(route.getChildren()))
+    }
+  }
+  return result
+}
+
+/**
+ * Answers questions about which injector provides what, for the whole project.
+ *
+ * Element injectors follow the elements in which a component or directive is rendered, up
+ * through the templates of the components which render those, as far as templates go.
+ */
+export class DependencyInjectionGraph {
+
+  private readonly rootInjector: Injector
+
+  private readonly moduleInjectors: Injector[] = []
+
+  private readonly elementInjectors = new Map<Component | Directive, Injector>()
+
+  private readonly templateInjectors = new Map<ElementLikeTemplateNode, Map<Injector, ElementInjectors>>()
+
+  private hostElements?: Map<Directive, ElementLikeTemplateNode[]>
+
+  public constructor (private project: Project) {
+    this.rootInjector = this.createModuleInjector(InjectorKind.Root, project.getBootstrapModule(), undefined, new Set())
+  }
+
+  public getRootInjector (): Injector {
+    return this.rootInjector
+  }
+
+  /**
+   * The root injector followed by an injector for each lazy-loaded module. Parent injectors
+   * always come before their children.
+   */
+  public getModuleInjectors (): Injector[] {
+    return this.moduleInjectors
+  }
+
+  /**
+   * The module injector used by the declarables of the given module. If the module ends up
+   * in several injectors (for example, a shared module imported both eagerly and lazily),
+   * the first one from {@link getModuleInjectors} wins.
+   */
+  public getModuleInjectorFor (ngModule: NgModule): Injector {
+    const injector = this.moduleInjectors.find(moduleInjector => moduleInjector.getNgModules().includes(ngModule))
+    return injector != null ? injector : this.rootInjector
+  }
+
+  /**
+   * The injector which the component or directive starts from when it's not rendered by a
+   * template, as a bootstrapped or routed component: the view injector for a component (whose
+   * parent is the element injector), or the element injector for a directive. The module
+   * injector of the module in which it's declared comes next.
+   */
+  public getElementInjector (declarable: Component | Directive): Injector {
+    const existing = this.elementInjectors.get(declarable)
+    if (existing != null) return existing
+    const parent = this.getModuleInjectorFor(declarable.getNgModule())
+    const elementInjector = new Injector(InjectorKind.Element, declarable, parent, declarable.getProviders())
+    const injector = declarable instanceof Component
+      ? new Injector(InjectorKind.View, declarable, elementInjector, declarable.getViewProviders())
+      : elementInjector
+    this.elementInjectors.set(declarable, injector)
+    return injector
+  }
+
+  /**
+   * The injectors which the component or directive starts from, one for each element which
+   * it's applied to in templates, and for each place where those templates are rendered in
+   * turn. Above the element come the elements around it, and then the element which renders
+   * the template; a component's view providers are seen only from its own template.
+   *
+   * A component which renders itself (directly or through other components) is followed only
+   * once. Where no template renders the component or directive, this is {@link getElementInjector}.
+   */
+  public getElementInjectors (declarable: Component | Directive): Injector[] {
+    return this.getElementInjectorsOnPath(declarable, declarable instanceof Component ? [declarable] : [])
+  }
+
+  /**
+   * Which injector provides the token when it's requested by the given component or
+   * directive? Walks from the element injector up through the elements around it and the
+   * module injectors. Where the component or directive is rendered in several places, the
+   * answer is for the first one from {@link getElementInjectors}.
+   *
+   * @return The providing injector, or `undefined` if the token is not provided anywhere
+   * along the way.
+   */
+  public getProvidingInjector (token: ProviderToken | tsm.Node, declarable: Component | Directive): Injector | undefined {
+    return findProvidingInjector(token, this.getElementInjectors(declarable)[0])
+  }
+
+  /**
+   * Like {@link getProvidingInjector}, but for every place where the component or directive
+   * is rendered, in the order of {@link getElementInjectors}.
+   */
+  public getProvidingInjectors (token: ProviderToken | tsm.Node, declarable: Component | Directive): Array<Injector | undefined> {
+    return this.getElementInjectors(declarable).map(injector => findProvidingInjector(token, injector))
+  }
+
+  /**
+   * Tokens provided by more than one module injector. Each of those injectors creates its
+   * own instance, which is a common source of bugs when a lazy-loaded module imports a
+   * module with providers that is already imported eagerly. Multi providers are ignored.
+   */
+  public getDuplicateProviders (): DuplicateProvider[] {
+    const result: DuplicateProvider[] = []
+    const entries = flatMap(this.moduleInjectors, injector => {
+      return injector.getProviders()
+        .filter(provider => !provider.isMulti())
+        .map(provider => ({ injector, provider }))
+    })
+    const handled = new Set<typeof entries[number]>()
+    for (const entry of entries) {
+      if (handled.has(entry)) continue
+      const token = entry.provider.getToken()
+      const sameToken = entries.filter(other => other.provider.getToken().isSameAs(token))
+      sameToken.forEach(other => handled.add(other))
+      const injectors = new Set(sameToken.map(other => other.injector))
+      if (injectors.size > 1) {
+        result.push({ token, providers: sameToken })
+      }
+    }
+    return result
+  }
+
+  // region Internal
+
+  /**
+   * @param path - Components whose templates are already being followed.
+   */
+  private getElementInjectorsOnPath (declarable: Component | Directive, path: Component[]): Injector[] {
+    const hosts = (this.getHostElements().get(declarable) || []).filter(host => {
+      return !path.includes(host.getTemplate().getComponent()!)
+    })
+    if (hosts.length == 0) return [this.getElementInjector(declarable)]
+    return flatMap(hosts, host => {
+      const owner = host.getTemplate().getComponent()!
+      return this.getElementInjectorsOnPath(owner, [...path, owner]).map(viewInjector => {
+        const { element, view } = this.getInjectorsOfElement(host, viewInjector)
+        return declarable instanceof Component && view != null ? view : element
+      })
+    })
+  }
+
+  /**
+   * @param viewInjector - The view injector of the component whose template has the element,
+   * for one place where the component is rendered.
+   */
+  private getInjectorsOfElement (element: ElementLikeTemplateNode, viewInjector: Injector): ElementInjectors {
+    let byViewInjector = this.templateInjectors.get(element)
+    if (byViewInjector == null) {
+      byViewInjector = new Map()
+      this.templateInjectors.set(element, byViewInjector)
+    }
+    const existing = byViewInjector.get(viewInjector)
+    if (existing != null) return existing
+
+    const parentElement = getParentElement(element)
+    const parent = parentElement == null ? viewInjector : this.getInjectorsOfElement(parentElement, viewInjector).element
+    const component = element.getMatchedComponent()
+    const directives = element.getMatchedDirectives()
+    const declarables: Directive[] = component == null ? directives : [component, ...directives]
+    let result: ElementInjectors
+    if (declarables.length == 0) {
+      result = { element: parent, view: undefined }
+    } else {
+      const providers = flatMap(declarables, declarable => declarable.getProviders())
+      const elementInjector = new Injector(InjectorKind.Element, declarables[0], parent, providers, [], element)
+      const view = component == null
+        ? undefined
+        : new Injector(InjectorKind.View, component, elementInjector, component.getViewProviders(), [], element)
+      result = { element: elementInjector, view }
+    }
+    byViewInjector.set(viewInjector, result)
+    return result
+  }
+
+  /**
+   * The elements in templates of all components, by the component or directive applied to them.
+   */
+  private getHostElements (): Map<Directive, ElementLikeTemplateNode[]> {
+    if (this.hostElements == null) {
+      const hostElements = new Map<Directive, ElementLikeTemplateNode[]>()
+      for (const component of this.project.getDeclarables().filter(tg.isInstanceOf(Component))) {
+        for (const element of component.getTemplate().getTemplateNodes(isElementLike)) {
+          const matchedComponent = element.getMatchedComponent()
+          const declarables = [...(matchedComponent == null ? [] : [matchedComponent]), ...element.getMatchedDirectives()]
+          for (const declarable of declarables) {
+            hostElements.set(declarable, [...(hostElements.get(declarable) || []), element])
+          }
+        }
+      }
+      this.hostElements = hostElements
+    }
+    return this.hostElements
+  }
+
+  private createModuleInjector (kind: InjectorKind,
+                                ngModule: NgModule,
+                                parent: Injector | undefined,
+                                visitedLazyModules: Set<NgModule>): Injector {
+    const ngModules = getTransitiveImports(ngModule)
+    const providers = flatMap(ngModules, module => [...module.getImportProviders(), ...module.getProviders()])
+    providers.push(...this.getTreeShakableProviders(kind, ngModules))
+    const injector = new Injector(kind, ngModule, parent, providers, ngModules)
+    this.moduleInjectors.push(injector)
+
+    visitedLazyModules.add(ngModule)
+    const lazyRoutes = flatMap(ngModules, module => {
+      const routes = module.getRoutes()
+      return routes == null ? [] : collectLazyRoutes(routes.getRoutes())
+    })
+    for (const lazyRoute of lazyRoutes) {
+      const lazyModule = lazyRoute.getNgModule()
+      if (visitedLazyModules.has(lazyModule)) continue
+      this.createModuleInjector(InjectorKind.LazyModule, lazyModule, injector, visitedLazyModules)
+    }
+
+    return injector
+  }
+
+  /**
+   * Services with `providedIn: 'root'` belong to the root injector, and services with
+   * `providedIn: SomeModule` to the injector which includes the module.
+   */
+  private getTreeShakableProviders (kind: InjectorKind, ngModules: NgModule[]): Provider[] {
+    const result: Provider[] = []
+    for (const injectable of this.project.getInjectables()) {
+      const providedIn = injectable.getProvidedIn()
+      if (providedIn == null) continue
+      const isIncluded = providedIn == 'root'
+        ? kind == InjectorKind.Root
+        : typeof providedIn != 'string' && ngModules.some(ngModule => ngModule.getClassDeclaration() == providedIn)
+      if (!isIncluded) continue
+      const provider = injectable.getTreeShakableProvider()
+      if (provider != null) result.push(provider)
+    }
+    return result
+  }
+
+  // endregion Internal
+
+}
@@ -1,7 +1,6 @@
 import * as tsm from 'ts-morph'
 import { SimpleCache } from '../../utils/manager'
 import * as path from 'path'
-import * as fs from 'fs'
 import { ParseSourceSpan } from './template/tokenizer/parse_util'
 
 function isNewLine (char: string) {
@@ -11,14 +10,23 @@ function isNewLine (char: string) {
   return char == '\n'
 }
 
+/**
+ * Files other than TypeScript ones (such as external templates) are read through the file
+ * system of the ts-morph project, so that they can live in a virtual file system too.
+ */
 export class LocationFileManager extends SimpleCache<tsm.SourceFile | string, LocationFile> {
+
+  public constructor (private fileSystem: tsm.FileSystemHost) {
+    super()
+  }
+
   protected create (sourceFileOrAbsolutePath: tsm.SourceFile | string): LocationFile {
     if (typeof sourceFileOrAbsolutePath == 'string') {
       if (!path.isAbsolute(sourceFileOrAbsolutePath)) {
         throw new Error(`Path must be absolute. Got: "${sourceFileOrAbsolutePath}".`)
       }
       const uri = sourceFileOrAbsolutePath
-      const content = fs.readFileSync(uri, { encoding: 'utf8' })
+      const content = this.fileSystem.readFileSync(uri, 'utf8')
       return new LocationFile(uri, content)
     } else {
       const uri = sourceFileOrAbsolutePath.getFilePath()
@@ -26,6 +34,66 @@ export class LocationFileManager extends SimpleCache<tsm.SourceFile | string, Lo
       return new LocationFile(uri, content)
     }
   }
+
+  public getDirtyFiles (): LocationFile[] {
+    return this.getValues().filter(file => file.isDirty())
+  }
+
+  /**
+   * Writes the dirty files to the file system. Nothing is written if any of them was changed
+   * on the file system since it was read (or last saved), so that changes made by something
+   * else (such as an editor) are not lost.
+   *
+   * @throws Error - If a dirty file was changed on the file system.
+   */
+  public saveDirtyFiles (): void {
+    const dirtyFiles = this.getDirtyFiles()
+    for (const file of dirtyFiles) {
+      const uri = file.getUri()
+      const content = this.fileSystem.fileExistsSync(uri) ? this.fileSystem.readFileSync(uri, 'utf8') : undefined
+      if (content != file.getSavedContent()) {
+        throw new Error(`Refusing to overwrite "${uri}", which was changed on the file system since it was read.`)
+      }
+    }
+    for (const file of dirtyFiles) {
+      this.fileSystem.writeFileSync(file.getUri(), file.getContent())
+      file._markAsSaved()
+    }
+  }
+
+  /**
+   * @internal
+   */
+  public _takeSnapshot (): Map<LocationFile, LocationFileState> {
+    return new Map(this.getValues().map(file => [file, file._getState()] as [LocationFile, LocationFileState]))
+  }
+
+  /**
+   * @internal
+   *
+   * Puts the files back to how they were when the snapshot was taken. Files read after that
+   * are dropped, so that they are read again when needed.
+   */
+  public _restoreSnapshot (snapshot: Map<LocationFile, LocationFileState>): void {
+    for (const [key, file] of this.getEntries()) {
+      const state = snapshot.get(file)
+      if (state == null) {
+        this.delete(key)
+      } else {
+        file._setState(state)
+      }
+    }
+  }
+
+}
+
+/**
+ * @internal
+ */
+export interface LocationFileState {
+  content: string
+  savedContent: string
+  isDirty: boolean
 }
 
 /**
@@ -35,6 +103,8 @@ export class LocationFile {
 
   private _isDirty: boolean = false
 
+  private savedContent: string
+
   public static FromTsm (tsmSourceFile: tsm.SourceFile): LocationFile {
     const uri = tsmSourceFile.getFilePath()
     const content = tsmSourceFile.getFullText()
@@ -45,6 +115,7 @@ export class LocationFile {
     private uri: string,
     private content: string,
   ) {
+    this.savedContent = content
   }
 
   public getUri (): string {
@@ -63,6 +134,37 @@ export class LocationFile {
     return this._isDirty
   }
 
+  /**
+   * The content as it was when the file was read, or when it was last saved.
+   */
+  public getSavedContent (): string {
+    return this.savedContent
+  }
+
+  /**
+   * @internal
+   */
+  public _markAsSaved (): void {
+    this.savedContent = this.content
+    this._isDirty = false
+  }
+
+  /**
+   * @internal
+   */
+  public _getState (): LocationFileState {
+    return { content: this.content, savedContent: this.savedContent, isDirty: this._isDirty }
+  }
+
+  /**
+   * @internal
+   */
+  public _setState (state: LocationFileState): void {
+    this.content = state.content
+    this.savedContent = state.savedContent
+    this._isDirty = state.isDirty
+  }
+
   public replaceText (offsetIndex: number, deleteCount: number, newText: string): void {
     const left = this.content.slice(0, offsetIndex)
     const right = this.content.slice(offsetIndex + deleteCount)
@@ -346,6 +448,14 @@ export class LocationSpan {
     this.changeLengthTo(newText.length)
   }
 
+  /**
+   * Creates a new span within this one. Offsets are relative to the start of this span.
+   */
+  public slice (relativeStart: number, relativeEnd: number): LocationSpan {
+    const start = this.getStart().getOffset()
+    return LocationSpan.FromFile(this.getFile(), start + relativeStart, start + relativeEnd)
+  }
+
   public clone (): LocationSpan {
     const start = this.getStart().clone()
     const end = this.getEnd().clone()
@@ -0,0 +1,99 @@
+import * as chai from 'chai'
+import { createAppProject } from '../../utils/test-utils'
+
+function createScopeProject () {
+  return createAppProject({
+    '/app/icons.module.ts': `
+      import { NgModule, Component } from '@angular/core'
+      import { ButtonsModule } from './buttons.module'
+
+      @Component({ selector: 'app-icon', template: '' })
+      export class IconComponent {}
+
+      @Component({ selector: 'app-icon-sprite', template: '' })
+      export class IconSpriteComponent {}
+
+      @NgModule({
+        declarations: [IconComponent, IconSpriteComponent],
+        imports: [ButtonsModule],
+        exports: [IconComponent, ButtonsModule],
+      })
+      export class IconsModule {
+      }
+    `,
+    '/app/buttons.module.ts': `
+      import { NgModule, Component } from '@angular/core'
+
+      @Component({ selector: 'app-button', template: '' })
+      export class ButtonComponent {}
+
+      @NgModule({
+        declarations: [ButtonComponent],
+        exports: [ButtonComponent],
+      })
+      export class ButtonsModule {
+      }
+    `,
+    '/app/forms.module.ts': `
+      import { NgModule, Component } from '@angular/core'
+      import { ButtonsModule } from './buttons.module'
+
+      @Component({ selector: 'app-form', template: '' })
+      export class FormComponent {}
+
+      @NgModule({
+        declarations: [FormComponent],
+        imports: [ButtonsModule],
+        exports: [ButtonsModule],
+      })
+      export class FormsModule {
+      }
+    `,
+    '/app/app.module.ts': `
+      import { NgModule, Component } from '@angular/core'
+      import { IconsModule } from './icons.module'
+      import { FormsModule } from './forms.module'
+
+      @Component({ selector: 'app-root', template: '' })
+      export class AppComponent {}
+
+      @NgModule({
+        declarations: [AppComponent],
+        imports: [IconsModule, FormsModule],
+      })
+      export class AppModule {
+      }
+    `,
+  })
+}
+
+describe(`NgModule`, () => {
+
+  describe(`getDeclarablesInScope`, () => {
+
+    it(`has the own declarations and the ones exported from imported modules`, () => {
+      const appModule = createScopeProject().getNgModuleByClassNameOrThrow('AppModule')
+      const names = appModule.getDeclarablesInScope().map(declarable => declarable.getName())
+      chai.assert.sameMembers(names, ['AppComponent', 'IconComponent', 'ButtonComponent'])
+    })
+
+    it(`leaves out declarations which imported modules don't export`, () => {
+      const appModule = createScopeProject().getNgModuleByClassNameOrThrow('AppModule')
+      const names = appModule.getDeclarablesInScope().map(declarable => declarable.getName())
+      chai.assert.notInclude(names, 'IconSpriteComponent')
+      chai.assert.notInclude(names, 'FormComponent')
+    })
+
+  })
+
+  describe(`getNgModulesInScope`, () => {
+
+    it(`follows re-exported modules, once even when several modules export them`, () => {
+      const appModule = createScopeProject().getNgModuleByClassNameOrThrow('AppModule')
+      const names = appModule.getNgModulesInScope().map(ngModule => ngModule.getName())
+      chai.assert.sameMembers(names, ['IconsModule', 'FormsModule', 'ButtonsModule'])
+    })
+
+  })
+
+})
@@ -10,15 +10,16 @@ import { Project } from '../../project'
 import { resolveArrayDestructing } from '../../utils/array-destructing-resolver'
 import {
   getPropertyValueOfKind,
-  getPropertyValueOfKindOrThrow,
+  mapValues,
   throwIfLengthNotOne,
   throwIfUndefined,
 } from '../../utils'
 import { resolveTo } from '../../utils/resolve-to'
 import * as path from 'path'
-import { EagerRoute, LazyRoute, RedirectRoute, Route } from './route'
+import { ComponentlessRoute, EagerRoute, LazyRoute, PRIMARY_OUTLET, RedirectRoute, Route, RouteConfig, RouteHandler, RunGuardsAndResolvers } from './route'
 import { Routes } from './routes'
 import { LocationSpan } from './location'
+import { Provider, readProvidersFromDecorator, readProvidersFromModuleWithProviders } from './provider'
 
 function getArrayElementsFromObjectLiteralPropertyInitializer (object: tsm.ObjectLiteralExpression, propertyName: string): tsm.Node[] {
   const objectLiteralElementLike = object.getProperty(propertyName)
@@ -29,13 +30,96 @@ function getArrayElementsFromObjectLiteralPropertyInitializer (object: tsm.Objec
   return resolveArrayDestructing(initializer)
 }
 
-function getClassDeclarationFromLoadChildrenArrowFunction (project: Project, arrowFunction: tsm.ArrowFunction): tsm.ClassDeclaration {
-  const innerArrowFunction = arrowFunction.getFirstDescendantByKindOrThrow(SyntaxKind.ArrowFunction)
-  const propAccess = innerArrowFunction.getFirstDescendantByKindOrThrow(SyntaxKind.PropertyAccessExpression)
-  const classDeclarationReference = propAccess.getLastChildIfKindOrThrow(SyntaxKind.Identifier)
-  const definitions = classDeclarationReference.getDefinitionNodes()
-  const definition = definitions.find(tsm.TypeGuards.isClassDeclaration)
-  return throwIfUndefined(definition, `Expected "loadChildren" to point to a class declaration: "${arrowFunction.getText()}".`)
+/**
+ * Finds the module which `loadChildren` loads. These forms are understood:
+ *
+ * - `() => import('./admin/admin.module').then(m => m.AdminModule)`, also with destructuring
+ *   as in `.then(({ AdminModule }) => AdminModule)`
+ * - `async () => (await import('./admin/admin.module')).AdminModule`
+ * - `'./admin/admin.module#AdminModule'`, the string syntax of older versions of Angular
+ * - a function (or a constant) declared elsewhere in one of the above forms, as in
+ *   `loadChildren: loadAdmin`
+ *
+ * Module specifiers are resolved as imports are, so path mappings from tsconfig work too.
+ */
+function getClassDeclarationFromLoadChildren (project: Project, loadChildren: tsm.Node): tsm.ClassDeclaration {
+  const { moduleSpecifier, exportName, node } = readLoadChildren(loadChildren)
+  const sourceFile = project.resolveModule(moduleSpecifier, node.getSourceFile())
+  if (sourceFile == null) {
+    throw new Error(`Cannot find module "${moduleSpecifier}" for "loadChildren: ${loadChildren.getText()}".`)
+  }
+  const declarations = sourceFile.getExportedDeclarations().get(exportName) || []
+  const classDeclaration = declarations.find(tsm.TypeGuards.isClassDeclaration)
+  return throwIfUndefined(classDeclaration, `Expected "${exportName}" from "${sourceFile.getFilePath()}" to be a class, as "loadChildren: ${loadChildren.getText()}" needs.`)
+}
+
+/**
+ * Reads which module `loadChildren` imports and what it takes from it.
+ *
+ * @return Also the node with the specifier, whose file it is relative to.
+ */
+function readLoadChildren (loadChildren: tsm.Node): { moduleSpecifier: string, exportName: string, node: tsm.Node } {
+  if (tsm.TypeGuards.isStringLiteral(loadChildren) || tsm.TypeGuards.isNoSubstitutionTemplateLiteral(loadChildren)) {
+    const [moduleSpecifier, exportName] = loadChildren.getLiteralValue().split('#')
+    if (exportName == null) {
+      throw new Error(`Expected "loadChildren: ${loadChildren.getText()}" to name the module after "#".`)
+    }
+    return { moduleSpecifier, exportName, node: loadChildren }
+  }
+
+  if (tsm.TypeGuards.isIdentifier(loadChildren)) {
+    const definitions = loadChildren.getDefinitionNodes()
+    const functionDeclaration = definitions.find(tsm.TypeGuards.isFunctionDeclaration)
+    if (functionDeclaration != null) return readLoadChildren(functionDeclaration)
+    const variableDeclaration = definitions.find(tsm.TypeGuards.isVariableDeclaration)
+    if (variableDeclaration != null) return readLoadChildren(variableDeclaration.getInitializerOrThrow())
+  }
+
+  const importCall = loadChildren.getDescendantsOfKind(SyntaxKind.CallExpression)
+    .find(call => call.getExpression().getKind() == SyntaxKind.ImportKeyword)
+  if (importCall != null) {
+    const [specifier] = importCall.getArguments()
+    if (specifier != null && tsm.TypeGuards.isStringLiteral(specifier)) {
+      const exportName = getNameTakenFromImport(importCall)
+      if (exportName != null) {
+        return { moduleSpecifier: specifier.getLiteralValue(), exportName, node: specifier }
+      }
+    }
+  }
+
+  throw new Error(`Cannot statically read which module "loadChildren: ${loadChildren.getText()}" loads.`)
+}
+
+/**
+ * The name of the export which is taken from the module loaded by `import()`, either in the
+ * callback of `.then()` or after `await`.
+ */
+function getNameTakenFromImport (importCall: tsm.CallExpression): string | undefined {
+  let node: tsm.Node = importCall
+  let parent = node.getParentOrThrow()
+  while (tsm.TypeGuards.isParenthesizedExpression(parent) || tsm.TypeGuards.isAwaitExpression(parent)) {
+    node = parent
+    parent = node.getParentOrThrow()
+  }
+  if (!tsm.TypeGuards.isPropertyAccessExpression(parent)) return undefined
+  if (parent.getName() != 'then') return parent.getName()
+
+  const call = parent.getParentOrThrow()
+  if (!tsm.TypeGuards.isCallExpression(call)) return undefined
+  const [callback] = call.getArguments()
+  if (callback == null || !(tsm.TypeGuards.isArrowFunction(callback) || tsm.TypeGuards.isFunctionExpression(callback))) return undefined
+  const [parameter] = callback.getParameters()
+  if (parameter == null) return undefined
+  const nameNode = parameter.getNameNode()
+  if (tsm.TypeGuards.isObjectBindingPattern(nameNode)) {
+    const [element] = nameNode.getElements()
+    if (element == null) return undefined
+    const propertyNameNode = element.getPropertyNameNode()
+    return propertyNameNode == null ? element.getName() : propertyNameNode.getText()
+  }
+  const access = callback.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression)
+    .find(access => access.getExpression().getText() == nameNode.getText())
+  return access == null ? undefined : access.getName()
 }
 
 function readRoutingInfoFromExpression (project: Project, callExpression: tsm.Expression): { routes: Route[], isForRoot: boolean, isForChild: boolean } {
@@ -63,40 +147,171 @@ function readRoutingInfoFromExpression (project: Project, callExpression: tsm.Ex
   }
 }
 
+/**
+ * Reads the routes, skipping (with a warning) the ones whose destination can't be read
+ * statically, such as a route with `loadComponent` or a component which is not a class.
+ */
 function readRoutingInfoFromArrayLiteralExpression (project: Project, arrayLiteral: tsm.ArrayLiteralExpression): Route[] {
-  return arrayLiteral.getElements().map(element => {
+  const routes: Route[] = []
+  for (const element of arrayLiteral.getElements()) {
     if (!tsm.TypeGuards.isObjectLiteralExpression(element)) {
       throw new Error(`Expected all elements in route definition to be object literals. Instead got ${element.getKindName()}.`)
     }
 
     const locationSpan = LocationSpan.FromTsm(element)
+    const config = readRouteConfig(element)
+    const componentInitializer = getRoutePropertyInitializer(element, 'component')
+    const component = componentInitializer == null ? undefined : readRouteComponent(project, componentInitializer)
+    if (componentInitializer != null && component == null) {
+      console.warn(`Cannot statically read the component "${componentInitializer.getText()}" of route "${element.getText()}". Skipping...`)
+      continue
+    }
 
-    const pathProperty = getPropertyValueOfKindOrThrow(element, 'path', SyntaxKind.StringLiteral)
-    const path = pathProperty.getLiteralValue()
-
-    const loadChildrenArrowFunction = getPropertyValueOfKind(element, 'loadChildren', SyntaxKind.ArrowFunction)
+    const loadChildren = getRoutePropertyInitializer(element, 'loadChildren')
     const redirectToStringLiteral = getPropertyValueOfKind(element, 'redirectTo', SyntaxKind.StringLiteral)
 
-    if (loadChildrenArrowFunction != null) {
-      const ngModuleClassDeclaration = getClassDeclarationFromLoadChildrenArrowFunction(project, loadChildrenArrowFunction)
+    if (loadChildren != null) {
+      const ngModuleClassDeclaration = getClassDeclarationFromLoadChildren(project, loadChildren)
       const ngModule = project.registerNgModuleOrIgnore(new NgModule(project, ngModuleClassDeclaration))
-      return new LazyRoute(project, locationSpan, path, undefined, ngModule) // TODO: Read component
+      routes.push(new LazyRoute(project, locationSpan, config, component, ngModule))
     } else if (redirectToStringLiteral != null) {
-      const pathMatch: string = getPropertyValueOfKindOrThrow(element, 'pathMatch', SyntaxKind.StringLiteral).getLiteralValue()
-      if (!tg.isEnum('prefix' as const, 'full' as const)(pathMatch)) {
-        throw new Error(`Expected "prefix" or "full" for "pathMatch", but got "${pathMatch}".`)
-      }
       const redirectTo = redirectToStringLiteral.getLiteralValue()
-      return new RedirectRoute(project, locationSpan, path, redirectTo, pathMatch)
+      routes.push(new RedirectRoute(project, locationSpan, config, redirectTo))
     } else {
       const childrenArrayLiteral = getPropertyValueOfKind(element, 'children', SyntaxKind.ArrayLiteralExpression)
-      const componentClassDeclaration = getPropertyValueOfKind(element, 'component', SyntaxKind.ClassDeclaration)
-      const ngModule = componentClassDeclaration == null ? undefined : project.getNgModuleWhereDeclared(componentClassDeclaration)
-      const component = componentClassDeclaration == null ? undefined : new Component(project, ngModule!, componentClassDeclaration)
       const children = childrenArrayLiteral == null ? [] : readRoutingInfoFromArrayLiteralExpression(project, childrenArrayLiteral!)
-      return new EagerRoute(project, locationSpan, path, component, children)
+      if (component != null) {
+        routes.push(new EagerRoute(project, locationSpan, config, component, children))
+      } else if (childrenArrayLiteral != null) {
+        routes.push(new ComponentlessRoute(project, locationSpan, config, children))
+      } else {
+        console.warn(`Cannot statically read where route "${element.getText()}" leads; expected "component", "redirectTo", "children" or "loadChildren". Skipping...`)
+      }
+    }
+  }
+  return routes
+}
+
+/**
+ * @return The component, or `undefined` if the expression doesn't refer to a class.
+ */
+function readRouteComponent (project: Project, initializer: tsm.Expression): Component | undefined {
+  const componentClassDeclaration = tsm.TypeGuards.isIdentifier(initializer)
+    ? initializer.getDefinitionNodes().find(tsm.TypeGuards.isClassDeclaration)
+    : undefined
+  if (componentClassDeclaration == null) return undefined
+  const ngModule = project.getNgModuleWhereDeclared(componentClassDeclaration)
+  return new Component(project, ngModule!, componentClassDeclaration)
+}
+
+function readRouteConfig (element: tsm.ObjectLiteralExpression): RouteConfig {
+  const pathStringLiteral = getPropertyValueOfKind(element, 'path', SyntaxKind.StringLiteral)
+  const matcherInitializer = getRoutePropertyInitializer(element, 'matcher')
+  if (pathStringLiteral == null && matcherInitializer == null) {
+    throw new Error(`Expected route "${element.getText()}" to have either "path" or "matcher".`)
+  }
+
+  const pathMatchStringLiteral = getPropertyValueOfKind(element, 'pathMatch', SyntaxKind.StringLiteral)
+  const pathMatch: string = pathMatchStringLiteral == null ? 'prefix' : pathMatchStringLiteral.getLiteralValue()
+  if (!tg.isEnum('prefix' as const, 'full' as const)(pathMatch)) {
+    throw new Error(`Expected "prefix" or "full" for "pathMatch", but got "${pathMatch}".`)
+  }
+
+  const outletStringLiteral = getPropertyValueOfKind(element, 'outlet', SyntaxKind.StringLiteral)
+
+  return {
+    path: pathStringLiteral == null ? undefined : pathStringLiteral.getLiteralValue(),
+    pathMatch,
+    matcher: matcherInitializer == null ? undefined : resolveRouteHandler(matcherInitializer),
+    outlet: outletStringLiteral == null ? PRIMARY_OUTLET : outletStringLiteral.getLiteralValue(),
+    canActivate: readRouteHandlers(element, 'canActivate'),
+    canActivateChild: readRouteHandlers(element, 'canActivateChild'),
+    canDeactivate: readRouteHandlers(element, 'canDeactivate'),
+    canLoad: readRouteHandlers(element, 'canLoad'),
+    resolve: mapValues(readRouteObject(element, 'resolve'), resolveRouteHandler),
+    data: readRouteObject(element, 'data'),
+    runGuardsAndResolvers: readRunGuardsAndResolvers(element),
+  }
+}
+
+function getRoutePropertyInitializer (element: tsm.ObjectLiteralExpression, propertyName: string): tsm.Expression | undefined {
+  const property = element.getProperty(propertyName)
+  if (property == null) return undefined
+  if (tsm.TypeGuards.isShorthandPropertyAssignment(property)) return property.getNameNode()
+  if (!tsm.TypeGuards.isPropertyAssignment(property)) {
+    throw new Error(`Expected "${propertyName}" in route "${element.getText()}" to be a property assignment.`)
+  }
+  return property.getInitializerOrThrow()
+}
+
+/**
+ * Finds the class or the function which a guard, a resolver or a matcher refers to. When
+ * there's none to be found, such as for `roleGuard('admin')`, the expression itself is the
+ * handler.
+ */
+function resolveRouteHandler (expression: tsm.Node): RouteHandler {
+  if (tsm.TypeGuards.isArrowFunction(expression) || tsm.TypeGuards.isFunctionExpression(expression)) {
+    return expression
+  }
+  const identifier = tsm.TypeGuards.isPropertyAccessExpression(expression)
+    ? expression.getNameNode()
+    : expression
+  if (tsm.TypeGuards.isIdentifier(identifier)) {
+    const definitions = identifier.getDefinitionNodes()
+    const classDeclaration = definitions.find(tsm.TypeGuards.isClassDeclaration)
+    if (classDeclaration != null) return classDeclaration
+    const functionDeclaration = definitions.find(tsm.TypeGuards.isFunctionDeclaration)
+    if (functionDeclaration != null) return functionDeclaration
+    const variableDeclaration = definitions.find(tsm.TypeGuards.isVariableDeclaration)
+    if (variableDeclaration != null) return variableDeclaration
+  }
+  if (!tsm.TypeGuards.isExpression(expression)) {
+    throw new Error(`Expected "${expression.getText()}" to be an expression (it's a ${expression.getKindName()}).`)
+  }
+  return expression
+}
+
+function readRouteHandlers (element: tsm.ObjectLiteralExpression, propertyName: string): RouteHandler[] {
+  const initializer = getRoutePropertyInitializer(element, propertyName)
+  return initializer == null ? [] : resolveArrayDestructing(initializer).map(resolveRouteHandler)
+}
+
+/**
+ * Reads an object literal, such as the one of `data` or `resolve`, by its keys. The object
+ * can also be in a constant.
+ */
+function readRouteObject (element: tsm.ObjectLiteralExpression, propertyName: string): Map<string, tsm.Expression> {
+  const result = new Map<string, tsm.Expression>()
+  const object = getPropertyValueOfKind(element, propertyName, SyntaxKind.ObjectLiteralExpression)
+  if (object == null) return result
+  for (const property of object.getProperties()) {
+    if (tsm.TypeGuards.isPropertyAssignment(property)) {
+      const nameNode = property.getNameNode()
+      const name = tsm.TypeGuards.isStringLiteral(nameNode) ? nameNode.getLiteralValue() : nameNode.getText()
+      result.set(name, property.getInitializerOrThrow())
+    } else if (tsm.TypeGuards.isShorthandPropertyAssignment(property)) {
+      result.set(property.getName(), property.getNameNode())
+    } else {
+      console.warn(`Cannot statically read "${property.getText()}" in "${propertyName}" of a route. Skipping...`)
     }
-  })
+  }
+  return result
+}
+
+function readRunGuardsAndResolvers (element: tsm.ObjectLiteralExpression): RunGuardsAndResolvers {
+  const initializer = getRoutePropertyInitializer(element, 'runGuardsAndResolvers')
+  if (initializer == null) return 'paramsChange'
+  if (!tsm.TypeGuards.isStringLiteral(initializer)) return resolveRouteHandler(initializer)
+  const value = initializer.getLiteralValue()
+  const isKnown = tg.isEnum(
+    'paramsChange' as const,
+    'paramsOrQueryParamsChange' as const,
+    'pathParamsChange' as const,
+    'pathParamsOrQueryParamsChange' as const,
+    'always' as const,
+  )
+  if (!isKnown(value)) throw new Error(`Unexpected value "${value}" for "runGuardsAndResolvers".`)
+  return value
 }
 
 function resolveAsDeveloperDefinedClass (project: Project, ngModuleAstNode: NgModule, classDeclaration: tsm.ClassDeclaration) {
@@ -104,6 +319,7 @@ function resolveAsDeveloperDefinedClass (project: Project, ngModuleAstNode: NgMo
   const directImports: NgModule[] = []
   const exports: Array<NgModule | Declarable> = []
   const routeDefinitions: Route[] = []
+  const importProviders: Provider[] = []
   let isForRoot: boolean = false
   let isForChild: boolean = false
 
@@ -157,6 +373,8 @@ function resolveAsDeveloperDefinedClass (project: Project, ngModuleAstNode: NgMo
       isForRoot = routeDefinition.isForRoot
       isForChild = routeDefinition.isForChild
       routeDefinitions.push(...routeDefinition.routes)
+    } else if (isCallExpression && tsm.TypeGuards.isCallExpression(element)) {
+      importProviders.push(...readProvidersFromModuleWithProviders(project, element))
     }
 
     const existingNgModule = project.getNgModuleByClassDeclaration(classDeclaration)
@@ -191,10 +409,14 @@ function resolveAsDeveloperDefinedClass (project: Project, ngModuleAstNode: NgMo
     }
   }
 
+  const providers = readProvidersFromDecorator(project, decorator, 'providers')
+
   return {
     declarable,
     directImports,
     exports,
+    providers,
+    importProviders,
     routeDefinitions,
     isForRoot,
     isForChild,
@@ -210,6 +432,10 @@ export class NgModule extends NgAstNode {
 
   protected readonly declarable: Declarable[]
 
+  protected readonly providers: Provider[]
+
+  protected readonly importProviders: Provider[]
+
   protected readonly routes?: Routes
 
   public constructor (project: Project,
@@ -222,11 +448,15 @@ export class NgModule extends NgAstNode {
       this.directImports = []
       this.exports = []
       this.declarable = []
+      this.providers = []
+      this.importProviders = []
     } else {
       const results = resolveAsDeveloperDefinedClass(project, this, classDeclaration)
       this.directImports = results.directImports
       this.exports = results.exports
       this.declarable = results.declarable
+      this.providers = results.providers
+      this.importProviders = results.importProviders
       this.routes = new Routes(project, this.getLocationSpan(), results.isForRoot, results.isForChild, results.routeDefinitions)
     }
   }
@@ -249,6 +479,21 @@ export class NgModule extends NgAstNode {
     return this.declarable
   }
 
+  /**
+   * Providers listed in `@NgModule.providers`.
+   */
+  public getProviders (): Provider[] {
+    return this.providers
+  }
+
+  /**
+   * Providers which come from `ModuleWithProviders` in `@NgModule.imports`, such as
+   * `SomeModule.forRoot()`. They are added to the same injector as the module's own providers.
+   */
+  public getImportProviders (): Provider[] {
+    return this.importProviders
+  }
+
   public getComponents (): Component[] {
     return this.getDirectDeclarations().filter(tg.isInstanceOf(Component))
   }
@@ -278,8 +523,14 @@ export class NgModule extends NgAstNode {
     return throwIfUndefined(this.getComponentBySelectorDefinition(selectorDefinition), `Expected to find a component with selector definition "${selectorDefinition}" in NgModule "${this.getName()}".`)
   }
 
+  /**
+   * Directives declared in the module. Components are not included, even though every
+   * component is a directive; use {@link getComponents} for those.
+   */
   public getDirectives (): Directive[] {
-    return this.getDirectDeclarations().filter(tg.isInstanceOf(Directive))
+    return this.getDirectDeclarations()
+      .filter(tg.isInstanceOf(Directive))
+      .filter(directive => !(directive instanceof Component))
   }
 
   public getPipes (): Pipe[] {
@@ -298,6 +549,10 @@ export class NgModule extends NgAstNode {
     return this.exports.filter(tg.isInstanceOf(Declarable))
   }
 
+  /**
+   * The modules whose exports are visible in this one: the imported modules, and the modules
+   * which those export, transitively. Each module is listed once.
+   */
   public getNgModulesInScope (): NgModule[] {
     const result = new Set<NgModule>()
 
@@ -310,6 +565,7 @@ export class NgModule extends NgAstNode {
       const currentModuleDirectExports = currentNgModule.getDirectlyExportedModules()
       for (const innerModule of currentModuleDirectExports) {
         if (visited.has(innerModule)) continue
+        visited.add(innerModule)
         queue.push(innerModule)
       }
     }
@@ -317,18 +573,26 @@ export class NgModule extends NgAstNode {
     return [...result]
   }
 
+  /**
+   * The compilation scope of the module: its own declarations, and the declarables exported
+   * from the modules it imports (directly, or through modules which those modules export).
+   */
   public getDeclarablesInScope (): Declarable[] {
-    const result = new Set<Declarable>()
+    const result = new Set<Declarable>(this.getDirectDeclarations())
     for (const ngModule of this.getNgModulesInScope()) {
-      for (const declarable of ngModule.getDirectDeclarations()) {
+      for (const declarable of ngModule.getDirectlyExportedDeclarables()) {
         result.add(declarable)
       }
     }
     return [...result]
   }
 
+  /**
+   * The routes given to `RouterModule.forRoot`, either in this module or in one which it
+   * imports (as a separate routing module usually is).
+   */
   public getRootRoutes (): Routes | undefined {
-    for (const ngModule of this.getNgModulesInScope()) {
+    for (const ngModule of [this, ...this.getNgModulesInScope()]) {
       const routes = ngModule.getRoutes()
       if (routes != null) {
         if (routes.isForRoot()) {
@@ -343,12 +607,15 @@ export class NgModule extends NgAstNode {
     return throwIfUndefined(this.getRootRoutes(), `Expected to find root routes visible from ${this.getName()}.`)
   }
 
+  /**
+   * The routes given to `RouterModule.forChild`, either in this module or in one which it
+   * imports.
+   */
   public getChildRoutes (): Routes | undefined {
-    for (const ngModule of this.getNgModulesInScope()) {
+    for (const ngModule of [this, ...this.getNgModulesInScope()]) {
       const routes = ngModule.getRoutes()
       if (routes != null) {
         if (routes.isForChild()) {
-          console.log(`for`, this.getName(), `found in`, ngModule.getName())
           return routes
         }
       }
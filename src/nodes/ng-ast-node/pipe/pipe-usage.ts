@@ -0,0 +1,30 @@
+import { Component } from '../component/component'
+import { LocationSpan } from '../location'
+import { Template } from '../template/template'
+import { PipeTemplateNode } from '../template/expression/expression-nodes'
+import { isPipeWithName } from '../template/template-nodes-type-guards'
+
+export interface PipeUsage {
+  /**
+   * The component in whose template the pipe is used.
+   */
+  component: Component
+  /**
+   * Where the pipe is applied, as `today | date:'short'` from `{{ today | date:'short' }}`.
+   */
+  node: PipeTemplateNode
+  /**
+   * The span of the pipe's name, as in `date` from `{{ today | date:'short' }}`.
+   */
+  locationSpan: LocationSpan
+}
+
+/**
+ * Finds every place in the template where a pipe with the given name is applied: in
+ * interpolations, bindings and the microsyntax of structural directives.
+ */
+export function findPipeUsagesInTemplate (component: Component, template: Template, pipeName: string): PipeUsage[] {
+  return template.getTemplateNodes(isPipeWithName(pipeName)).map(node => {
+    return { component, node, locationSpan: node.getNameLocationSpan() }
+  })
+}
@@ -0,0 +1,88 @@
+import * as chai from 'chai'
+import { createAppProject } from '../../../utils/test-utils'
+
+function createPipeProject () {
+  return createAppProject({
+    '/app/shared/truncate.pipe.ts': `
+      import { Pipe, PipeTransform } from '@angular/core'
+
+      @Pipe({ name: 'truncate', pure: false })
+      export class TruncatePipe implements PipeTransform {
+        transform (value: string, limit: number, suffix?: string): string {
+          return value.slice(0, limit) + suffix
+        }
+      }
+    `,
+    '/app/shared/shared.module.ts': `
+      import { NgModule } from '@angular/core'
+      import { TruncatePipe } from './truncate.pipe'
+
+      @NgModule({
+        declarations: [TruncatePipe],
+        exports: [TruncatePipe],
+      })
+      export class SharedModule {
+      }
+    `,
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-root',
+        template: '<p [title]="name | truncate:5">{{ description | truncate:10 || "|truncate" }}</p><li *ngFor="let tag of tags | truncate:3">{{ tag }}</li>',
+      })
+      export class AppComponent {
+      }
+    `,
+    '/app/app.module.ts': `
+      import { NgModule } from '@angular/core'
+      import { AppComponent } from './app.component'
+      import { SharedModule } from './shared/shared.module'
+
+      @NgModule({
+        declarations: [AppComponent],
+        imports: [SharedModule],
+      })
+      export class AppModule {
+      }
+    `,
+  })
+}
+
+describe(`Pipe`, () => {
+
+  it(`reads the name and purity`, () => {
+    const [pipe] = createPipeProject().getNgModuleByClassNameOrThrow('SharedModule').getPipes()
+    chai.assert.equal(pipe.getPipeName(), 'truncate')
+    chai.assert.isFalse(pipe.isPure())
+  })
+
+  it(`reads the transform signature`, () => {
+    const [pipe] = createPipeProject().getNgModuleByClassNameOrThrow('SharedModule').getPipes()
+    const parameters = pipe.getTransformParameters().map(({ name, type, isOptional }) => ({ name, type, isOptional }))
+    chai.assert.deepEqual(parameters, [
+      { name: 'value', type: 'string', isOptional: false },
+      { name: 'limit', type: 'number', isOptional: false },
+      { name: 'suffix', type: 'string', isOptional: true },
+    ])
+    chai.assert.equal(pipe.getTransformReturnType(), 'string')
+  })
+
+  it(`finds usages in templates of components which import the pipe`, () => {
+    const project = createPipeProject()
+    const [pipe] = project.getNgModuleByClassNameOrThrow('SharedModule').getPipes()
+    const usages = project.findPipeUsages(pipe)
+    for (const usage of usages) {
+      chai.assert.equal(usage.locationSpan.getText(), 'truncate')
+      chai.assert.equal(usage.component.getName(), 'AppComponent')
+    }
+    const texts = usages.map(usage => usage.node.getLocationSpan().getText())
+    chai.assert.sameMembers(texts, [
+      `name | truncate:5`,
+      `description | truncate:10 || "|truncate"`,
+      `tags | truncate:3`,
+    ])
+  })
+
+
+})
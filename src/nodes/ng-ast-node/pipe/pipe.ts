@@ -1,5 +1,91 @@
 import { Declarable } from '../declarable'
+import { MethodDeclaration, ParameterDeclaration, TypeGuards } from 'ts-morph'
+import { throwIfUndefined } from '../../../utils'
+
+export interface PipeTransformParameter {
+  name: string
+  /**
+   * The type as TypeScript prints it, such as `string | null`.
+   */
+  type: string
+  isOptional: boolean
+  isRest: boolean
+  parameterDeclaration: ParameterDeclaration
+}
 
 export class Pipe extends Declarable {
 
+  /**
+   * The name under which the pipe is used in templates, as in `{{ value | name }}`.
+   */
+  public getPipeName (): string {
+    const property = this.getDecoratorPropertyOrThrow(
+      'name',
+      TypeGuards.isStringLiteral,
+      `Expected @Pipe of "${this.getName()}" to have a "name".`,
+      `Expected @Pipe.name to be a string literal.`,
+    )
+    return property.getLiteralValue()
+  }
+
+  /**
+   * Pipes are pure unless `pure: false` is given.
+   */
+  public isPure (): boolean {
+    const property = this.getDecoratorProperty(
+      'pure',
+      TypeGuards.isBooleanLiteral,
+      kind => `Expected @Pipe.pure to be a boolean literal, but got ${kind}.`,
+    )
+    return property == null ? true : property.getLiteralValue()
+  }
+
+  /**
+   * The `transform` method, which is looked up in base classes as well.
+   */
+  public getTransformMethod (): MethodDeclaration | undefined {
+    let classDeclaration = this.getClassDeclaration()
+    while (true) {
+      const method = classDeclaration.getInstanceMethod('transform')
+      if (method != null) return method
+      const baseClass = classDeclaration.getBaseClass()
+      if (baseClass == null) return undefined
+      classDeclaration = baseClass
+    }
+  }
+
+  public getTransformMethodOrThrow (): MethodDeclaration {
+    return throwIfUndefined(this.getTransformMethod(), `Expected pipe "${this.getName()}" to have a "transform" method.`)
+  }
+
+  /**
+   * Parameters of `transform`. The first one is the piped value, and the rest are the
+   * arguments given after colons in the template, as in `value | name:arg1:arg2`.
+   */
+  public getTransformParameters (): PipeTransformParameter[] {
+    return this.getTransformMethodOrThrow().getParameters().map(parameterDeclaration => ({
+      name: parameterDeclaration.getName(),
+      type: parameterDeclaration.getType().getText(parameterDeclaration),
+      isOptional: parameterDeclaration.isOptional(),
+      isRest: parameterDeclaration.isRestParameter(),
+      parameterDeclaration,
+    }))
+  }
+
+  /**
+   * The return type of `transform`, as TypeScript prints it.
+   */
+  public getTransformReturnType (): string {
+    const method = this.getTransformMethodOrThrow()
+    return method.getReturnType().getText(method)
+  }
+
+  // region Internal
+
+  protected getDecoratorName (): string {
+    return 'Pipe'
+  }
+
+  // endregion Internal
+
 }
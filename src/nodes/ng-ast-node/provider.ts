@@ -0,0 +1,287 @@
+import { NgAstNode } from './ng-ast-node'
+import { Project } from '../../project'
+import { LocationSpan } from './location'
+import * as tsm from 'ts-morph'
+import { resolveArrayDestructing } from '../../utils/array-destructing-resolver'
+
+/**
+ * Given an expression used as a DI token (for example, the `provide` of a provider or the
+ * argument of `@Inject`), finds the declaration which defines the token. Classes and
+ * `InjectionToken`s resolve to their class or variable declaration, respectively. Anything
+ * else (such as a string token) resolves to itself.
+ */
+export function resolveTokenDeclaration (expression: tsm.Node): tsm.Node {
+  const identifier = tsm.TypeGuards.isPropertyAccessExpression(expression)
+    ? expression.getNameNode()
+    : expression
+  if (!tsm.TypeGuards.isIdentifier(identifier)) return expression
+  const definitions = identifier.getDefinitionNodes()
+  const classDeclaration = definitions.find(tsm.TypeGuards.isClassDeclaration)
+  if (classDeclaration != null) return classDeclaration
+  const otherDeclaration = definitions.find(definition => {
+    return tsm.TypeGuards.isVariableDeclaration(definition)
+      || tsm.TypeGuards.isInterfaceDeclaration(definition)
+      || tsm.TypeGuards.isPropertyAssignment(definition)
+  })
+  return otherDeclaration != null ? otherDeclaration : expression
+}
+
+/**
+ * The token under which something is provided or injected.
+ */
+export class ProviderToken {
+
+  private declaration?: tsm.Node
+
+  public constructor (private expression: tsm.Node) {
+  }
+
+  /**
+   * The expression which was used to refer to the token, as written in code.
+   */
+  public getExpression (): tsm.Node {
+    return this.expression
+  }
+
+  /**
+   * @see resolveTokenDeclaration
+   */
+  public getDeclaration (): tsm.Node {
+    if (this.declaration == null) {
+      this.declaration = resolveTokenDeclaration(this.expression)
+    }
+    return this.declaration
+  }
+
+  public getClassDeclaration (): tsm.ClassDeclaration | undefined {
+    const declaration = this.getDeclaration()
+    return tsm.TypeGuards.isClassDeclaration(declaration) ? declaration : undefined
+  }
+
+  public getName (): string {
+    const declaration = this.getDeclaration()
+    if (tsm.TypeGuards.isClassDeclaration(declaration)) return declaration.getName() || '[Unnamed class]'
+    if (tsm.TypeGuards.isVariableDeclaration(declaration)) return declaration.getName()
+    if (tsm.TypeGuards.isStringLiteral(declaration)) return declaration.getLiteralValue()
+    return declaration.getText()
+  }
+
+  /**
+   * Do both tokens refer to the same thing? A declaration (such as the `ClassDeclaration`
+   * of a service) can be given instead of a token.
+   */
+  public isSameAs (other: ProviderToken | tsm.Node): boolean {
+    const otherDeclaration = other instanceof ProviderToken ? other.getDeclaration() : other
+    const declaration = this.getDeclaration()
+    if (declaration == otherDeclaration) return true
+    if (tsm.TypeGuards.isStringLiteral(declaration) && tsm.TypeGuards.isStringLiteral(otherDeclaration)) {
+      return declaration.getLiteralValue() == otherDeclaration.getLiteralValue()
+    }
+    return false
+  }
+
+}
+
+export abstract class Provider extends NgAstNode {
+
+  public constructor (project: Project,
+                      tsmNode: tsm.Node,
+                      private token: ProviderToken,
+                      private multi: boolean) {
+    super(project, LocationSpan.FromTsm(tsmNode), tsmNode)
+  }
+
+  public getToken (): ProviderToken {
+    return this.token
+  }
+
+  public isMulti (): boolean {
+    return this.multi
+  }
+
+}
+
+/**
+ * Either the shorthand `FooService` or `{ provide: Foo, useClass: FooImpl }`.
+ */
+export class ClassProvider extends Provider {
+
+  public constructor (project: Project,
+                      tsmNode: tsm.Node,
+                      token: ProviderToken,
+                      multi: boolean,
+                      private useClass: ProviderToken,
+                      private shorthand: boolean) {
+    super(project, tsmNode, token, multi)
+  }
+
+  public getUseClass (): ProviderToken {
+    return this.useClass
+  }
+
+  /**
+   * Is this provider written as just the class (`providers: [FooService]`)?
+   */
+  public isShorthand (): boolean {
+    return this.shorthand
+  }
+
+}
+
+export class ValueProvider extends Provider {
+
+  public constructor (project: Project,
+                      tsmNode: tsm.Node,
+                      token: ProviderToken,
+                      multi: boolean,
+                      private useValue: tsm.Node) {
+    super(project, tsmNode, token, multi)
+  }
+
+  public getUseValue (): tsm.Node {
+    return this.useValue
+  }
+
+}
+
+export class FactoryProvider extends Provider {
+
+  public constructor (project: Project,
+                      tsmNode: tsm.Node,
+                      token: ProviderToken,
+                      multi: boolean,
+                      private useFactory: tsm.Node,
+                      private deps: ProviderToken[]) {
+    super(project, tsmNode, token, multi)
+  }
+
+  public getUseFactory (): tsm.Node {
+    return this.useFactory
+  }
+
+  public getDeps (): ProviderToken[] {
+    return this.deps
+  }
+
+}
+
+export class ExistingProvider extends Provider {
+
+  public constructor (project: Project,
+                      tsmNode: tsm.Node,
+                      token: ProviderToken,
+                      multi: boolean,
+                      private useExisting: ProviderToken) {
+    super(project, tsmNode, token, multi)
+  }
+
+  public getUseExisting (): ProviderToken {
+    return this.useExisting
+  }
+
+}
+
+function getPropertyInitializer (object: tsm.ObjectLiteralExpression, propertyName: string): tsm.Expression | undefined {
+  const property = object.getProperty(propertyName)
+  if (property == null) return undefined
+  if (tsm.TypeGuards.isShorthandPropertyAssignment(property)) return property.getNameNode()
+  if (!tsm.TypeGuards.isPropertyAssignment(property)) {
+    throw new Error(`Expected "${propertyName}" in provider "${object.getText()}" to be a property assignment.`)
+  }
+  return property.getInitializerOrThrow()
+}
+
+function createProviderFromObjectLiteral (project: Project, object: tsm.ObjectLiteralExpression): Provider {
+  const provide = getPropertyInitializer(object, 'provide')
+  if (provide == null) throw new Error(`Expected provider "${object.getText()}" to have "provide".`)
+  const token = new ProviderToken(provide)
+  const multiInitializer = getPropertyInitializer(object, 'multi')
+  const multi = multiInitializer != null && multiInitializer.getKind() == tsm.SyntaxKind.TrueKeyword
+
+  const useClass = getPropertyInitializer(object, 'useClass')
+  if (useClass != null) return new ClassProvider(project, object, token, multi, new ProviderToken(useClass), false)
+
+  const useValue = getPropertyInitializer(object, 'useValue')
+  if (useValue != null) return new ValueProvider(project, object, token, multi, useValue)
+
+  const useFactory = getPropertyInitializer(object, 'useFactory')
+  if (useFactory != null) {
+    const depsInitializer = getPropertyInitializer(object, 'deps')
+    const deps = depsInitializer == null ? [] : resolveArrayDestructing(depsInitializer).map(dep => new ProviderToken(dep))
+    return new FactoryProvider(project, object, token, multi, useFactory, deps)
+  }
+
+  const useExisting = getPropertyInitializer(object, 'useExisting')
+  if (useExisting != null) return new ExistingProvider(project, object, token, multi, new ProviderToken(useExisting))
+
+  // `{ provide: Foo }` is the same as `Foo`.
+  return new ClassProvider(project, object, token, multi, token, false)
+}
+
+function createProviders (project: Project, node: tsm.Node): Provider[] {
+  if (tsm.TypeGuards.isObjectLiteralExpression(node)) {
+    return [createProviderFromObjectLiteral(project, node)]
+  }
+
+  if (tsm.TypeGuards.isArrayLiteralExpression(node)) {
+    return readProviders(project, node)
+  }
+
+  if (tsm.TypeGuards.isIdentifier(node) || tsm.TypeGuards.isPropertyAccessExpression(node)) {
+    const declaration = resolveTokenDeclaration(node)
+    if (tsm.TypeGuards.isClassDeclaration(declaration)) {
+      const token = new ProviderToken(node)
+      return [new ClassProvider(project, node, token, false, token, true)]
+    }
+    // A constant holding a provider or an array of them.
+    if (tsm.TypeGuards.isVariableDeclaration(declaration)) {
+      const initializer = declaration.getInitializer()
+      if (initializer != null) return createProviders(project, initializer)
+    }
+  }
+
+  console.warn(`Cannot statically read provider "${node.getText()}" (a ${node.getKindName()}). Skipping...`)
+  return []
+}
+
+/**
+ * Reads the providers from an expression which is used as the value of `providers`
+ * (or `viewProviders`). Nested arrays, spread operators and constants are resolved.
+ */
+export function readProviders (project: Project, initializer: tsm.Node): Provider[] {
+  const result: Provider[] = []
+  for (const element of resolveArrayDestructing(initializer)) {
+    result.push(...createProviders(project, element))
+  }
+  return result
+}
+
+/**
+ * Reads the providers from the given property (such as `providers` or `viewProviders`)
+ * of a decorator (such as `@NgModule` or `@Component`).
+ */
+export function readProvidersFromDecorator (project: Project, decorator: tsm.Decorator, propertyName: string): Provider[] {
+  const [argument] = decorator.getArguments()
+  if (argument == null || !tsm.TypeGuards.isObjectLiteralExpression(argument)) return []
+  const initializer = getPropertyInitializer(argument, propertyName)
+  return initializer == null ? [] : readProviders(project, initializer)
+}
+
+/**
+ * Reads providers from a call such as `SomeModule.forRoot()` used in `@NgModule.imports`.
+ * The method is expected to return an object literal (a `ModuleWithProviders`).
+ */
+export function readProvidersFromModuleWithProviders (project: Project, callExpression: tsm.CallExpression): Provider[] {
+  const expression = callExpression.getExpression()
+  if (!tsm.TypeGuards.isPropertyAccessExpression(expression)) return []
+  const method = expression.getNameNode().getDefinitionNodes().find(tsm.TypeGuards.isMethodDeclaration)
+  if (method == null || method.getSourceFile().isDeclarationFile()) return []
+  const result: Provider[] = []
+  for (const returnStatement of method.getDescendantsOfKind(tsm.SyntaxKind.ReturnStatement)) {
+    const returned = returnStatement.getExpression()
+    if (returned == null || !tsm.TypeGuards.isObjectLiteralExpression(returned)) continue
+    const initializer = getPropertyInitializer(returned, 'providers')
+    if (initializer != null) result.push(...readProviders(project, initializer))
+  }
+  return result
+}
@@ -0,0 +1,104 @@
+import { isLazyRoute, PRIMARY_OUTLET, Route, RouteHandler } from './route'
+import { Component } from './component/component'
+import { NgModule } from './ng-module'
+import { LocationSpan } from './location'
+import * as tg from 'type-guards'
+
+/**
+ * A route together with everything which applies to it because of where it's nested.
+ */
+export interface RouteTableEntry {
+  /**
+   * The full URL pattern, as in `/admin/users/:id`. A route in a named outlet adds a segment
+   * as in `(sidebar:help)`, and a route with a matcher adds `(matcher: matchHandle)`.
+   */
+  readonly url: string
+  readonly route: Route
+  /**
+   * The routes from a root route down to this one (inclusive).
+   */
+  readonly chain: Route[]
+  /**
+   * The components rendered for the route, from the outermost one.
+   */
+  readonly components: Component[]
+  /**
+   * The guards which run before the route is activated: `canActivate` of the route and its
+   * ancestors, `canActivateChild` of its ancestors, and `canLoad` of the lazy routes on the way.
+   */
+  readonly guards: RouteHandler[]
+  /**
+   * The modules which are loaded lazily on the way to the route, from the outermost one.
+   */
+  readonly lazyModules: NgModule[]
+  readonly locationSpan: LocationSpan
+}
+
+/**
+ * Lists every route in the tree of the given routes, in the order in which they're written
+ * (each route comes right before its children). Children of lazy routes are the routes of
+ * the loaded module.
+ */
+export function createRouteTable (routes: Route[]): RouteTableEntry[] {
+  const result: RouteTableEntry[] = []
+  const visit = (route: Route, ancestors: Route[]) => {
+    const chain = [...ancestors, route]
+    result.push(createEntry(chain))
+    if (isLazyRoute(route) && ancestors.some(ancestor => loadSameModule(ancestor, route))) {
+      console.warn(`Module ${route.getNgModule().getName()} is loaded lazily from within itself. Skipping...`)
+      return
+    }
+    for (const child of route.getChildren()) {
+      visit(child, chain)
+    }
+  }
+  for (const route of routes) {
+    visit(route, [])
+  }
+  return result
+}
+
+// region Internal
+
+function createEntry (chain: Route[]): RouteTableEntry {
+  const route = chain[chain.length - 1]
+  const segments = chain.map(getUrlSegment).filter(segment => segment != '')
+  return {
+    url: `/${segments.join('/')}`,
+    route,
+    chain,
+    components: chain.map(route => route.getComponent()).filter(tg.isNotNullish),
+    guards: collectGuards(chain),
+    lazyModules: chain.filter(isLazyRoute).map(lazyRoute => lazyRoute.getNgModule()),
+    locationSpan: route.getLocationSpan(),
+  }
+}
+
+function getUrlSegment (route: Route): string {
+  const path = route.printPath()
+  const outlet = route.getOutlet()
+  return outlet == PRIMARY_OUTLET ? path : `(${outlet}:${path})`
+}
+
+function collectGuards (chain: Route[]): RouteHandler[] {
+  const result = new Set<RouteHandler>()
+  chain.forEach((route, index) => {
+    const isAncestor = index < chain.length - 1
+    const guards = [
+      ...route.getCanActivate(),
+      ...(isAncestor ? route.getCanActivateChild() : []),
+      ...(isLazyRoute(route) ? route.getCanLoad() : []),
+    ]
+    for (const guard of guards) {
+      result.add(guard)
+    }
+  })
+  return [...result]
+}
+
+function loadSameModule (ancestor: Route, route: Route): boolean {
+  return isLazyRoute(ancestor) && isLazyRoute(route) &&
+    ancestor.getNgModule().getClassDeclaration() == route.getNgModule().getClassDeclaration()
+}
+
+// endregion Internal
@@ -0,0 +1,423 @@
+import * as chai from 'chai'
+import { createAppProject, routerModuleStubFiles } from '../../utils/test-utils'
+import { ComponentlessRoute, getRouteHandlerName, LazyRoute, RouteHandler } from './route'
+import { UrlMatch } from './url-matcher'
+
+function createRoutingProject () {
+  return createAppProject({
+    ...routerModuleStubFiles,
+    '/app/guards.ts': `
+      export class AuthGuard {
+        public canActivate () { return true }
+      }
+      export function adminGuard () { return true }
+      export const unsavedChangesGuard = () => true
+      export function matchHandle (segments: any[]) { return null }
+    `,
+    '/app/user.resolver.ts': `
+      export class UserResolver {
+        public resolve () { return {} }
+      }
+    `,
+    '/app/components.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({ selector: 'app-home', template: '' })
+      export class HomeComponent {}
+
+      @Component({ selector: 'app-user', template: '' })
+      export class UserComponent {}
+
+      @Component({ selector: 'app-help', template: '' })
+      export class HelpComponent {}
+    `,
+    '/app/app.module.ts': `
+      import { NgModule } from '@angular/core'
+      import { RouterModule } from '@angular/router'
+      import { HomeComponent, UserComponent, HelpComponent } from './components'
+      import { AuthGuard, adminGuard, unsavedChangesGuard, matchHandle } from './guards'
+      import { UserResolver } from './user.resolver'
+
+      const userData = { title: 'User', 'needs-login': true }
+
+      @NgModule({
+        declarations: [HomeComponent, UserComponent, HelpComponent],
+        imports: [
+          RouterModule.forRoot([
+            { path: '', redirectTo: 'home', pathMatch: 'full' },
+            { path: 'home', component: HomeComponent },
+            {
+              path: 'users/:id',
+              component: UserComponent,
+              canActivate: [AuthGuard, adminGuard],
+              canDeactivate: [unsavedChangesGuard],
+              resolve: { user: UserResolver },
+              data: userData,
+              runGuardsAndResolvers: 'always',
+            },
+            { matcher: matchHandle, component: UserComponent, canActivate: [() => true] },
+            { path: 'help', component: HelpComponent, outlet: 'sidebar' },
+            { path: 'settings', canActivateChild: [AuthGuard], children: [{ path: 'profile', component: UserComponent }] },
+            { path: 'admin', component: HomeComponent, loadChildren: () => import('./admin/admin.module').then(m => m.AdminModule) },
+            { path: 'reports', loadChildren: () => import('./reports.module').then(m => m.ReportsModule) },
+          ]),
+        ],
+      })
+      export class AppModule {
+      }
+    `,
+    '/app/admin/admin.module.ts': `
+      import { NgModule, Component } from '@angular/core'
+      import { RouterModule } from '@angular/router'
+
+      @Component({ selector: 'app-admin', template: '' })
+      export class AdminComponent {}
+
+      @NgModule({
+        declarations: [AdminComponent],
+        imports: [
+          RouterModule.forChild([
+            { path: '', component: AdminComponent },
+          ]),
+        ],
+      })
+      export class AdminModule {
+      }
+    `,
+    '/app/reports.module.ts': `
+      import { NgModule } from '@angular/core'
+
+      @NgModule({})
+      export class ReportsModule {
+      }
+    `,
+  })
+}
+
+function getNames (handlers: Iterable<RouteHandler>): string[] {
+  return [...handlers].map(getRouteHandlerName)
+}
+
+describe(`Route`, () => {
+
+  it(`reads guards, resolvers, data and when to run them`, () => {
+    const [, , user] = createRoutingProject().getRootRoutesOrThrow().getRoutes()
+    chai.assert.deepEqual(getNames(user.getCanActivate()), ['AuthGuard', 'adminGuard'])
+    chai.assert.deepEqual(getNames(user.getCanDeactivate()), ['unsavedChangesGuard'])
+    chai.assert.deepEqual(user.getCanActivateChild(), [])
+    chai.assert.deepEqual(getNames(user.getGuards()), ['AuthGuard', 'adminGuard', 'unsavedChangesGuard'])
+    chai.assert.deepEqual([...user.getResolve().keys()], ['user'])
+    chai.assert.equal(getRouteHandlerName(user.getResolve().get('user')!), 'UserResolver')
+    chai.assert.deepEqual([...user.getData()].map(([key, value]) => `${key}: ${value.getText()}`), [`title: 'User'`, `needs-login: true`])
+    chai.assert.equal(user.getRunGuardsAndResolvers(), 'always')
+  })
+
+  it(`reads matchers, outlets and defaults`, () => {
+    const [redirect, home, , handle, help] = createRoutingProject().getRootRoutesOrThrow().getRoutes()
+    chai.assert.equal(redirect.getPathMatch(), 'full')
+    chai.assert.equal(home.getPathMatch(), 'prefix')
+    chai.assert.equal(home.getOutlet(), 'primary')
+    chai.assert.equal(home.getRunGuardsAndResolvers(), 'paramsChange')
+    chai.assert.equal(help.getOutlet(), 'sidebar')
+
+    chai.assert.isUndefined(handle.getPath())
+    chai.assert.throws(() => handle.getPathOrThrow(), /path/)
+    chai.assert.equal(getRouteHandlerName(handle.getMatcher()!), 'matchHandle')
+    chai.assert.deepEqual(getNames(handle.getCanActivate()), ['(inline)'])
+    chai.assert.equal(handle.printLine(), `/(matcher: matchHandle) :: UserComponent (Eager)`)
+  })
+
+  it(`keeps guards and resolvers which can't be followed as they're written`, () => {
+    const project = createAppProject({
+      ...routerModuleStubFiles,
+      '/app/app.module.ts': `
+        import { NgModule, Component } from '@angular/core'
+        import { RouterModule } from '@angular/router'
+
+        export function roleGuard (role: string) { return () => true }
+        export function withRetry (resolve: () => any) { return resolve }
+
+        @Component({ selector: 'app-admin', template: '' })
+        export class AdminComponent {}
+
+        @NgModule({
+          declarations: [AdminComponent],
+          imports: [
+            RouterModule.forRoot([
+              {
+                path: 'admin',
+                component: AdminComponent,
+                canActivate: [roleGuard('admin'), () => true],
+                resolve: { user: withRetry(() => ({})) },
+              },
+            ]),
+          ],
+        })
+        export class AppModule {
+        }
+      `,
+    })
+    const [admin] = project.getRootRoutesOrThrow().getRoutes()
+    chai.assert.deepEqual(getNames(admin.getCanActivate()), [`roleGuard('admin')`, '(inline)'])
+    chai.assert.equal(getRouteHandlerName(admin.getResolve().get('user')!), `withRetry(() => ({}))`)
+  })
+
+  it(`skips routes whose destination can't be read, and reads the others`, () => {
+    const project = createAppProject({
+      ...routerModuleStubFiles,
+      '/app/app.module.ts': `
+        import { NgModule, Component } from '@angular/core'
+        import { RouterModule } from '@angular/router'
+
+        @Component({ selector: 'app-home', template: '' })
+        export class HomeComponent {}
+
+        export function pickComponent () { return HomeComponent }
+
+        @NgModule({
+          declarations: [HomeComponent],
+          imports: [
+            RouterModule.forRoot([
+              { path: 'picked', component: pickComponent() },
+              { path: 'standalone', loadComponent: () => import('./standalone.component').then(m => m.StandaloneComponent) },
+              { path: 'home', component: HomeComponent },
+            ]),
+          ],
+        })
+        export class AppModule {
+        }
+      `,
+    })
+    const routes = project.getRootRoutesOrThrow().getRoutes()
+    chai.assert.deepEqual(routes.map(route => route.getPath()), ['home'])
+    chai.assert.equal(routes[0].getComponentOrThrow().getName(), 'HomeComponent')
+  })
+
+  it(`lists routes without a guard`, () => {
+    const routes = createRoutingProject().getRootRoutesOrThrow().getRoutes()
+    const unguarded = routes.filter(route => !getNames(route.getCanActivate()).includes('AuthGuard'))
+    chai.assert.deepEqual(unguarded.map(route => route.getPath()), ['', 'home', undefined, 'help', 'settings', 'admin', 'reports'])
+  })
+
+  it(`tells apart routes with a component, componentless and lazy routes`, () => {
+    const routes = createRoutingProject().getRootRoutesOrThrow()
+    const [, , , , , settings, admin, reports] = routes.getRoutes()
+    chai.assert.instanceOf(settings, ComponentlessRoute)
+    chai.assert.isUndefined(settings.getComponent())
+    chai.assert.equal(settings.getChildren()[0].getComponentOrThrow().getName(), 'UserComponent')
+    chai.assert.instanceOf(admin, LazyRoute)
+    chai.assert.equal(admin.getComponentOrThrow().getName(), 'HomeComponent')
+    chai.assert.deepEqual(reports.getChildren(), [])
+    chai.assert.equal(routes.print(), [
+      `/ :: Redirect: (empty) --> home (full)`,
+      `/home :: HomeComponent (Eager)`,
+      `/users/:id :: UserComponent (Eager)`,
+      `/(matcher: matchHandle) :: UserComponent (Eager)`,
+      `/help :: HelpComponent (Eager)`,
+      `/settings :: (componentless)`,
+      `  /profile :: UserComponent (Eager)`,
+      `/admin :: HomeComponent (Lazy: AdminModule)`,
+      `  / :: AdminComponent (Eager)`,
+      `/reports :: (componentless) (Lazy: ReportsModule)`,
+    ].join('\n'))
+  })
+
+})
+
+describe(`Project#getRouteTable`, () => {
+
+  it(`gives full URLs of routes nested in children and lazy modules`, () => {
+    const table = createRoutingProject().getRouteTable()
+    chai.assert.deepEqual(table.map(entry => entry.url), [
+      `/`,
+      `/home`,
+      `/users/:id`,
+      `/(matcher: matchHandle)`,
+      `/(sidebar:help)`,
+      `/settings`,
+      `/settings/profile`,
+      `/admin`,
+      `/admin`,
+      `/reports`,
+    ])
+  })
+
+  it(`collects components, guards and lazy modules from the ancestors`, () => {
+    const table = createRoutingProject().getRouteTable()
+    const [settings, profile] = table.filter(entry => entry.url.startsWith('/settings'))
+    chai.assert.deepEqual(getNames(settings.guards), [])
+    chai.assert.deepEqual(getNames(profile.guards), ['AuthGuard'])
+    chai.assert.deepEqual(profile.components.map(component => component.getName()), ['UserComponent'])
+
+    const adminChild = table[8]
+    chai.assert.deepEqual(adminChild.components.map(component => component.getName()), ['HomeComponent', 'AdminComponent'])
+    chai.assert.deepEqual(adminChild.lazyModules.map(ngModule => ngModule.getName()), ['AdminModule'])
+    chai.assert.deepEqual(adminChild.chain.map(route => route.getPath()), ['admin', ''])
+    chai.assert.equal(adminChild.locationSpan.getFile().getUri(), '/app/admin/admin.module.ts')
+    chai.assert.deepEqual(table[1].lazyModules, [])
+  })
+
+})
+
+describe(`Project#matchUrl`, () => {
+
+  function createShopProject () {
+    return createAppProject({
+      ...routerModuleStubFiles,
+      '/app/app.module.ts': `
+        import { NgModule, Component } from '@angular/core'
+        import { RouterModule } from '@angular/router'
+
+        @Component({ selector: 'app-shop', template: '' })
+        export class ShopComponent {}
+
+        @Component({ selector: 'app-items', template: '' })
+        export class ItemsComponent {}
+
+        @Component({ selector: 'app-item', template: '' })
+        export class ItemComponent {}
+
+        @Component({ selector: 'app-not-found', template: '' })
+        export class NotFoundComponent {}
+
+        @NgModule({
+          declarations: [ShopComponent, ItemsComponent, ItemComponent, NotFoundComponent],
+          imports: [
+            RouterModule.forRoot([
+              { path: 'products/:id', redirectTo: '/shop/items/:id?tab=:tab' },
+              {
+                path: 'shop',
+                component: ShopComponent,
+                children: [
+                  { path: '', redirectTo: 'items', pathMatch: 'full' },
+                  { path: 'items', component: ItemsComponent },
+                  { path: 'items/:id', component: ItemComponent },
+                ],
+              },
+              { path: '**', component: NotFoundComponent },
+            ]),
+          ],
+        })
+        export class AppModule {
+        }
+      `,
+    })
+  }
+
+  function getChainNames (match: UrlMatch): string[] {
+    return match.chain.map(({ route }) => {
+      const component = route.getComponent()
+      return component == null ? `(${route.printPath()})` : component.getName()
+    })
+  }
+
+  it(`extracts path, matrix and query parameters`, () => {
+    const match = createRoutingProject().matchUrlOrThrow('/users/42;tab=info?x=1&y=a+b#top')
+    chai.assert.deepEqual(getChainNames(match), ['UserComponent'])
+    chai.assert.deepEqual([...match.chain[0].params], [['id', '42'], ['tab', 'info']])
+    chai.assert.deepEqual(match.chain[0].segments, ['users', '42'])
+    chai.assert.deepEqual([...match.queryParams], [['x', '1'], ['y', 'a b']])
+    chai.assert.equal(match.fragment, 'top')
+    chai.assert.deepEqual(match.redirects, [])
+  })
+
+  it(`follows children, lazy modules and named outlets`, () => {
+    const project = createRoutingProject()
+    const admin = project.matchUrlOrThrow('/admin')
+    chai.assert.deepEqual(getChainNames(admin), ['HomeComponent', 'AdminComponent'])
+
+    const settings = project.matchUrlOrThrow('/settings/profile(sidebar:help)')
+    chai.assert.deepEqual(getChainNames(settings), ['(settings)', 'UserComponent'])
+    chai.assert.deepEqual(settings.routes.map(({ outlet }) => outlet), ['primary', 'sidebar'])
+    chai.assert.equal(settings.routes[1].route.getComponentOrThrow().getName(), 'HelpComponent')
+
+    chai.assert.deepEqual(getChainNames(project.matchUrlOrThrow('/settings')), ['(settings)'])
+    chai.assert.isUndefined(project.matchUrl('/home/more'))
+    chai.assert.throws(() => project.matchUrlOrThrow('/nowhere'), `Cannot match any routes for URL "/nowhere".`)
+  })
+
+  it(`follows relative and absolute redirects`, () => {
+    const project = createShopProject()
+    const home = createRoutingProject().matchUrlOrThrow('/')
+    chai.assert.deepEqual(getChainNames(home), ['HomeComponent'])
+    chai.assert.deepEqual(home.redirects.map(({ from, to }) => `${from} -> ${to}`), [' -> home'])
+
+    const shop = project.matchUrlOrThrow('/shop')
+    chai.assert.deepEqual(getChainNames(shop), ['ShopComponent', 'ItemsComponent'])
+    chai.assert.deepEqual(shop.redirects.map(({ from, to }) => `${from} -> ${to}`), [' -> items'])
+
+    const product = project.matchUrlOrThrow('/products/42?tab=reviews&ref=mail')
+    chai.assert.deepEqual(getChainNames(product), ['ShopComponent', 'ItemComponent'])
+    chai.assert.equal(product.chain[1].params.get('id'), '42')
+    chai.assert.deepEqual([...product.queryParams], [['tab', 'reviews']])
+    chai.assert.deepEqual(product.redirects.map(({ from, to }) => `${from} -> ${to}`), ['products/42 -> /shop/items/42?tab=reviews'])
+  })
+
+  it(`falls back to the wildcard route`, () => {
+    const project = createShopProject()
+    chai.assert.deepEqual(getChainNames(project.matchUrlOrThrow('/shop/items/42/extra')), ['NotFoundComponent'])
+    const match = project.matchUrlOrThrow('/what/ever;x=1')
+    chai.assert.deepEqual(match.chain[0].segments, ['what', 'ever'])
+    chai.assert.deepEqual([...match.chain[0].params], [['x', '1']])
+  })
+
+})
+
+describe(`loadChildren`, () => {
+
+  it(`resolves dynamic imports, the string syntax and functions, also through path mappings`, () => {
+    const project = createAppProject({
+      ...routerModuleStubFiles,
+      '/tsconfig.json': JSON.stringify({
+        compilerOptions: { baseUrl: '.', paths: { '@admin/*': ['app/admin/*'] } },
+      }),
+      '/app/loaders.ts': `
+        export function loadReports () {
+          return import('./reports.module').then(m => m.ReportsModule)
+        }
+        export const loadAdmin = async () => (await import('@admin/admin.module')).AdminModule
+      `,
+      '/app/app.module.ts': `
+        import { NgModule } from '@angular/core'
+        import { RouterModule } from '@angular/router'
+        import { loadAdmin, loadReports } from './loaders'
+
+        @NgModule({
+          imports: [
+            RouterModule.forRoot([
+              { path: 'a', loadChildren: () => import('./admin/admin.module').then(m => m.AdminModule) },
+              { path: 'b', loadChildren: './admin/admin.module#AdminModule' },
+              { path: 'c', loadChildren: '@admin/admin.module#AdminModule' },
+              { path: 'd', loadChildren: async () => (await import('./reports.module')).ReportsModule },
+              { path: 'e', loadChildren: () => import('./reports.module').then(({ ReportsModule }) => ReportsModule) },
+              { path: 'f', loadChildren: loadReports },
+              { path: 'g', loadChildren: loadAdmin },
+            ]),
+          ],
+        })
+        export class AppModule {
+        }
+      `,
+      '/app/admin/admin.module.ts': `
+        import { NgModule } from '@angular/core'
+
+        @NgModule({})
+        export class AdminModule {
+        }
+      `,
+      '/app/reports.module.ts': `
+        import { NgModule } from '@angular/core'
+
+        @NgModule({})
+        export class ReportsModule {
+        }
+      `,
+    }, [], { tsConfigFilePath: '/tsconfig.json' })
+
+    const routes = project.getRootRoutesOrThrow().getRoutes()
+    chai.assert.deepEqual(routes.map(route => (route as LazyRoute).getNgModule().getName()), [
+      'AdminModule', 'AdminModule', 'AdminModule', 'ReportsModule', 'ReportsModule', 'ReportsModule', 'AdminModule',
+    ])
+  })
+
+})
@@ -4,26 +4,146 @@ import { NgModule } from './ng-module'
 import { Project } from '../../project'
 import { throwIfUndefined } from '../../utils'
 import * as tg from 'type-guards'
+import * as tsm from 'ts-morph'
 import { LocationSpan } from './location'
 
+/**
+ * A guard, a resolver or a matcher. The router gets a class from the injector and calls
+ * its method, or calls a function directly. A function can be declared on its own, assigned
+ * to a constant (as in `const authGuard: CanActivateFn = () => ...`), or written inline.
+ * What can't be followed statically, such as a guard made by a factory as in
+ * `roleGuard('admin')`, is kept as the expression written in the route.
+ */
+export type RouteHandler =
+  tsm.ClassDeclaration |
+  tsm.FunctionDeclaration |
+  tsm.VariableDeclaration |
+  tsm.ArrowFunction |
+  tsm.FunctionExpression |
+  tsm.Expression
+
+export type PathMatch = 'prefix' | 'full'
+
+export type RunGuardsAndResolvers =
+  'paramsChange' |
+  'paramsOrQueryParamsChange' |
+  'pathParamsChange' |
+  'pathParamsOrQueryParamsChange' |
+  'always' |
+  RouteHandler
+
+/**
+ * What the route configuration says in addition to where the route leads, which means the
+ * same for every kind of route.
+ */
+export interface RouteConfig {
+  /**
+   * Undefined for a route which uses a matcher instead.
+   */
+  path: string | undefined
+  pathMatch: PathMatch
+  matcher: RouteHandler | undefined
+  outlet: string
+  canActivate: RouteHandler[]
+  canActivateChild: RouteHandler[]
+  canDeactivate: RouteHandler[]
+  canLoad: RouteHandler[]
+  resolve: Map<string, RouteHandler>
+  data: Map<string, tsm.Expression>
+  runGuardsAndResolvers: RunGuardsAndResolvers
+}
+
+export const PRIMARY_OUTLET = 'primary'
+
 export abstract class Route extends NgAstNode {
 
   public constructor (project: Project,
                       locationSpan: LocationSpan,
-                      private path: string) {
+                      private config: RouteConfig) {
     super(project, locationSpan)
   }
 
-  public getPath (): string {
-    return this.path
+  /**
+   * @return The path, or `undefined` if the route uses a matcher instead.
+   */
+  public getPath (): string | undefined {
+    return this.config.path
+  }
+
+  public getPathOrThrow (): string {
+    return throwIfUndefined(this.getPath(), `Expected the route at ${this.getLocationSpan().printLong()} to have a path.`)
+  }
+
+  public getPathMatch (): PathMatch {
+    return this.config.pathMatch
+  }
+
+  /**
+   * The custom function which decides whether the route matches a URL, used instead of a path.
+   */
+  public getMatcher (): RouteHandler | undefined {
+    return this.config.matcher
+  }
+
+  /**
+   * The name of the `<router-outlet>` where the component is rendered, which is
+   * {@link PRIMARY_OUTLET} unless set.
+   */
+  public getOutlet (): string {
+    return this.config.outlet
+  }
+
+  public getCanActivate (): RouteHandler[] {
+    return this.config.canActivate
+  }
+
+  public getCanActivateChild (): RouteHandler[] {
+    return this.config.canActivateChild
   }
 
+  public getCanDeactivate (): RouteHandler[] {
+    return this.config.canDeactivate
+  }
+
+  public getCanLoad (): RouteHandler[] {
+    return this.config.canLoad
+  }
+
+  /**
+   * All guards of the route, of any kind, in the order of the kinds above.
+   */
+  public getGuards (): RouteHandler[] {
+    return [...this.getCanActivate(), ...this.getCanActivateChild(), ...this.getCanDeactivate(), ...this.getCanLoad()]
+  }
+
+  /**
+   * The resolvers by the key under which their result ends up in the route's data.
+   */
+  public getResolve (): Map<string, RouteHandler> {
+    return this.config.resolve
+  }
+
+  /**
+   * The static data of the route, as the expressions written for each key.
+   */
+  public getData (): Map<string, tsm.Expression> {
+    return this.config.data
+  }
+
+  public getRunGuardsAndResolvers (): RunGuardsAndResolvers {
+    return this.config.runGuardsAndResolvers
+  }
+
+  /**
+   * The routes nested in this one: the `children` of an eager route, or the routes of the
+   * module which a lazy route loads. A redirect has none.
+   */
   public abstract getChildren (): Route[]
 
   public abstract getComponent (): Component | undefined
 
   public getComponentOrThrow (): Component {
-    return throwIfUndefined(this.getComponent(), `Expected route "${this.getPath()}" to have a component.`)
+    return throwIfUndefined(this.getComponent(), `Expected route "${this.printPath()}" to have a component.`)
   }
 
   public print (indentCount: number = 0): string {
@@ -35,31 +155,69 @@ export abstract class Route extends NgAstNode {
 
   public abstract printLine (): string
 
+  /**
+   * The path as shown by {@link print}, which also covers a route with a matcher.
+   */
+  public printPath (): string {
+    const path = this.getPath()
+    if (path != null) return path
+    const matcher = this.getMatcher()
+    return `(matcher: ${matcher == null ? `unknown` : getRouteHandlerName(matcher)})`
+  }
+
 }
 
 
+/**
+ * A route which renders a component, and possibly child routes inside it.
+ */
 export class EagerRoute extends Route {
 
   public constructor (project: Project,
                       locationSpan: LocationSpan,
-                      path: string,
-                      private component: Component | undefined,
+                      config: RouteConfig,
+                      private component: Component,
                       private children: Route[]) {
-    super(project, locationSpan, path)
+    super(project, locationSpan, config)
   }
 
   public getChildren (): Route[] {
     return this.children
   }
 
-  public getComponent (): Component | undefined {
+  public getComponent (): Component {
     return this.component
   }
 
   public printLine (): string {
-    const component = this.getComponent()
-    const name = component == null ? `(componentless)` : component.getName()
-    return `/${this.getPath()} :: ${name} (Eager)`
+    return `/${this.printPath()} :: ${this.getComponent().getName()} (Eager)`
+  }
+
+}
+
+/**
+ * A route without a component, which only groups its children, as in sharing a path prefix
+ * or guards. The children are rendered in the outlet where the route itself would be.
+ */
+export class ComponentlessRoute extends Route {
+
+  public constructor (project: Project,
+                      locationSpan: LocationSpan,
+                      config: RouteConfig,
+                      private children: Route[]) {
+    super(project, locationSpan, config)
+  }
+
+  public getChildren (): Route[] {
+    return this.children
+  }
+
+  public getComponent (): undefined {
+    return undefined
+  }
+
+  public printLine (): string {
+    return `/${this.printPath()} :: (componentless)`
   }
 
 }
@@ -68,19 +226,24 @@ export class LazyRoute extends Route {
 
   public constructor (project: Project,
                       locationSpan: LocationSpan,
-                      path: string,
+                      config: RouteConfig,
                       private component: Component | undefined,
                       private ngModule: NgModule) {
-    super(project, locationSpan, path)
+    super(project, locationSpan, config)
   }
 
   public getNgModule () {
     return this.ngModule
   }
 
+  /**
+   * The routes of the lazy module.
+   *
+   * @return The routes, or an empty array if the module doesn't define any.
+   */
   public getChildren (): Route[] {
-    const routes = this.ngModule.getChildRoutesOrThrow()
-    return routes.getRoutes()
+    const routes = this.ngModule.getChildRoutes()
+    return routes == null ? [] : routes.getRoutes()
   }
 
   public getComponent (): Component | undefined {
@@ -90,7 +253,7 @@ export class LazyRoute extends Route {
   public printLine (): string {
     const component = this.getComponent()
     const name = component == null ? `(componentless)` : component.getName()
-    return `/${this.getPath()} :: ${name} (Lazy: ${this.ngModule.getName()})`
+    return `/${this.printPath()} :: ${name} (Lazy: ${this.ngModule.getName()})`
   }
 
 }
@@ -99,10 +262,9 @@ export class RedirectRoute extends Route {
 
   public constructor (project: Project,
                       locationSpan: LocationSpan,
-                      path: string,
-                      private redirectTo: string,
-                      private pathMatch: 'full' | 'prefix') {
-    super(project, locationSpan, path)
+                      config: RouteConfig,
+                      private redirectTo: string) {
+    super(project, locationSpan, config)
   }
 
   public getChildren (): Route[] {
@@ -117,18 +279,42 @@ export class RedirectRoute extends Route {
     return this.redirectTo
   }
 
-  public getPatchMatch (): 'full' | 'prefix' {
-    return this.pathMatch
+  /**
+   * @deprecated Use {@link getPathMatch}.
+   */
+  public getPatchMatch (): PathMatch {
+    return this.getPathMatch()
   }
 
   public printLine (): string {
-    const path = this.getPath()
+    const path = this.printPath()
     const from = path == '' ? `(empty)` : path
-    return `/${this.getPath()} :: Redirect: ${from} --> ${this.getRedirectTo()} (${this.getPatchMatch()})`
+    return `/${path} :: Redirect: ${from} --> ${this.getRedirectTo()} (${this.getPathMatch()})`
   }
 
 }
 
 export const isEagerRoute = tg.isInstanceOf(EagerRoute)
+export const isComponentlessRoute = tg.isInstanceOf(ComponentlessRoute)
 export const isLazyRoute = tg.isInstanceOf(LazyRoute)
 export const isRedirectRoute = tg.isInstanceOf(RedirectRoute)
+
+/**
+ * The name under which the guard, resolver or matcher is declared.
+ *
+ * @return The name, `(inline)` for a function written right in the route, or the text of an
+ * expression which couldn't be followed.
+ */
+export function getRouteHandlerName (handler: RouteHandler): string {
+  if (tsm.TypeGuards.isArrowFunction(handler)) return `(inline)`
+  if (
+    tsm.TypeGuards.isClassDeclaration(handler) ||
+    tsm.TypeGuards.isFunctionDeclaration(handler) ||
+    tsm.TypeGuards.isVariableDeclaration(handler) ||
+    tsm.TypeGuards.isFunctionExpression(handler)
+  ) {
+    const name = handler.getName()
+    return name == null ? `(inline)` : name
+  }
+  return handler.getText()
+}
@@ -0,0 +1,529 @@
+import { Project } from '../../../../project'
+import { LocationSpan } from '../../location'
+import { Template } from '../template'
+import { BoundEventTemplateNode, ExpressionSource, ExpressionTemplateNode } from '../template-nodes'
+import { TemplateDeclaration, TemplateDeclarationKind, TemplateScope } from '../template-scope'
+
+export type LiteralPrimitiveValue = string | number | boolean | null | undefined
+
+/**
+ * A name within an expression (of a property, a method or a pipe), with its own offsets
+ * so that it can be renamed without touching the rest of the expression.
+ */
+export interface ExpressionName {
+  name: string
+  start: number
+  end: number
+}
+
+// region Receivers and member access
+
+/**
+ * The explicit `this` receiver, as in `this.name`.
+ */
+export class ThisReceiverTemplateNode extends ExpressionTemplateNode {
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return []
+  }
+
+}
+
+/**
+ * Anything which accesses a member by name: reading or writing a property, or calling a
+ * method. When there is no receiver, the name is resolved against the template's scope
+ * (a template variable, a reference, `$event`, or a member of the component).
+ */
+export abstract class MemberAccessTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected receiver: ExpressionTemplateNode | undefined,
+                      protected nameInfo: ExpressionName) {
+    super(project, template, source, start, end)
+  }
+
+  /**
+   * @return The receiver, or `undefined` for an implicit receiver (a bare `name`).
+   */
+  public getReceiver (): ExpressionTemplateNode | undefined {
+    return this.receiver
+  }
+
+  public hasImplicitReceiver (): boolean {
+    return this.receiver == null
+  }
+
+  public getName (): string {
+    return this.nameInfo.name
+  }
+
+  public getNameLocationSpan (): LocationSpan {
+    return this.getSpanWithin(this.nameInfo.start, this.nameInfo.end)
+  }
+
+  /**
+   * Is the member accessed with safe navigation, as in `user?.name`?
+   */
+  public isSafe (): boolean {
+    return false
+  }
+
+  public changeName (newName: string): void {
+    this._replaceExpressionText(this.nameInfo.start, this.nameInfo.end, newName)
+  }
+
+  /**
+   * Finds what the name refers to. This is only known for an implicit receiver and for
+   * `this`; the name in `user.name` depends on the type of `user`.
+   *
+   * @return The declaration, or `undefined` if it's not known or not found.
+   * @see TemplateScope.resolve
+   */
+  public getDeclaration (): TemplateDeclaration | undefined {
+    const receiver = this.receiver
+    const name = this.getName()
+    if (receiver instanceof ThisReceiverTemplateNode) {
+      return TemplateScope.FromTemplateNode(this).resolveComponentMember(name)
+    }
+    if (receiver != null) return undefined
+    const owner = this.getOwner()
+    if (name == '$event' && owner instanceof BoundEventTemplateNode) {
+      return { kind: TemplateDeclarationKind.Event, event: owner }
+    }
+    return TemplateScope.FromTemplateNode(owner).resolve(name)
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return this.receiver == null ? [] : [this.receiver]
+  }
+
+}
+
+/**
+ * Reading a property, as in `name` or `user.name`.
+ */
+export class PropertyReadTemplateNode extends MemberAccessTemplateNode {
+}
+
+export class SafePropertyReadTemplateNode extends PropertyReadTemplateNode {
+
+  public isSafe (): boolean {
+    return true
+  }
+
+}
+
+/**
+ * Assigning to a property in an event handler, as in `(click)="isOpen = true"`.
+ */
+export class PropertyWriteTemplateNode extends MemberAccessTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      receiver: ExpressionTemplateNode | undefined,
+                      nameInfo: ExpressionName,
+                      protected value: ExpressionTemplateNode) {
+    super(project, template, source, start, end, receiver, nameInfo)
+  }
+
+  public getValue (): ExpressionTemplateNode {
+    return this.value
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [...super.getTemplateChildren(), this.value]
+  }
+
+}
+
+export class KeyedReadTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected receiver: ExpressionTemplateNode,
+                      protected key: ExpressionTemplateNode) {
+    super(project, template, source, start, end)
+  }
+
+  public getReceiver (): ExpressionTemplateNode {
+    return this.receiver
+  }
+
+  public getKey (): ExpressionTemplateNode {
+    return this.key
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [this.receiver, this.key]
+  }
+
+}
+
+export class KeyedWriteTemplateNode extends KeyedReadTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      receiver: ExpressionTemplateNode,
+                      key: ExpressionTemplateNode,
+                      protected value: ExpressionTemplateNode) {
+    super(project, template, source, start, end, receiver, key)
+  }
+
+  public getValue (): ExpressionTemplateNode {
+    return this.value
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [...super.getTemplateChildren(), this.value]
+  }
+
+}
+
+// endregion Receivers and member access
+
+// region Calls
+
+/**
+ * Calling a method, as in `save()` or `form.reset(value)`.
+ */
+export class MethodCallTemplateNode extends MemberAccessTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      receiver: ExpressionTemplateNode | undefined,
+                      nameInfo: ExpressionName,
+                      protected args: ExpressionTemplateNode[]) {
+    super(project, template, source, start, end, receiver, nameInfo)
+  }
+
+  public getArguments (): ExpressionTemplateNode[] {
+    return this.args
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [...super.getTemplateChildren(), ...this.args]
+  }
+
+}
+
+export class SafeMethodCallTemplateNode extends MethodCallTemplateNode {
+
+  public isSafe (): boolean {
+    return true
+  }
+
+}
+
+/**
+ * Calling the result of an expression which isn't a property, as in `getHandler()(value)`.
+ */
+export class FunctionCallTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected target: ExpressionTemplateNode,
+                      protected args: ExpressionTemplateNode[]) {
+    super(project, template, source, start, end)
+  }
+
+  public getTarget (): ExpressionTemplateNode {
+    return this.target
+  }
+
+  public getArguments (): ExpressionTemplateNode[] {
+    return this.args
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [this.target, ...this.args]
+  }
+
+}
+
+/**
+ * Applying a pipe, as in `value | date:'short'`.
+ */
+export class PipeTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected expression: ExpressionTemplateNode,
+                      protected nameInfo: ExpressionName,
+                      protected args: ExpressionTemplateNode[]) {
+    super(project, template, source, start, end)
+  }
+
+  /**
+   * The piped value.
+   */
+  public getExpression (): ExpressionTemplateNode {
+    return this.expression
+  }
+
+  public getName (): string {
+    return this.nameInfo.name
+  }
+
+  public getNameLocationSpan (): LocationSpan {
+    return this.getSpanWithin(this.nameInfo.start, this.nameInfo.end)
+  }
+
+  public changeName (newName: string): void {
+    this._replaceExpressionText(this.nameInfo.start, this.nameInfo.end, newName)
+  }
+
+  /**
+   * The arguments given after colons.
+   */
+  public getArguments (): ExpressionTemplateNode[] {
+    return this.args
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [this.expression, ...this.args]
+  }
+
+}
+
+// endregion Calls
+
+// region Operators
+
+/**
+ * The non-null assertion operator, as in `user!.name`.
+ */
+export class NonNullAssertTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected expression: ExpressionTemplateNode) {
+    super(project, template, source, start, end)
+  }
+
+  public getExpression (): ExpressionTemplateNode {
+    return this.expression
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [this.expression]
+  }
+
+}
+
+export class PrefixNotTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected expression: ExpressionTemplateNode) {
+    super(project, template, source, start, end)
+  }
+
+  public getExpression (): ExpressionTemplateNode {
+    return this.expression
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [this.expression]
+  }
+
+}
+
+/**
+ * Unary plus or minus, as in `-offset`.
+ */
+export class UnaryTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected operator: '+' | '-',
+                      protected expression: ExpressionTemplateNode) {
+    super(project, template, source, start, end)
+  }
+
+  public getOperator (): '+' | '-' {
+    return this.operator
+  }
+
+  public getExpression (): ExpressionTemplateNode {
+    return this.expression
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [this.expression]
+  }
+
+}
+
+export class BinaryTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected operator: string,
+                      protected left: ExpressionTemplateNode,
+                      protected right: ExpressionTemplateNode) {
+    super(project, template, source, start, end)
+  }
+
+  public getOperator (): string {
+    return this.operator
+  }
+
+  public getLeft (): ExpressionTemplateNode {
+    return this.left
+  }
+
+  public getRight (): ExpressionTemplateNode {
+    return this.right
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [this.left, this.right]
+  }
+
+}
+
+/**
+ * The ternary operator, as in `isOpen ? 'Close' : 'Open'`.
+ */
+export class ConditionalTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected condition: ExpressionTemplateNode,
+                      protected trueExpression: ExpressionTemplateNode,
+                      protected falseExpression: ExpressionTemplateNode) {
+    super(project, template, source, start, end)
+  }
+
+  public getCondition (): ExpressionTemplateNode {
+    return this.condition
+  }
+
+  public getTrueExpression (): ExpressionTemplateNode {
+    return this.trueExpression
+  }
+
+  public getFalseExpression (): ExpressionTemplateNode {
+    return this.falseExpression
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return [this.condition, this.trueExpression, this.falseExpression]
+  }
+
+}
+
+// endregion Operators
+
+// region Literals
+
+/**
+ * A string, a number, `true`, `false`, `null` or `undefined`.
+ */
+export class LiteralPrimitiveTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected value: LiteralPrimitiveValue) {
+    super(project, template, source, start, end)
+  }
+
+  public getValue (): LiteralPrimitiveValue {
+    return this.value
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return []
+  }
+
+}
+
+export class LiteralArrayTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected elements: ExpressionTemplateNode[]) {
+    super(project, template, source, start, end)
+  }
+
+  public getElements (): ExpressionTemplateNode[] {
+    return this.elements
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return this.elements
+  }
+
+}
+
+export interface LiteralMapEntry {
+  key: string
+  quoted: boolean
+  value: ExpressionTemplateNode
+}
+
+export class LiteralMapTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected entries: LiteralMapEntry[]) {
+    super(project, template, source, start, end)
+  }
+
+  public getEntries (): LiteralMapEntry[] {
+    return this.entries
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return this.entries.map(entry => entry.value)
+  }
+
+}
+
+// endregion Literals
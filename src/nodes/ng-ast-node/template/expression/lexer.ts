@@ -0,0 +1,183 @@
+import * as chars from '../tokenizer/chars'
+
+export enum ExpressionTokenType {
+  Character = 0,
+  Identifier = 1,
+  Keyword = 2,
+  String = 3,
+  Operator = 4,
+  Number = 5,
+}
+
+const KEYWORDS = ['var', 'let', 'as', 'null', 'undefined', 'true', 'false', 'if', 'else', 'this']
+
+/**
+ * A token of an Angular expression. Offsets are relative to the start of the expression.
+ */
+export class ExpressionToken {
+
+  public constructor (public readonly type: ExpressionTokenType,
+                      public readonly text: string,
+                      public readonly start: number,
+                      public readonly end: number,
+                      public readonly numericValue: number = 0,
+                      public readonly stringValue: string = text) {
+  }
+
+  public isCharacter (char: string): boolean {
+    return this.type == ExpressionTokenType.Character && this.text == char
+  }
+
+  public isOperator (operator: string): boolean {
+    return this.type == ExpressionTokenType.Operator && this.text == operator
+  }
+
+  public isKeyword (keyword?: string): boolean {
+    return this.type == ExpressionTokenType.Keyword && (keyword == null || this.text == keyword)
+  }
+
+  public isIdentifier (): boolean {
+    return this.type == ExpressionTokenType.Identifier
+  }
+
+  public toString (): string {
+    return this.text
+  }
+
+}
+
+export class ExpressionSyntaxError extends Error {
+
+  public constructor (message: string,
+                      public readonly expression: string,
+                      public readonly offset: number) {
+    super(`${message} at column ${offset + 1} in [${expression}].`)
+  }
+
+}
+
+function isIdentifierStart (code: number): boolean {
+  return chars.isAsciiLetter(code) || code == chars.$_ || code == chars.$$
+}
+
+function isIdentifierPart (code: number): boolean {
+  return isIdentifierStart(code) || chars.isDigit(code)
+}
+
+function isExponentStart (code: number): boolean {
+  return code == chars.$e || code == chars.$E
+}
+
+function isExponentSign (code: number): boolean {
+  return code == chars.$MINUS || code == chars.$PLUS
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', f: '\f', r: '\r', t: '\t', v: '\v', b: '\b', '0': '\0' }
+
+/**
+ * Splits an Angular expression (the value of a binding, an event handler or the inside of an
+ * interpolation) into tokens.
+ *
+ * @throws ExpressionSyntaxError - On unterminated strings and unexpected characters.
+ */
+export function tokenizeExpression (expression: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = []
+  let index = 0
+
+  const peek = (offset: number = 0) => index + offset < expression.length ? expression.charCodeAt(index + offset) : chars.$EOF
+  const fail = (message: string, offset: number = index): never => {
+    throw new ExpressionSyntaxError(message, expression, offset)
+  }
+
+  while (index < expression.length) {
+    const code = peek()
+    const start = index
+
+    if (chars.isWhitespace(code)) {
+      index++
+      continue
+    }
+
+    if (isIdentifierStart(code)) {
+      while (isIdentifierPart(peek())) index++
+      const text = expression.slice(start, index)
+      const type = KEYWORDS.includes(text) ? ExpressionTokenType.Keyword : ExpressionTokenType.Identifier
+      tokens.push(new ExpressionToken(type, text, start, index))
+      continue
+    }
+
+    if (chars.isDigit(code) || (code == chars.$PERIOD && chars.isDigit(peek(1)))) {
+      while (true) {
+        if (chars.isDigit(peek()) || peek() == chars.$PERIOD) {
+          index++
+        } else if (isExponentStart(peek())) {
+          index++
+          if (isExponentSign(peek())) index++
+          if (!chars.isDigit(peek())) fail(`Invalid exponent`)
+        } else {
+          break
+        }
+      }
+      const text = expression.slice(start, index)
+      tokens.push(new ExpressionToken(ExpressionTokenType.Number, text, start, index, Number(text)))
+      continue
+    }
+
+    if (code == chars.$SQ || code == chars.$DQ) {
+      index++
+      let value = ''
+      while (peek() != code) {
+        if (peek() == chars.$EOF) fail(`Unterminated quote`, start)
+        if (peek() == chars.$BACKSLASH) {
+          index++
+          const escaped = expression[index]
+          if (escaped == 'u') {
+            const hex = expression.slice(index + 1, index + 5)
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail(`Invalid unicode escape [\\u${hex}]`)
+            value += String.fromCharCode(parseInt(hex, 16))
+            index += 5
+          } else {
+            value += ESCAPES[escaped] != null ? ESCAPES[escaped] : escaped
+            index++
+          }
+        } else {
+          value += expression[index]
+          index++
+        }
+      }
+      index++
+      const text = expression.slice(start, index)
+      tokens.push(new ExpressionToken(ExpressionTokenType.String, text, start, index, 0, value))
+      continue
+    }
+
+    const char = expression[index]
+    const next = expression[index + 1] || ''
+    const nextNext = expression[index + 2] || ''
+
+    if (char == '?' && next == '.' && !chars.isDigit(expression.charCodeAt(index + 2))) {
+      index += 2
+      tokens.push(new ExpressionToken(ExpressionTokenType.Operator, '?.', start, index))
+      continue
+    }
+
+    const operator = [`${char}${next}${nextNext}`, `${char}${next}`, char].find(candidate => {
+      return ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '+', '-', '*', '/', '%', '^', '?', '<', '>', '=', '!', '&', '|'].includes(candidate)
+    })
+    if (operator != null) {
+      index += operator.length
+      tokens.push(new ExpressionToken(ExpressionTokenType.Operator, operator, start, index))
+      continue
+    }
+
+    if ('()[]{},:;.#'.includes(char)) {
+      index++
+      tokens.push(new ExpressionToken(ExpressionTokenType.Character, char, start, index))
+      continue
+    }
+
+    fail(`Unexpected character [${char}]`)
+  }
+
+  return tokens
+}
@@ -0,0 +1,190 @@
+import { Project } from '../../../../project'
+import { LocationSpan } from '../../location'
+import { Template } from '../template'
+import { ExpressionSource, ExpressionTemplateNode } from '../template-nodes'
+import { ExpressionName, MemberAccessTemplateNode } from './expression-nodes'
+import { findUsages, TemplateDeclarationKind } from '../template-scope'
+
+/**
+ * The parsed value of a structural directive's attribute, as in
+ * `let item of items; trackBy: trackById; let i = index` from `*ngFor`.
+ *
+ * Angular turns the element into an implicit `ng-template`, where each expression binding
+ * becomes an input (`ngForOf`, `ngForTrackBy`) and each variable binding becomes a template
+ * variable (`item`, `i`).
+ */
+export class MicrosyntaxTemplateNode extends ExpressionTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected templateKey: string,
+                      protected bindings: TemplateBindingTemplateNode[]) {
+    super(project, template, source, start, end)
+  }
+
+  /**
+   * The name of the directive, as in `ngFor` from `*ngFor`.
+   */
+  public getTemplateKey (): string {
+    return this.templateKey
+  }
+
+  /**
+   * All bindings, in the order in which they're written.
+   */
+  public getBindings (): TemplateBindingTemplateNode[] {
+    return this.bindings
+  }
+
+  public getExpressionBindings (): ExpressionBindingTemplateNode[] {
+    return this.bindings.filter((binding): binding is ExpressionBindingTemplateNode => binding instanceof ExpressionBindingTemplateNode)
+  }
+
+  /**
+   * The template variables declared with `let` or `as`.
+   */
+  public getVariables (): VariableBindingTemplateNode[] {
+    return this.bindings.filter((binding): binding is VariableBindingTemplateNode => binding instanceof VariableBindingTemplateNode)
+  }
+
+  /**
+   * @param key - The full key, as in `ngForTrackBy` (not `trackBy`).
+   */
+  public getExpressionBinding (key: string): ExpressionBindingTemplateNode | undefined {
+    return this.getExpressionBindings().find(binding => binding.getKey() == key)
+  }
+
+  public hasExpressionBinding (key: string): boolean {
+    return this.getExpressionBinding(key) != null
+  }
+
+  public getVariable (name: string): VariableBindingTemplateNode | undefined {
+    return this.getVariables().find(variable => variable.getName() == name)
+  }
+
+  public getTemplateChildren (): TemplateBindingTemplateNode[] {
+    return this.bindings
+  }
+
+}
+
+export abstract class TemplateBindingTemplateNode extends ExpressionTemplateNode {
+}
+
+/**
+ * Binds an expression to an input of the directive, as in `of items` (the key is `ngForOf`)
+ * or `trackBy: trackById` (the key is `ngForTrackBy`). The first binding has the template
+ * key itself, as in `*ngIf="isOpen"`, and might not have a value, as in `*ngFor`.
+ */
+export class ExpressionBindingTemplateNode extends TemplateBindingTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected key: string,
+                      protected sourceKeyInfo: ExpressionName | undefined,
+                      protected value: ExpressionTemplateNode | undefined) {
+    super(project, template, source, start, end)
+  }
+
+  /**
+   * The key prefixed with the template key, as in `ngForTrackBy`.
+   */
+  public getKey (): string {
+    return this.key
+  }
+
+  /**
+   * The key as written, as in `trackBy`.
+   *
+   * @return The key, or `undefined` for the binding of the template key itself.
+   */
+  public getSourceKey (): string | undefined {
+    return this.sourceKeyInfo == null ? undefined : this.sourceKeyInfo.name
+  }
+
+  public getSourceKeyLocationSpan (): LocationSpan | undefined {
+    const info = this.sourceKeyInfo
+    return info == null ? undefined : this.getSpanWithin(info.start, info.end)
+  }
+
+  public getValue (): ExpressionTemplateNode | undefined {
+    return this.value
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return this.value == null ? [] : [this.value]
+  }
+
+}
+
+/**
+ * Declares a template variable, as in `let i = index`, `let item` (bound to `$implicit`),
+ * `index as i` or `user$ | async as user` (bound to `ngIf`).
+ */
+export class VariableBindingTemplateNode extends TemplateBindingTemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected nameInfo: ExpressionName,
+                      protected value: string,
+                      protected valueInfo: ExpressionName | undefined,
+                      protected declaredWithLet: boolean) {
+    super(project, template, source, start, end)
+  }
+
+  public getName (): string {
+    return this.nameInfo.name
+  }
+
+  public getNameLocationSpan (): LocationSpan {
+    return this.getSpanWithin(this.nameInfo.start, this.nameInfo.end)
+  }
+
+  public changeName (newName: string): void {
+    this._replaceExpressionText(this.nameInfo.start, this.nameInfo.end, newName)
+  }
+
+  /**
+   * The property of the template's context which the variable is bound to, as in `index`.
+   */
+  public getValue (): string {
+    return this.value
+  }
+
+  /**
+   * @return The span of the value, or `undefined` if it's implied (as `$implicit` is in `let item`).
+   */
+  public getValueLocationSpan (): LocationSpan | undefined {
+    const info = this.valueInfo
+    return info == null ? undefined : this.getSpanWithin(info.start, info.end)
+  }
+
+  /**
+   * Is the variable declared with `let`, as opposed to an `as` alias?
+   */
+  public isLet (): boolean {
+    return this.declaredWithLet
+  }
+
+  /**
+   * Identifiers in the template which refer to this variable, as in each `item` inside
+   * the element with `*ngFor="let item of items"`.
+   */
+  public findUsages (): MemberAccessTemplateNode[] {
+    return findUsages(this.getTemplate(), declaration => declaration.kind == TemplateDeclarationKind.Variable && declaration.variable == this)
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return []
+  }
+
+}
@@ -0,0 +1,76 @@
+import * as chai from 'chai'
+import { createAppProject } from '../../../../utils/test-utils'
+import * as tng from '../template-nodes-type-guards'
+
+function getTemplate (template: string) {
+  const project = createAppProject({
+    '/ng-for.directive.ts': `
+      import { Directive, Input } from '@angular/core'
+
+      @Directive({
+        selector: '[ngFor][ngForOf]',
+      })
+      export class NgForOf {
+        @Input() ngForOf: any[]
+        @Input() ngForTrackBy: any
+      }
+    `,
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-root',
+        template: '${template}',
+      })
+      export class AppComponent {
+      }
+    `,
+  }, ['AppComponent', 'NgForOf'])
+  return project.getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+}
+
+describe(`Microsyntax`, () => {
+
+  it(`parses keys, expression bindings and variables of *ngFor`, () => {
+    const template = getTemplate(`<li *ngFor="let item of items | slice:1; trackBy: trackById; let i = index; odd as isOdd">{{ item }}</li>`)
+    const attribute = template.getFirstTemplateNodeOrThrow(tng.isTemplateAttributeWithDirectiveName('ngFor'))
+    const microsyntax = attribute.getMicrosyntax()!
+    chai.assert.equal(microsyntax.getTemplateKey(), 'ngFor')
+    chai.assert.deepEqual(microsyntax.getExpressionBindings().map(binding => binding.getKey()), ['ngFor', 'ngForOf', 'ngForTrackBy'])
+    chai.assert.isTrue(tng.isPipe(microsyntax.getExpressionBinding('ngForOf')!.getValue()!))
+    chai.assert.equal(microsyntax.getExpressionBinding('ngForTrackBy')!.getSourceKeyLocationSpan()!.getText(), 'trackBy')
+
+    const variables = microsyntax.getVariables().map(variable => [variable.getName(), variable.getValue(), variable.isLet()])
+    chai.assert.deepEqual(variables, [['item', '$implicit', true], ['i', 'index', true], ['isOdd', 'odd', false]])
+    chai.assert.equal(microsyntax.getVariable('i')!.getLocationSpan().getText(), 'let i = index')
+  })
+
+  it(`parses the template key's own expression and its alias`, () => {
+    const template = getTemplate(`<p *ngIf="user$ | async as user; else loading">{{ user.name }}</p>`)
+    const microsyntax = template.getFirstTemplateNodeOrThrow(tng.isMicrosyntax)
+    chai.assert.equal(microsyntax.getExpressionBinding('ngIf')!.getValue()!.getText(), 'user$ | async')
+    chai.assert.equal(microsyntax.getVariable('user')!.getValue(), 'ngIf')
+    chai.assert.equal(microsyntax.getExpressionBinding('ngIfElse')!.getValue()!.getText(), 'loading')
+  })
+
+  it(`matches directives on the implicit ng-template and finds *ngFor without trackBy`, () => {
+    const template = getTemplate(`<li *ngFor="let item of items; trackBy: id"></li><li *ngFor="let item of items"></li>`)
+    const attributes = template.getTemplateNodes(tng.isTemplateAttributeWithDirectiveName('ngFor'))
+    const ngTemplate = attributes[0].getImplicitNgTemplate()
+    chai.assert.deepEqual(ngTemplate.getMatchedDirectives().map(directive => directive.getName()), ['NgForOf'])
+    chai.assert.equal(ngTemplate.getChildren()[0], attributes[0].getElement())
+    chai.assert.lengthOf(attributes[0].getElement().getMatchedDirectives(), 0)
+
+    const withoutTrackBy = attributes.filter(attribute => !attribute.getMicrosyntax()!.hasExpressionBinding('ngForTrackBy'))
+    chai.assert.deepEqual(withoutTrackBy, [attributes[1]])
+  })
+
+  it(`renames a loop variable in place`, () => {
+    const template = getTemplate(`<li *ngFor="let item of items; let i = index"></li>`)
+    template.getFirstTemplateNodeOrThrow(tng.isTemplateAttribute).getMicrosyntax()!.getVariable('i')!.changeName('position')
+    chai.assert.include(template.getText(), `*ngFor="let item of items; let position = index"`)
+    const microsyntax = template.getFirstTemplateNodeOrThrow(tng.isTemplateAttribute).getMicrosyntax()!
+    chai.assert.equal(microsyntax.getVariable('position')!.getNameLocationSpan().getText(), 'position')
+  })
+
+})
@@ -0,0 +1,108 @@
+import * as chai from 'chai'
+import { createAppProject } from '../../../../utils/test-utils'
+import * as tg from 'type-guards'
+import * as tng from '../template-nodes-type-guards'
+import { TemplateNode } from '../template-nodes'
+import {
+  ConditionalTemplateNode,
+  LiteralArrayTemplateNode,
+  LiteralMapTemplateNode,
+  MethodCallTemplateNode,
+  NonNullAssertTemplateNode,
+  PipeTemplateNode,
+  PrefixNotTemplateNode,
+  PropertyReadTemplateNode,
+  PropertyWriteTemplateNode,
+} from './expression-nodes'
+
+function getTemplate (template: string) {
+  const project = createAppProject({
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-root',
+        template: '${template}',
+      })
+      export class AppComponent {
+      }
+    `,
+  }, ['AppComponent'])
+  return project.getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+}
+
+function getAttribute<T extends TemplateNode> (template: string, guard: tg.Guard<T>): T {
+  return getTemplate(template).getFirstTemplateNodeOrThrow(guard)
+}
+
+function narrow<T extends TemplateNode> (node: TemplateNode, guard: tg.Guard<T>): T {
+  if (!guard(node)) throw new chai.AssertionError(`Unexpected kind of node "${node.getText()}".`)
+  return node
+}
+
+describe(`Expression parser`, () => {
+
+  it(`parses pipes with arguments and safe navigation`, () => {
+    const attribute = getAttribute(`<p [title]="user?.name | slice:0:max"></p>`, tng.isBoundAttribute)
+    const pipe = attribute.getExpression() as PipeTemplateNode
+    chai.assert.instanceOf(pipe, PipeTemplateNode)
+    chai.assert.equal(pipe.getName(), 'slice')
+    chai.assert.equal(pipe.getNameLocationSpan().getText(), 'slice')
+    chai.assert.deepEqual(pipe.getArguments().map(arg => arg.getText()), ['0', 'max'])
+
+    const read = pipe.getExpression() as PropertyReadTemplateNode
+    chai.assert.isTrue(tng.isSafePropertyRead(read))
+    chai.assert.equal(read.getText(), 'user?.name')
+    chai.assert.equal(read.getNameLocationSpan().getText(), 'name')
+    chai.assert.equal(read.getTemplateParent(), pipe)
+    chai.assert.equal(pipe.getTemplateParent(), attribute)
+  })
+
+  it(`respects operator precedence, literals and the non-null assertion`, () => {
+    const attribute = getAttribute(`<p [x]="a || b && c ? [1, null] : {key: value!}"></p>`, tng.isBoundAttribute)
+    const conditional = attribute.getExpression() as ConditionalTemplateNode
+    chai.assert.instanceOf(conditional, ConditionalTemplateNode)
+    chai.assert.equal(conditional.getCondition().getText(), 'a || b && c')
+    const condition = narrow(conditional.getCondition(), tng.isBinary)
+    chai.assert.equal(condition.getOperator(), '||')
+    chai.assert.equal(condition.getRight().getText(), 'b && c')
+
+    const array = conditional.getTrueExpression() as LiteralArrayTemplateNode
+    chai.assert.deepEqual(array.getElements().map(element => narrow(element, tng.isLiteralPrimitive).getValue()), [1, null])
+
+    const map = conditional.getFalseExpression() as LiteralMapTemplateNode
+    chai.assert.equal(map.getEntries()[0].key, 'key')
+    chai.assert.instanceOf(map.getEntries()[0].value, NonNullAssertTemplateNode)
+  })
+
+  it(`parses chained statements with assignments and $event in event handlers`, () => {
+    const event = getAttribute(`<button (click)="isOpen = !isOpen; save($event)"></button>`, tng.isBoundEvent)
+    const statement = event.getStatement()!
+
+    const [write, call] = statement.getTemplateChildren()
+    chai.assert.instanceOf(write, PropertyWriteTemplateNode)
+    chai.assert.instanceOf((write as PropertyWriteTemplateNode).getValue(), PrefixNotTemplateNode)
+    chai.assert.instanceOf(call, MethodCallTemplateNode)
+    chai.assert.equal((call as MethodCallTemplateNode).getArguments()[0].getText(), '$event')
+  })
+
+  it(`refuses pipes in actions and assignments in bindings`, () => {
+    const event = getAttribute(`<input (input)="value = $event | trim">`, tng.isBoundEvent)
+    chai.assert.throws(() => event.getStatement(), /pipe/)
+    const binding = getAttribute(`<input [value]="value = 1">`, tng.isBoundAttribute)
+    chai.assert.throws(() => binding.getExpression(), /assignments/)
+    chai.assert.lengthOf(binding.getTemplateChildren(), 0)
+  })
+
+  it(`renames a member in place and parses the new text again`, () => {
+    const template = getTemplate(`<p [title]="user.name" (click)="select(user)"></p>`)
+    const read = template.getFirstTemplateNodeOrThrow(tng.isPropertyReadWithName('name'))
+    read.changeName('fullName')
+    const call = template.getFirstTemplateNodeOrThrow(tng.isMethodCallWithName('select'))
+    call.changeName('choose')
+    chai.assert.include(template.getText(), `<p [title]="user.fullName" (click)="choose(user)"></p>`)
+    chai.assert.isDefined(template.getFirstTemplateNode(tng.isPropertyReadWithName('fullName')))
+    chai.assert.equal(template.getFirstTemplateNodeOrThrow(tng.isMethodCallWithName('choose')).getText(), 'choose(user)')
+  })
+
+})
@@ -0,0 +1,525 @@
+import { Project } from '../../../../project'
+import { Template } from '../template'
+import { ExpressionSource, ExpressionTemplateNode, StatementTemplateNode } from '../template-nodes'
+import { ExpressionSyntaxError, ExpressionToken, ExpressionTokenType, tokenizeExpression } from './lexer'
+import {
+  BinaryTemplateNode,
+  ConditionalTemplateNode,
+  ExpressionName,
+  FunctionCallTemplateNode,
+  KeyedReadTemplateNode,
+  KeyedWriteTemplateNode,
+  LiteralArrayTemplateNode,
+  LiteralMapEntry,
+  LiteralMapTemplateNode,
+  LiteralPrimitiveTemplateNode,
+  MethodCallTemplateNode,
+  NonNullAssertTemplateNode,
+  PipeTemplateNode,
+  PrefixNotTemplateNode,
+  PropertyReadTemplateNode,
+  PropertyWriteTemplateNode,
+  SafeMethodCallTemplateNode,
+  SafePropertyReadTemplateNode,
+  ThisReceiverTemplateNode,
+  UnaryTemplateNode,
+} from './expression-nodes'
+import {
+  ExpressionBindingTemplateNode,
+  MicrosyntaxTemplateNode,
+  TemplateBindingTemplateNode,
+  VariableBindingTemplateNode,
+} from './microsyntax-nodes'
+
+/**
+ * Bindings (property bindings and interpolations) can't have side effects, while actions
+ * (event handlers) can assign and chain statements, but can't use pipes.
+ */
+export enum ExpressionParseMode {
+  Binding = 0,
+  Action = 1,
+}
+
+/**
+ * Binary operators from the lowest to the highest precedence. The conditional operator and
+ * the pipe have even lower precedence and are handled separately.
+ */
+const BINARY_OPERATOR_PRECEDENCE: string[][] = [
+  ['??'],
+  ['||'],
+  ['&&'],
+  ['==', '!=', '===', '!=='],
+  ['<', '>', '<=', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+]
+
+/**
+ * A recursive-descent parser for Angular expressions, modeled after the one in Angular's
+ * compiler. It creates template nodes directly, with offsets relative to the expression.
+ */
+class ExpressionParser {
+
+  private readonly tokens: ExpressionToken[]
+
+  private index: number = 0
+
+  public constructor (private project: Project,
+                      private template: Template,
+                      private source: ExpressionSource,
+                      private text: string,
+                      private mode: ExpressionParseMode) {
+    this.tokens = tokenizeExpression(text)
+  }
+
+  public parseStatement (): StatementTemplateNode {
+    const expressions: ExpressionTemplateNode[] = []
+    while (this.index < this.tokens.length) {
+      expressions.push(this.parsePipe())
+      if (this.consumeOptionalCharacter(';')) {
+        while (this.consumeOptionalCharacter(';')) {
+          // Empty statements are allowed.
+        }
+      } else if (this.index < this.tokens.length) {
+        this.fail(`Unexpected token '${this.peek()}'`)
+      }
+    }
+    const start = expressions.length == 0 ? 0 : this.tokens[0].start
+    const end = expressions.length == 0 ? this.text.length : this.tokens[this.tokens.length - 1].end
+    return this.adopt(new StatementTemplateNode(this.project, this.template, this.source, start, end, expressions))
+  }
+
+  public parseBinding (): ExpressionTemplateNode | undefined {
+    if (this.tokens.length == 0) return undefined
+    const expression = this.parsePipe()
+    if (this.consumeOptionalCharacter(';')) this.fail(`Binding expression cannot contain chained expression`)
+    if (this.index < this.tokens.length) this.fail(`Unexpected token '${this.peek()}'`)
+    return expression
+  }
+
+  /**
+   * Parses the value of a structural directive's attribute, following Angular's
+   * `parseTemplateBindings`.
+   */
+  public parseTemplateBindings (templateKey: string): MicrosyntaxTemplateNode {
+    const bindings: TemplateBindingTemplateNode[] = []
+
+    // The first binding belongs to the template key itself, as in `*ngIf="condition"`.
+    bindings.push(...this.parseDirectiveKeywordBindings(templateKey, undefined))
+    this.consumeStatementTerminator()
+
+    while (this.index < this.tokens.length) {
+      const letBinding = this.parseLetBinding()
+      if (letBinding != null) {
+        bindings.push(letBinding)
+      } else {
+        const keyInfo = this.expectTemplateBindingKey()
+        const asBinding = this.parseAsBinding(keyInfo.start, keyInfo.name, keyInfo)
+        if (asBinding != null) {
+          bindings.push(asBinding)
+        } else {
+          const key = templateKey + keyInfo.name.charAt(0).toUpperCase() + keyInfo.name.slice(1)
+          bindings.push(...this.parseDirectiveKeywordBindings(key, keyInfo))
+        }
+      }
+      this.consumeStatementTerminator()
+    }
+
+    return this.adopt(new MicrosyntaxTemplateNode(this.project, this.template, this.source, 0, this.text.length, templateKey, bindings))
+  }
+
+  // region Precedence levels
+
+  private parsePipe (): ExpressionTemplateNode {
+    const start = this.getStart()
+    let result = this.parseExpression()
+    while (this.consumeOptionalOperator('|')) {
+      if (this.mode == ExpressionParseMode.Action) this.fail(`Cannot have a pipe in an action expression`)
+      const nameInfo = this.expectIdentifierOrKeyword()
+      const args: ExpressionTemplateNode[] = []
+      while (this.consumeOptionalCharacter(':')) {
+        args.push(this.parseExpression())
+      }
+      result = this.adopt(new PipeTemplateNode(this.project, this.template, this.source, start, this.getEnd(), result, nameInfo, args))
+    }
+    return result
+  }
+
+  private parseExpression (): ExpressionTemplateNode {
+    return this.parseConditional()
+  }
+
+  private parseConditional (): ExpressionTemplateNode {
+    const start = this.getStart()
+    const condition = this.parseBinary(0)
+    if (!this.consumeOptionalOperator('?')) return condition
+    const trueExpression = this.parsePipe()
+    this.expectCharacter(':')
+    const falseExpression = this.parsePipe()
+    return this.adopt(new ConditionalTemplateNode(this.project, this.template, this.source, start, this.getEnd(), condition, trueExpression, falseExpression))
+  }
+
+  private parseBinary (level: number): ExpressionTemplateNode {
+    if (level >= BINARY_OPERATOR_PRECEDENCE.length) return this.parsePrefix()
+    const start = this.getStart()
+    let result = this.parseBinary(level + 1)
+    while (true) {
+      const operator = BINARY_OPERATOR_PRECEDENCE[level].find(candidate => this.peekOperator(candidate))
+      if (operator == null) return result
+      this.index++
+      const right = this.parseBinary(level + 1)
+      result = this.adopt(new BinaryTemplateNode(this.project, this.template, this.source, start, this.getEnd(), operator, result, right))
+    }
+  }
+
+  private parsePrefix (): ExpressionTemplateNode {
+    const start = this.getStart()
+    if (this.consumeOptionalOperator('!')) {
+      const expression = this.parsePrefix()
+      return this.adopt(new PrefixNotTemplateNode(this.project, this.template, this.source, start, this.getEnd(), expression))
+    }
+    for (const operator of ['+', '-'] as const) {
+      if (this.consumeOptionalOperator(operator)) {
+        const expression = this.parsePrefix()
+        return this.adopt(new UnaryTemplateNode(this.project, this.template, this.source, start, this.getEnd(), operator, expression))
+      }
+    }
+    return this.parseCallChain()
+  }
+
+  private parseCallChain (): ExpressionTemplateNode {
+    const start = this.getStart()
+    let result = this.parsePrimary()
+    while (true) {
+      if (this.consumeOptionalCharacter('.')) {
+        result = this.parseMemberAccess(start, result, false)
+      } else if (this.consumeOptionalOperator('?.')) {
+        result = this.parseMemberAccess(start, result, true)
+      } else if (this.consumeOptionalCharacter('[')) {
+        const key = this.parsePipe()
+        this.expectCharacter(']')
+        if (this.mode == ExpressionParseMode.Action && this.consumeOptionalOperator('=')) {
+          const value = this.parseConditional()
+          result = this.adopt(new KeyedWriteTemplateNode(this.project, this.template, this.source, start, this.getEnd(), result, key, value))
+        } else {
+          result = this.adopt(new KeyedReadTemplateNode(this.project, this.template, this.source, start, this.getEnd(), result, key))
+        }
+      } else if (this.consumeOptionalCharacter('(')) {
+        const args = this.parseCallArguments()
+        result = this.adopt(new FunctionCallTemplateNode(this.project, this.template, this.source, start, this.getEnd(), result, args))
+      } else if (this.consumeOptionalOperator('!')) {
+        result = this.adopt(new NonNullAssertTemplateNode(this.project, this.template, this.source, start, this.getEnd(), result))
+      } else {
+        return result
+      }
+    }
+  }
+
+  private parsePrimary (): ExpressionTemplateNode {
+    const start = this.getStart()
+    const token = this.peek()
+    if (token == null) return this.fail(`Unexpected end of expression`)
+
+    if (token.isCharacter('(')) {
+      this.index++
+      const result = this.parsePipe()
+      this.expectCharacter(')')
+      return result
+    }
+
+    if (token.isKeyword('null') || token.isKeyword('undefined') || token.isKeyword('true') || token.isKeyword('false')) {
+      this.index++
+      const values: Record<string, boolean | null | undefined> = { null: null, undefined: undefined, true: true, false: false }
+      return this.adopt(new LiteralPrimitiveTemplateNode(this.project, this.template, this.source, start, this.getEnd(), values[token.text]))
+    }
+
+    if (token.isKeyword('this')) {
+      this.index++
+      return this.adopt(new ThisReceiverTemplateNode(this.project, this.template, this.source, start, this.getEnd()))
+    }
+
+    if (token.isCharacter('[')) {
+      this.index++
+      const elements = this.parseExpressionList(']')
+      this.expectCharacter(']')
+      return this.adopt(new LiteralArrayTemplateNode(this.project, this.template, this.source, start, this.getEnd(), elements))
+    }
+
+    if (token.isCharacter('{')) {
+      return this.parseLiteralMap()
+    }
+
+    if (token.isIdentifier()) {
+      return this.parseMemberAccess(start, undefined, false)
+    }
+
+    if (token.type == ExpressionTokenType.Number) {
+      this.index++
+      return this.adopt(new LiteralPrimitiveTemplateNode(this.project, this.template, this.source, start, this.getEnd(), token.numericValue))
+    }
+
+    if (token.type == ExpressionTokenType.String) {
+      this.index++
+      return this.adopt(new LiteralPrimitiveTemplateNode(this.project, this.template, this.source, start, this.getEnd(), token.stringValue))
+    }
+
+    return this.fail(`Unexpected token ${token}`)
+  }
+
+  // endregion Precedence levels
+
+  // region Composite expressions
+
+  private parseMemberAccess (start: number, receiver: ExpressionTemplateNode | undefined, isSafe: boolean): ExpressionTemplateNode {
+    const nameInfo = this.expectIdentifierOrKeyword()
+
+    if (this.consumeOptionalCharacter('(')) {
+      const args = this.parseCallArguments()
+      const ctor = isSafe ? SafeMethodCallTemplateNode : MethodCallTemplateNode
+      return this.adopt(new ctor(this.project, this.template, this.source, start, this.getEnd(), receiver, nameInfo, args))
+    }
+
+    if (this.peekOperator('=')) {
+      if (this.mode != ExpressionParseMode.Action) this.fail(`Bindings cannot contain assignments`)
+      if (isSafe) this.fail(`The '?.' operator cannot be used in the assignment`)
+      this.index++
+      const value = this.parseConditional()
+      return this.adopt(new PropertyWriteTemplateNode(this.project, this.template, this.source, start, this.getEnd(), receiver, nameInfo, value))
+    }
+
+    const ctor = isSafe ? SafePropertyReadTemplateNode : PropertyReadTemplateNode
+    return this.adopt(new ctor(this.project, this.template, this.source, start, this.getEnd(), receiver, nameInfo))
+  }
+
+  private parseCallArguments (): ExpressionTemplateNode[] {
+    const args = this.parseExpressionList(')')
+    this.expectCharacter(')')
+    return args
+  }
+
+  private parseExpressionList (terminator: string): ExpressionTemplateNode[] {
+    const result: ExpressionTemplateNode[] = []
+    if (this.peekCharacter(terminator)) return result
+    do {
+      result.push(this.parsePipe())
+    } while (this.consumeOptionalCharacter(','))
+    return result
+  }
+
+  private parseLiteralMap (): ExpressionTemplateNode {
+    const start = this.getStart()
+    this.expectCharacter('{')
+    const entries: LiteralMapEntry[] = []
+    if (!this.consumeOptionalCharacter('}')) {
+      do {
+        const token = this.peek()
+        const quoted = token != null && token.type == ExpressionTokenType.String
+        const key = quoted ? this.next().stringValue : this.expectIdentifierOrKeyword().name
+        this.expectCharacter(':')
+        entries.push({ key, quoted, value: this.parsePipe() })
+      } while (this.consumeOptionalCharacter(','))
+      this.expectCharacter('}')
+    }
+    return this.adopt(new LiteralMapTemplateNode(this.project, this.template, this.source, start, this.getEnd(), entries))
+  }
+
+  // endregion Composite expressions
+
+  // region Template bindings
+
+  /**
+   * An expression binding (as in `of items` or `trackBy: trackById`), optionally followed by
+   * an alias (as in `of items as list`).
+   */
+  private parseDirectiveKeywordBindings (key: string, keyInfo: ExpressionName | undefined): TemplateBindingTemplateNode[] {
+    const start = keyInfo != null ? keyInfo.start : this.getStart()
+    this.consumeOptionalCharacter(':')
+    const value = this.getDirectiveBoundTarget()
+    const end = value != null || keyInfo != null ? this.getEnd() : start
+    const result: TemplateBindingTemplateNode[] = [
+      this.adopt(new ExpressionBindingTemplateNode(this.project, this.template, this.source, start, end, key, keyInfo, value)),
+    ]
+    const asBinding = this.parseAsBinding(this.getStart(), key, undefined)
+    if (asBinding != null) result.push(asBinding)
+    return result
+  }
+
+  private getDirectiveBoundTarget (): ExpressionTemplateNode | undefined {
+    const token = this.peek()
+    if (token == null || token.isKeyword('let') || token.isKeyword('as') || token.isCharacter(';') || token.isCharacter(',')) {
+      return undefined
+    }
+    return this.parsePipe()
+  }
+
+  /**
+   * A variable binding in the form of `value as name`, where the value has already been read.
+   */
+  private parseAsBinding (start: number, value: string, valueInfo: ExpressionName | undefined): VariableBindingTemplateNode | undefined {
+    const token = this.peek()
+    if (token == null || !token.isKeyword('as')) return undefined
+    this.index++
+    const nameInfo = this.expectTemplateBindingKey()
+    return this.adopt(new VariableBindingTemplateNode(this.project, this.template, this.source, start, this.getEnd(), nameInfo, value, valueInfo, false))
+  }
+
+  /**
+   * A variable binding in the form of `let name = value` or `let name`.
+   */
+  private parseLetBinding (): VariableBindingTemplateNode | undefined {
+    const token = this.peek()
+    if (token == null || !token.isKeyword('let')) return undefined
+    const start = token.start
+    this.index++
+    const nameInfo = this.expectTemplateBindingKey()
+    const valueInfo = this.consumeOptionalOperator('=') ? this.expectTemplateBindingKey() : undefined
+    const value = valueInfo != null ? valueInfo.name : '$implicit'
+    return this.adopt(new VariableBindingTemplateNode(this.project, this.template, this.source, start, this.getEnd(), nameInfo, value, valueInfo, true))
+  }
+
+  /**
+   * A key can contain dashes, as in `let-foo-bar` (which is lexed as several tokens).
+   */
+  private expectTemplateBindingKey (): ExpressionName {
+    const first = this.expectIdentifierOrKeyword()
+    let { name, end } = first
+    while (this.peekOperator('-') && this.peek()!.start == end) {
+      const next = this.tokens[this.index + 1]
+      if (next == null || next.start != end + 1 || (!next.isIdentifier() && !next.isKeyword())) break
+      this.index += 2
+      name += '-' + next.text
+      end = next.end
+    }
+    return { name, start: first.start, end }
+  }
+
+  private consumeStatementTerminator (): void {
+    if (!this.consumeOptionalCharacter(';')) this.consumeOptionalCharacter(',')
+  }
+
+  // endregion Template bindings
+
+  // region Tokens
+
+  private peek (): ExpressionToken | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next (): ExpressionToken {
+    const token = this.peek()
+    if (token == null) return this.fail(`Unexpected end of expression`)
+    this.index++
+    return token
+  }
+
+  private peekCharacter (char: string): boolean {
+    const token = this.peek()
+    return token != null && token.isCharacter(char)
+  }
+
+  private peekOperator (operator: string): boolean {
+    const token = this.peek()
+    return token != null && token.isOperator(operator)
+  }
+
+  private consumeOptionalCharacter (char: string): boolean {
+    if (!this.peekCharacter(char)) return false
+    this.index++
+    return true
+  }
+
+  private consumeOptionalOperator (operator: string): boolean {
+    if (!this.peekOperator(operator)) return false
+    this.index++
+    return true
+  }
+
+  private expectCharacter (char: string): void {
+    if (!this.consumeOptionalCharacter(char)) {
+      const token = this.peek()
+      this.fail(token == null ? `Missing expected ${char}` : `Missing expected ${char} but got '${token}'`)
+    }
+  }
+
+  private expectIdentifierOrKeyword (): ExpressionName {
+    const token = this.peek()
+    if (token == null || (!token.isIdentifier() && !token.isKeyword())) {
+      return this.fail(token == null ? `Expected an identifier` : `Unexpected token ${token}, expected identifier or keyword`)
+    }
+    this.index++
+    return { name: token.text, start: token.start, end: token.end }
+  }
+
+  /**
+   * Where the next expression starts.
+   */
+  private getStart (): number {
+    const token = this.peek()
+    return token == null ? this.text.length : token.start
+  }
+
+  /**
+   * Where the last consumed token ends.
+   */
+  private getEnd (): number {
+    const token = this.tokens[this.index - 1]
+    return token == null ? 0 : token.end
+  }
+
+  private fail (message: string): never {
+    const token = this.peek()
+    throw new ExpressionSyntaxError(message, this.text, token == null ? this.text.length : token.start)
+  }
+
+  // endregion Tokens
+
+  private adopt<T extends ExpressionTemplateNode> (node: T): T {
+    for (const child of node.getTemplateChildren()) {
+      child.setTemplateParent(node)
+    }
+    return node
+  }
+
+}
+
+/**
+ * Parses the value of a property binding or an interpolation.
+ *
+ * @param source - The token which holds the expression, and where in the token it starts.
+ * @param text - The text of the expression.
+ * @return The root of the expression, or `undefined` if the expression is empty.
+ * @throws ExpressionSyntaxError - If the expression is not valid.
+ */
+export function parseBindingExpression (project: Project,
+                                        template: Template,
+                                        source: ExpressionSource,
+                                        text: string): ExpressionTemplateNode | undefined {
+  return new ExpressionParser(project, template, source, text, ExpressionParseMode.Binding).parseBinding()
+}
+
+/**
+ * Parses the handler of an event binding.
+ *
+ * @see parseBindingExpression
+ */
+export function parseActionExpression (project: Project,
+                                       template: Template,
+                                       source: ExpressionSource,
+                                       text: string): StatementTemplateNode {
+  return new ExpressionParser(project, template, source, text, ExpressionParseMode.Action).parseStatement()
+}
+
+/**
+ * Parses the value of a structural directive's attribute, as in `let item of items` from
+ * `*ngFor="let item of items"`.
+ *
+ * @param templateKey - The name of the attribute without the asterisk, as in `ngFor`.
+ * @see parseBindingExpression
+ */
+export function parseMicrosyntax (project: Project,
+                                  template: Template,
+                                  source: ExpressionSource,
+                                  text: string,
+                                  templateKey: string): MicrosyntaxTemplateNode {
+  return new ExpressionParser(project, template, source, text, ExpressionParseMode.Binding).parseTemplateBindings(templateKey)
+}
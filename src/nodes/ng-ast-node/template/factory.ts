@@ -1,34 +1,91 @@
 import { Project } from '../../../project'
 import {
+  AnimationBindingTemplateNode,
+  AnimationEventTemplateNode,
+  AnyAttribute,
+  AttributeBindingTemplateNode,
   BananaInTheBoxTemplateNode,
   BoundAttributeTemplateNode,
   BoundEventTemplateNode,
+  ClassBindingTemplateNode,
   CommentTemplateNode,
   ElementTemplateNode,
   InterpolationTemplateNode,
   NgContainerTemplateNode,
   NgTemplateTemplateNode,
+  parseBindingName,
   ReferenceTemplateNode,
+  StyleBindingTemplateNode,
+  TemplateAttributeTemplateNode,
   TemplateNode,
+  TemplateVariableTemplateNode,
   TextAttributeTemplateNode,
   TextTemplateNode,
 } from './template-nodes'
 import * as tg from 'type-guards'
-import { Template, TemplateConfig } from './template'
+import { Template, TemplateConfig, TokenPiece } from './template'
 import { LocationPointer, LocationSpan } from '../location'
 import { Attribute, Comment, Element, Node, Text } from './tokenizer/ast'
 import { ParseLocation, ParseSourceSpan } from './tokenizer/parse_util'
+import { TokenType } from './tokenizer/lexer'
+import { getFirstElementOrThrow } from '../../../utils'
 
 const NG_CONTAINER_TAG_NAME = 'ng-container'
 const NG_TEMPLATE_TAG_NAME = 'ng-template'
 
+/**
+ * Splits text into pieces of plain text and interpolations (each of which is the start
+ * delimiter, the expression and the end delimiter). An unterminated interpolation is
+ * left as plain text.
+ */
+function splitInterpolations (text: string, templateConfig: TemplateConfig): TokenPiece[] {
+  const startDelimiter = templateConfig.getInterpolationStart()
+  const endDelimiter = templateConfig.getInterpolationEnd()
+  const pieces: TokenPiece[] = []
+  let position = 0
+  while (true) {
+    const start = text.indexOf(startDelimiter, position)
+    if (start == -1) break
+    const expressionStart = start + startDelimiter.length
+    const end = text.indexOf(endDelimiter, expressionStart)
+    if (end == -1) break
+    if (start > position) pieces.push({ type: TokenType.TEXT, length: start - position })
+    pieces.push({ type: TokenType.INTERPOLATION_START, length: startDelimiter.length })
+    pieces.push({ type: TokenType.TEXT, length: end - expressionStart })
+    pieces.push({ type: TokenType.INTERPOLATION_END, length: endDelimiter.length })
+    position = end + endDelimiter.length
+  }
+  if (position < text.length) pieces.push({ type: TokenType.TEXT, length: text.length - position })
+  return pieces
+}
+
 export function fromText (project: Project,
                           template: Template,
                           templateConfig: TemplateConfig,
                           htmlNode: Text,
 ): Array<TextTemplateNode | InterpolationTemplateNode> {
-  const text = htmlNode.value
-  return [new TextTemplateNode(project, htmlNode.locationSpan, htmlNode.tokens, template, text)]
+  const token = getFirstElementOrThrow(htmlNode.tokens, `Expected text to have a token.`)
+  const pieces = splitInterpolations(token.toString(), templateConfig)
+
+  if (pieces.length == 1) {
+    const text = htmlNode.value
+    return [new TextTemplateNode(project, htmlNode.locationSpan, htmlNode.tokens, template, text)]
+  }
+
+  const result: Array<TextTemplateNode | InterpolationTemplateNode> = []
+  const tokens = template._splitToken(token, pieces)
+  for (let index = 0; index < tokens.length; index++) {
+    const current = tokens[index]
+    if (current.type == TokenType.INTERPOLATION_START) {
+      const [start, expression, end] = tokens.slice(index, index + 3)
+      const locationSpan = new LocationSpan(start.locationSpan.getStart(), end.locationSpan.getEnd())
+      result.push(new InterpolationTemplateNode(project, locationSpan, [start, expression, end], template, expression.toString()))
+      index += 2
+    } else {
+      result.push(new TextTemplateNode(project, current.locationSpan, [current], template, current.toString()))
+    }
+  }
+  return result
 }
 
 export function fromElement (project: Project,
@@ -52,21 +109,51 @@ export function fromAttribute (project: Project,
                                template: Template,
                                templateConfig: TemplateConfig,
                                htmlNode: Attribute,
-): TextAttributeTemplateNode | BoundAttributeTemplateNode | BoundEventTemplateNode | BananaInTheBoxTemplateNode | ReferenceTemplateNode {
+): AnyAttribute {
   const { name, value } = htmlNode
-  if ((name.startsWith('[') && name.endsWith(']')) || name.startsWith('bind-')) {
-    return new BoundAttributeTemplateNode(project, htmlNode.locationSpan, htmlNode.tokens, template, name, value)
+  const { locationSpan, tokens } = htmlNode
+  const binding = parseBindingName(name)
+
+  if (binding.kind == 'two-way') {
+    return new BananaInTheBoxTemplateNode(project, locationSpan, tokens, template, name, value)
+  }
+
+  if (binding.kind == 'property') {
+    if (binding.name.startsWith('attr.')) {
+      return new AttributeBindingTemplateNode(project, locationSpan, tokens, template, name, value)
+    }
+    if (binding.name.startsWith('class.')) {
+      return new ClassBindingTemplateNode(project, locationSpan, tokens, template, name, value)
+    }
+    if (binding.name.startsWith('style.')) {
+      return new StyleBindingTemplateNode(project, locationSpan, tokens, template, name, value)
+    }
+    if (binding.name.startsWith('@')) {
+      return new AnimationBindingTemplateNode(project, locationSpan, tokens, template, name, value)
+    }
+    return new BoundAttributeTemplateNode(project, locationSpan, tokens, template, name, value)
+  }
+
+  if (binding.kind == 'event') {
+    if (binding.name.startsWith('@')) {
+      return new AnimationEventTemplateNode(project, locationSpan, tokens, template, name, value)
+    }
+    return new BoundEventTemplateNode(project, locationSpan, tokens, template, name, value)
+  }
+
+  if (name.startsWith('*')) {
+    return new TemplateAttributeTemplateNode(project, locationSpan, tokens, template, name, value)
   }
-  if ((name.startsWith('(') && name.endsWith(')')) || name.startsWith('on-')) {
-    return new BoundAttributeTemplateNode(project, htmlNode.locationSpan, htmlNode.tokens, template, name, value)
+  if (name.startsWith('@')) {
+    return new AnimationBindingTemplateNode(project, locationSpan, tokens, template, name, value)
   }
-  if ((name.startsWith('[(') && name.endsWith(')]')) || name.startsWith('bindon-')) {
-    return new BananaInTheBoxTemplateNode(project, htmlNode.locationSpan, htmlNode.tokens, template, name, value)
+  if (name.startsWith('let-')) {
+    return new TemplateVariableTemplateNode(project, locationSpan, tokens, template, name, value)
   }
-  if (name.startsWith('#')) {
-    return new ReferenceTemplateNode(project, htmlNode.locationSpan, htmlNode.tokens, template, name, value)
+  if (name.startsWith('#') || name.startsWith('ref-')) {
+    return new ReferenceTemplateNode(project, locationSpan, tokens, template, name, value)
   }
-  return new TextAttributeTemplateNode(project, htmlNode.locationSpan, htmlNode.tokens, template, name, value)
+  return new TextAttributeTemplateNode(project, locationSpan, tokens, template, name, value)
 }
 
 export function fromComment (project: Project,
@@ -1,4 +1,6 @@
 import * as tn from './template-nodes'
+import * as en from './expression/expression-nodes'
+import * as mn from './expression/microsyntax-nodes'
 import * as tg from 'type-guards'
 
 export const is = tg.isInstanceOf(tn.TemplateNode)
@@ -9,6 +11,7 @@ export const isInterpolation = tg.isInstanceOf(tn.InterpolationTemplateNode)
 export const isElementLike = tg.isInstanceOf(tn.ElementLikeTemplateNode)
 export const isElement = tg.isInstanceOf(tn.ElementTemplateNode)
 export const isNgTemplate = tg.isInstanceOf(tn.NgTemplateTemplateNode)
+export const isImplicitNgTemplate = tg.isInstanceOf(tn.ImplicitNgTemplateTemplateNode)
 export const isNgContainer = tg.isInstanceOf(tn.NgContainerTemplateNode)
 export const isComment = tg.isInstanceOf(tn.CommentTemplateNode)
 
@@ -23,9 +26,61 @@ export const isAttribute = tg.isInstanceOf(tn.AttributeTemplateNode)
 export const isTextAttribute = tg.isInstanceOf(tn.TextAttributeTemplateNode)
 export const isBoundAttribute = tg.isInstanceOf(tn.BoundAttributeTemplateNode)
 export const isBoundEvent = tg.isInstanceOf(tn.BoundEventTemplateNode)
+export const isAttributeBinding = tg.isInstanceOf(tn.AttributeBindingTemplateNode)
+export const isClassBinding = tg.isInstanceOf(tn.ClassBindingTemplateNode)
+export const isStyleBinding = tg.isInstanceOf(tn.StyleBindingTemplateNode)
+export const isAnimationBinding = tg.isInstanceOf(tn.AnimationBindingTemplateNode)
+export const isAnimationEvent = tg.isInstanceOf(tn.AnimationEventTemplateNode)
 export const isBananaInTheBox = tg.isInstanceOf(tn.BananaInTheBoxTemplateNode)
+export const isTemplateAttribute = tg.isInstanceOf(tn.TemplateAttributeTemplateNode)
+export const isTemplateVariable = tg.isInstanceOf(tn.TemplateVariableTemplateNode)
 export const isReference = tg.isInstanceOf(tn.ReferenceTemplateNode)
 
+/**
+ * A binding to a property of the element or to an input, as opposed to a binding to an
+ * attribute, a class, a style or an animation.
+ */
+export const isPropertyBinding = tg.fp.and(
+  isBoundAttribute,
+  attribute => !isAttributeBinding(attribute) && !isClassBinding(attribute) && !isStyleBinding(attribute) && !isAnimationBinding(attribute),
+)
+
+/**
+ * A binding to a DOM event or to an output, as opposed to an animation callback.
+ */
+export const isEventBinding = tg.fp.and(isBoundEvent, event => !isAnimationEvent(event))
+
+export const isBindingTarget = tg.isInstanceOf(tn.BindingTargetTemplateNode)
+export const isPropertyBindingTarget = tg.isInstanceOf(tn.PropertyBindingTargetTemplateNode)
+export const isEventBindingTarget = tg.isInstanceOf(tn.EventBindingTargetTemplateNode)
+
+export const isExpression = tg.isInstanceOf(tn.ExpressionTemplateNode)
+export const isStatement = tg.isInstanceOf(tn.StatementTemplateNode)
+export const isThisReceiver = tg.isInstanceOf(en.ThisReceiverTemplateNode)
+export const isMemberAccess = tg.isInstanceOf(en.MemberAccessTemplateNode)
+export const isPropertyRead = tg.isInstanceOf(en.PropertyReadTemplateNode)
+export const isSafePropertyRead = tg.isInstanceOf(en.SafePropertyReadTemplateNode)
+export const isPropertyWrite = tg.isInstanceOf(en.PropertyWriteTemplateNode)
+export const isKeyedRead = tg.isInstanceOf(en.KeyedReadTemplateNode)
+export const isKeyedWrite = tg.isInstanceOf(en.KeyedWriteTemplateNode)
+export const isMethodCall = tg.isInstanceOf(en.MethodCallTemplateNode)
+export const isSafeMethodCall = tg.isInstanceOf(en.SafeMethodCallTemplateNode)
+export const isFunctionCall = tg.isInstanceOf(en.FunctionCallTemplateNode)
+export const isPipe = tg.isInstanceOf(en.PipeTemplateNode)
+export const isNonNullAssert = tg.isInstanceOf(en.NonNullAssertTemplateNode)
+export const isPrefixNot = tg.isInstanceOf(en.PrefixNotTemplateNode)
+export const isUnary = tg.isInstanceOf(en.UnaryTemplateNode)
+export const isBinary = tg.isInstanceOf(en.BinaryTemplateNode)
+export const isConditional = tg.isInstanceOf(en.ConditionalTemplateNode)
+export const isLiteralPrimitive = tg.isInstanceOf(en.LiteralPrimitiveTemplateNode)
+export const isLiteralArray = tg.isInstanceOf(en.LiteralArrayTemplateNode)
+export const isLiteralMap = tg.isInstanceOf(en.LiteralMapTemplateNode)
+
+export const isMicrosyntax = tg.isInstanceOf(mn.MicrosyntaxTemplateNode)
+export const isTemplateBinding = tg.isInstanceOf(mn.TemplateBindingTemplateNode)
+export const isExpressionBinding = tg.isInstanceOf(mn.ExpressionBindingTemplateNode)
+export const isVariableBinding = tg.isInstanceOf(mn.VariableBindingTemplateNode)
+
 // region Element
 
 export const isElementWithTagName = (tagName: string) =>
@@ -48,4 +103,20 @@ export const isTextAttributeWithName = (attributeName: string) =>
 export const isTextAttributeWithValue = (attributeValue: string) =>
   tg.fp.and(isTextAttribute, attribute => attribute.getValue() == attributeValue)
 
+export const isTemplateAttributeWithDirectiveName = (directiveName: string) =>
+  tg.fp.and(isTemplateAttribute, attribute => attribute.getDirectiveName() == directiveName)
+
 // endregion Attribute
+
+// region Expression
+
+export const isPropertyReadWithName = (name: string) =>
+  tg.fp.and(isPropertyRead, propertyRead => propertyRead.getName() == name)
+
+export const isMethodCallWithName = (name: string) =>
+  tg.fp.and(isMethodCall, methodCall => methodCall.getName() == name)
+
+export const isPipeWithName = (name: string) =>
+  tg.fp.and(isPipe, pipe => pipe.getName() == name)
+
+// endregion Expression
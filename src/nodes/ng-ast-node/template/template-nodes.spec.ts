@@ -0,0 +1,333 @@
+import * as chai from 'chai'
+import { createAppProject } from '../../../utils/test-utils'
+import {
+  isAnimationEvent,
+  isElementWithTagName,
+  isInterpolation,
+  isNgTemplate,
+  isPropertyRead,
+  isReference,
+  isStyleBinding,
+  isTemplateVariable,
+  isTextAttributeWithName,
+} from './template-nodes-type-guards'
+import { BoundEventTemplateNode } from './template-nodes'
+
+function createMatchingProject () {
+  return createAppProject({
+    '/app/counter.component.ts': `
+      import { Component, Input, Output, EventEmitter } from '@angular/core'
+
+      @Component({
+        selector: 'app-counter',
+        template: '{{ count }}',
+      })
+      export class CounterComponent {
+        @Input('start') count: number
+        @Output() countChange = new EventEmitter<number>()
+      }
+    `,
+    '/app/highlight.directive.ts': `
+      import { Directive, Input } from '@angular/core'
+
+      @Directive({
+        selector: '[appHighlight]:not(.disabled)',
+      })
+      export class HighlightDirective {
+        @Input() color: string
+      }
+    `,
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-root',
+        template: '<app-counter [start]="1" [(count)]="value" appHighlight color="red"></app-counter><p appHighlight class="disabled"></p>',
+      })
+      export class AppComponent {
+        value = 0
+      }
+    `,
+  }, ['AppComponent', 'CounterComponent', 'HighlightDirective'])
+}
+
+describe(`ElementLikeTemplateNode`, () => {
+
+  it(`finds the matched component and directives`, () => {
+    const template = createMatchingProject().getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+    const counter = template.getFirstTemplateNodeOrThrow(isElementWithTagName('app-counter'))
+    chai.assert.equal(counter.getMatchedComponentOrThrow().getName(), 'CounterComponent')
+    chai.assert.sameMembers(counter.getMatchedDirectives().map(directive => directive.getName()), ['HighlightDirective'])
+  })
+
+  it(`respects :not() in selectors`, () => {
+    const template = createMatchingProject().getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+    const paragraph = template.getFirstTemplateNodeOrThrow(isElementWithTagName('p'))
+    chai.assert.isUndefined(paragraph.getMatchedComponent())
+    chai.assert.lengthOf(paragraph.getMatchedDirectives(), 0)
+  })
+
+})
+
+describe(`AttributeTemplateNode`, () => {
+
+  it(`resolves bound inputs and outputs through aliases`, () => {
+    const template = createMatchingProject().getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+    const counter = template.getFirstTemplateNodeOrThrow(isElementWithTagName('app-counter'))
+
+    const start = counter.getFirstAttributeOrThrow(attribute => attribute.getName() == '[start]')
+    chai.assert.equal(start.getBoundInput()!.getPropertyName(), 'count')
+
+    const banana = counter.getFirstAttributeOrThrow(attribute => attribute.getName() == '[(count)]')
+    chai.assert.isUndefined(banana.getBoundInput())
+    chai.assert.equal(banana.getBoundOutput()!.getPropertyName(), 'countChange')
+
+    const color = counter.getFirstAttributeOrThrow(isTextAttributeWithName('color'))
+    chai.assert.equal(color.getBoundInput()!.getPropertyName(), 'color')
+  })
+
+})
+
+describe(`InterpolationTemplateNode`, () => {
+
+  function getTemplate (decoratorExtra: string, template: string) {
+    return createAppProject({
+      '/app/app.component.ts': `
+        import { Component } from '@angular/core'
+
+        @Component({
+          selector: 'app-root',
+          template: '${template}',${decoratorExtra}
+        })
+        export class AppComponent {
+        }
+      `,
+    }, ['AppComponent']).getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+  }
+
+  it(`splits text into text and interpolations`, () => {
+    const template = getTemplate('', `<p>Hello, {{ name }}! You have {{count}} messages.</p>`)
+    const paragraph = template.getFirstTemplateNodeOrThrow(isElementWithTagName('p'))
+    const children = paragraph.getChildren()
+    chai.assert.deepEqual(children.map(child => isInterpolation(child)), [false, true, false, true, false])
+    chai.assert.deepEqual(children.map(child => child.getLocationSpan().getText()), [
+      'Hello, ', '{{ name }}', '! You have ', '{{count}}', ' messages.',
+    ])
+    chai.assert.equal(template.getFirstTemplateNodeOrThrow(isPropertyRead).getName(), 'name')
+  })
+
+  it(`honors custom interpolation delimiters`, () => {
+    const template = getTemplate(`\n          interpolation: ['[[', ']]'],`, `<p>{{ literal }} [[ value ]]</p>`)
+    const interpolations = template.getTemplateNodes(isInterpolation)
+    chai.assert.lengthOf(interpolations, 1)
+    chai.assert.equal(interpolations[0].getText(), ' value ')
+  })
+
+  it(`changes the text of an interpolation and moves what follows`, () => {
+    const template = getTemplate('', `<p>{{  first  }} and {{ second }}</p>`)
+    const [first, second] = template.getTemplateNodes(isInterpolation)
+    first.trimText()
+    chai.assert.include(template.getText(), `<p>{{first}} and {{ second }}</p>`)
+    chai.assert.equal(second.getLocationSpan().getText(), '{{ second }}')
+    chai.assert.equal(second.getExpression()!.getLocationSpan().getText(), 'second')
+  })
+
+})
+
+describe(`Attribute classification`, () => {
+
+  it(`creates a dedicated node for each kind of binding`, () => {
+    const template = createAppProject({
+      '/app/app.component.ts': `
+        import { Component } from '@angular/core'
+
+        @Component({
+          selector: 'app-root',
+          template: '<div *ngIf="isOpen" [(ngModel)]="name" (click)="toggle()" on-blur="save()" [attr.aria-label]="label" [class.active]="isActive" [style.width.px]="width" [@fade]="state" (@fade.done)="onDone()" #box ref-other></div><ng-template let-item let-i="index"></ng-template>',
+        })
+        export class AppComponent {
+        }
+      `,
+    }, ['AppComponent']).getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+
+    const div = template.getFirstTemplateNodeOrThrow(isElementWithTagName('div'))
+    const attributes = div.getAttributes()
+    chai.assert.deepEqual(attributes.map(attribute => attribute.constructor.name), [
+      'TemplateAttributeTemplateNode',
+      'BananaInTheBoxTemplateNode',
+      'BoundEventTemplateNode',
+      'BoundEventTemplateNode',
+      'AttributeBindingTemplateNode',
+      'ClassBindingTemplateNode',
+      'StyleBindingTemplateNode',
+      'AnimationBindingTemplateNode',
+      'AnimationEventTemplateNode',
+      'ReferenceTemplateNode',
+      'ReferenceTemplateNode',
+    ])
+
+    const blur = div.getFirstAttributeOrThrow(attribute => attribute.getName() == 'on-blur') as BoundEventTemplateNode
+    chai.assert.equal(blur.getBindingTarget().getName(), 'blur')
+    chai.assert.equal(blur.getBindingTarget().getLocationSpan().getText(), 'on-blur')
+
+    const style = div.getFirstAttributeOrThrow(isStyleBinding)
+    chai.assert.equal(style.getStyleName(), 'width')
+    chai.assert.equal(style.getUnit(), 'px')
+    chai.assert.equal(div.getFirstAttributeOrThrow(isAnimationEvent).getPhase(), 'done')
+    chai.assert.deepEqual(div.getAttributes(isReference).map(reference => reference.getName()), ['box', 'other'])
+
+    const ngTemplate = template.getFirstTemplateNodeOrThrow(isNgTemplate)
+    chai.assert.deepEqual(ngTemplate.getAttributes(isTemplateVariable).map(variable => variable.getValue()), ['$implicit', 'index'])
+  })
+
+})
+
+function getExternalTemplate (template: string) {
+  return createAppProject({
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-root',
+        templateUrl: './app.component.html',
+      })
+      export class AppComponent {
+      }
+    `,
+    '/app/app.component.html': template,
+  }, ['AppComponent']).getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+}
+
+describe(`Changing the structure of a template`, () => {
+
+  it(`inserts nodes and moves what follows`, () => {
+    const template = getExternalTemplate(`<ul><li>A</li></ul><input><p>{{ value }}</p>`)
+    const list = template.getFirstTemplateNodeOrThrow(isElementWithTagName('ul'))
+    const [item] = list.getChildren()
+    const [last] = list.appendChild(`<li>C</li>`)
+    item.insertAfter(`<li>B</li>`)
+    const input = template.getFirstTemplateNodeOrThrow(isElementWithTagName('input'))
+    input.insertAfter(`<hr>`)
+    list.insertBefore(`<h1>{{ title }}</h1>`)
+
+    chai.assert.equal(template.getText(), `<h1>{{ title }}</h1><ul><li>A</li><li>B</li><li>C</li></ul><input><hr><p>{{ value }}</p>`)
+    chai.assert.equal(last.getTemplateParent(), list)
+    chai.assert.deepEqual(list.getChildren().map(child => child.getLocationSpan().getText()), [`<li>A</li>`, `<li>B</li>`, `<li>C</li>`])
+    chai.assert.deepEqual(template.getRoots().map(root => root.getLocationSpan().getText()), [
+      `<h1>{{ title }}</h1>`, `<ul><li>A</li><li>B</li><li>C</li></ul>`, `<input>`, `<hr>`, `<p>{{ value }}</p>`,
+    ])
+    chai.assert.deepEqual(template.getTemplateNodes(isPropertyRead).map(read => read.getLocationSpan().getText()), ['title', 'value'])
+  })
+
+  it(`removes and replaces nodes`, () => {
+    const template = getExternalTemplate(`<div><b>Old</b> text <i>gone</i></div><p>{{ value }}</p>`)
+    template.getFirstTemplateNodeOrThrow(isElementWithTagName('i')).remove()
+    const [strong] = template.getFirstTemplateNodeOrThrow(isElementWithTagName('b')).replaceWith(`<strong>New</strong>`)
+    chai.assert.equal(template.getText(), `<div><strong>New</strong> text </div><p>{{ value }}</p>`)
+    chai.assert.equal(strong.getTemplateParent(), template.getFirstTemplateNodeOrThrow(isElementWithTagName('div')))
+    chai.assert.equal(template.getFirstTemplateNodeOrThrow(isPropertyRead).getLocationSpan().getText(), 'value')
+  })
+
+  it(`wraps and unwraps a node`, () => {
+    const template = getExternalTemplate(`<ul><li *ngFor="let item of items">{{ item }}</li></ul>`)
+    const list = template.getFirstTemplateNodeOrThrow(isElementWithTagName('ul'))
+    const item = template.getFirstTemplateNodeOrThrow(isElementWithTagName('li'))
+
+    const container = item.wrapWith(`<ng-container *ngIf="isVisible"></ng-container>`)
+    chai.assert.equal(template.getText(), `<ul><ng-container *ngIf="isVisible"><li *ngFor="let item of items">{{ item }}</li></ng-container></ul>`)
+    chai.assert.deepEqual(list.getChildren(), [container])
+    chai.assert.deepEqual(container.getChildren(), [item])
+    chai.assert.equal(item.getTemplateParent(), container)
+    chai.assert.equal(container.getLocationSpan().getText(), `<ng-container *ngIf="isVisible"><li *ngFor="let item of items">{{ item }}</li></ng-container>`)
+
+    item.unwrap()
+    chai.assert.equal(template.getText(), `<ul><li *ngFor="let item of items">{{ item }}</li></ul>`)
+    chai.assert.deepEqual(list.getChildren(), [item])
+    chai.assert.equal(item.getTemplateParent(), list)
+    chai.assert.sameMembers(template.getTemplateNodes(isPropertyRead).map(read => read.getLocationSpan().getText()), ['items', 'item'])
+  })
+
+  it(`leaves the template alone when given invalid HTML`, () => {
+    const template = getExternalTemplate(`<p>Text</p>`)
+    const paragraph = template.getFirstTemplateNodeOrThrow(isElementWithTagName('p'))
+    chai.assert.throws(() => paragraph.appendChild(`<b>Bold</i>`), /valid HTML/)
+    chai.assert.throws(() => paragraph.wrapWith(`<div>Not empty</div>`), /without children/)
+    chai.assert.throws(() => paragraph.unwrap(), /child of an element/)
+    chai.assert.equal(template.getText(), `<p>Text</p>`)
+  })
+
+})
+
+describe(`Editing attributes`, () => {
+
+  it(`adds, changes and removes attributes, keeping the whitespace between them`, () => {
+    const template = getExternalTemplate(`<input\n  type='text'\n  disabled\n  size=10><p></p>`)
+    const input = template.getFirstTemplateNodeOrThrow(isElementWithTagName('input'))
+    const [type, disabled, size] = input.getAttributes()
+    type.changeValue('number')
+    disabled.changeValue('disabled')
+    size.changeValue('20')
+    const placeholder = input.addAttribute('placeholder', 'Age')
+    const click = input.addAttribute('(click)', 'select()')
+    chai.assert.equal(template.getText(), `<input\n  type='number'\n  disabled='disabled'\n  size='20'\n  placeholder='Age'\n  (click)='select()'><p></p>`)
+    chai.assert.instanceOf(click, BoundEventTemplateNode)
+    chai.assert.equal(input.getFirstAttributeOrThrow(isTextAttributeWithName('type')).getValue(), 'number')
+
+    input.removeAttribute(disabled)
+    input.removeAttribute(placeholder)
+    chai.assert.equal(template.getText(), `<input\n  type='number'\n  size='20'\n  (click)='select()'><p></p>`)
+    chai.assert.deepEqual(input.getAttributes().map(attribute => attribute.getLocationSpan().getText()), [`type='number'`, `size='20'`, `(click)='select()'`])
+    chai.assert.throws(() => input.removeAttribute(disabled), /belong/)
+
+    const paragraph = template.getFirstTemplateNodeOrThrow(isElementWithTagName('p'))
+    paragraph.addAttribute('hidden')
+    paragraph.addAttribute('title', `Say "hi"`, { quote: `'` })
+    chai.assert.equal(template.getText(), `<input\n  type='number'\n  size='20'\n  (click)='select()'><p hidden title='Say "hi"'></p>`)
+    chai.assert.throws(() => paragraph.addAttribute('lang', `it's`), /used around it/)
+  })
+
+  it(`writes a new value in the quotes which the other attributes use`, () => {
+    const template = getExternalTemplate(`<img src='photo.png' alt=Photo hidden><input disabled>`)
+    const image = template.getFirstTemplateNodeOrThrow(isElementWithTagName('img'))
+    image.getFirstAttributeOrThrow(isTextAttributeWithName('alt')).changeValue('A photo')
+    image.getFirstAttributeOrThrow(isTextAttributeWithName('hidden')).changeValue('hidden')
+    const input = template.getFirstTemplateNodeOrThrow(isElementWithTagName('input'))
+    input.getFirstAttributeOrThrow(isTextAttributeWithName('disabled')).changeValue('disabled')
+    chai.assert.equal(template.getText(), `<img src='photo.png' alt='A photo' hidden='hidden'><input disabled="disabled">`)
+    chai.assert.throws(() => image.getFirstAttributeOrThrow(isTextAttributeWithName('alt')).changeValue(`Bob's photo`), /used around it/)
+  })
+
+  it(`converts a text attribute to a property binding`, () => {
+    const template = getExternalTemplate(`<app-button size="large" label='Save'></app-button>`)
+    const button = template.getFirstTemplateNodeOrThrow(isElementWithTagName('app-button'))
+    const size = button.getFirstAttributeOrThrow(isTextAttributeWithName('size')).convertToBinding()
+    const label = button.getFirstAttributeOrThrow(isTextAttributeWithName('label')).convertToBinding()
+    chai.assert.equal(template.getText(), `<app-button [size]="'large'" [label]='"Save"'></app-button>`)
+    chai.assert.deepEqual(button.getAttributes(), [size, label])
+    chai.assert.equal(size.getTemplateParent(), button)
+    chai.assert.equal(size.getExpression()!.getLocationSpan().getText(), `'large'`)
+    chai.assert.equal(label.getValue(), `"Save"`)
+  })
+
+  it(`escapes quotes which would end the string literal of an inline template`, () => {
+    const project = createAppProject({
+      '/app/app.component.ts': `
+        import { Component } from '@angular/core'
+
+        @Component({
+          selector: 'app-root',
+          template: '<app-button size="large"></app-button>',
+        })
+        export class AppComponent {
+        }
+      `,
+    }, ['AppComponent'])
+    const component = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+    const template = component.getTemplate()
+    template.getFirstTemplateNodeOrThrow(isTextAttributeWithName('size')).convertToBinding()
+    project.save()
+    chai.assert.include(component.getClassDeclaration().getSourceFile().getFullText(), `template: '<app-button [size]="\\'large\\'"></app-button>',`)
+    chai.assert.equal(component.getTemplate(), template)
+  })
+
+})
@@ -1,27 +1,49 @@
 import { NgAstNode } from '../ng-ast-node'
 import { Project } from '../../../project'
 import { LocationSpan } from '../location'
-import { Template } from './template'
+import { Template, TokenPiece } from './template'
 import {
   isBananaInTheBox,
   isBoundAttribute,
   isBoundEvent,
+  isEventBinding,
+  isPropertyBinding,
   isReference,
+  isTemplateAttribute,
+  isTemplateVariable,
   isTextAttribute,
 } from './template-nodes-type-guards'
 import { getFirstElementOrThrow, getLastElementOrThrow, Predicate, TapFn, throwIfUndefined } from '../../../utils'
 import { getTokenTypeName, Token, TokenType } from './tokenizer/lexer'
+import { CssSelectorAttribute, SelectorMatchTarget } from '../directive/css-selector'
+import { Directive } from '../directive/directive'
+import { DirectiveInput, DirectiveOutput } from '../directive/bindings'
+import { Component } from '../component/component'
+import { ExpressionSyntaxError } from './expression/lexer'
+import { MicrosyntaxTemplateNode, VariableBindingTemplateNode } from './expression/microsyntax-nodes'
+import { MemberAccessTemplateNode } from './expression/expression-nodes'
+import { findUsages, TemplateDeclarationKind } from './template-scope'
+import * as tg from 'type-guards'
 
 export interface TextReplaceConfig {
   token: Token
   newText: string
 }
 
+export interface AddAttributeOptions {
+  /**
+   * The quotes around the value. By default, the ones of the element's other attributes are
+   * used, or double quotes if there are none.
+   */
+  quote: '"' | "'"
+}
+
 export abstract class TemplateNode extends NgAstNode {
 
   private parentTemplateNode?: TemplateNode
   private readonly template: Template
   private readonly tokens: Token[]
+  private readonly parsedExpressions = new Map<Token, { text: string, expression: ExpressionTemplateNode | undefined }>()
 
   protected constructor (
     project: Project,
@@ -36,7 +58,7 @@ export abstract class TemplateNode extends NgAstNode {
 
   public abstract getTemplateChildren (): TemplateNode[]
 
-  public setTemplateParent (templateParent: TemplateNode): void {
+  public setTemplateParent (templateParent: TemplateNode | undefined): void {
     this.parentTemplateNode = templateParent
   }
 
@@ -108,6 +130,98 @@ export abstract class TemplateNode extends NgAstNode {
     return throwIfUndefined(this.getDescendant(predicate), `Expected to find a descendant of kind.`)
   }
 
+  /**
+   * Inserts HTML right before this node, as its siblings. Like the other methods which
+   * change the structure of the template, this only works for a child of an element (or a
+   * root of the template): an element, text, an interpolation or a comment.
+   *
+   * @return The nodes created from the HTML.
+   * @throws Error - If the HTML is not valid.
+   */
+  public insertBefore (html: string): TemplateNode[] {
+    const { index } = this.getPlaceAmongSiblings()
+    const nodes = this.getTemplate()._insertHtml(this.getFirstTokenIndex(), html)
+    this.spliceSiblings(index, 0, nodes)
+    return nodes
+  }
+
+  /**
+   * Inserts HTML right after this node, as its siblings.
+   *
+   * @return The nodes created from the HTML.
+   * @throws Error - If the HTML is not valid.
+   */
+  public insertAfter (html: string): TemplateNode[] {
+    const { index } = this.getPlaceAmongSiblings()
+    const nodes = this.getTemplate()._insertHtml(this.getEndTokenIndex(), html)
+    this.spliceSiblings(index + 1, 0, nodes)
+    return nodes
+  }
+
+  /**
+   * Removes the node (with everything inside it) from the template. Whitespace around the
+   * node is kept.
+   */
+  public remove (): void {
+    const { index } = this.getPlaceAmongSiblings()
+    this.getTemplate()._removeTokens(this.getFirstTokenIndex(), this.getEndTokenIndex())
+    this.spliceSiblings(index, 1, [])
+    this.setTemplateParent(undefined)
+  }
+
+  /**
+   * @return The nodes created from the HTML.
+   * @throws Error - If the HTML is not valid.
+   */
+  public replaceWith (html: string): TemplateNode[] {
+    const nodes = this.insertBefore(html)
+    this.remove()
+    return nodes
+  }
+
+  /**
+   * Puts the node inside a new element, as in wrapping `<li>` with
+   * `<ng-container *ngIf="isVisible"></ng-container>`.
+   *
+   * @param html - A single element with an end tag and without children.
+   * @return The new element.
+   */
+  public wrapWith (html: string): ElementLikeTemplateNode {
+    const { index } = this.getPlaceAmongSiblings()
+    const template = this.getTemplate()
+    const start = this.getFirstTokenIndex()
+    const nodes = template._insertHtml(start, html)
+    const [wrapper] = nodes
+    if (nodes.length != 1 || !(wrapper instanceof ElementLikeTemplateNode) || wrapper.getChildren().length > 0 || !wrapper.hasEndTag()) {
+      template._removeTokens(start, this.getFirstTokenIndex())
+      throw new Error(`Expected "${html}" to be a single element with an end tag and without children.`)
+    }
+    this.spliceSiblings(index, 0, [wrapper])
+    template._moveTokens(this.getFirstTokenIndex(), this.getEndTokenIndex(), template.getTokenIndex(wrapper.getTagEndToken()))
+    this.spliceSiblings(index + 1, 1, [])
+    wrapper._spliceChildren(0, 0, [this])
+    return wrapper
+  }
+
+  /**
+   * Removes the element which this node is in, keeping all of its children (this node and
+   * its siblings) in its place. The opposite of {@link wrapWith}.
+   */
+  public unwrap (): void {
+    const parent = this.getTemplateParent()
+    if (!(parent instanceof ElementLikeTemplateNode) || !parent.getChildren().includes(this)) {
+      throw new Error(`Expected ${this.constructor.name} to be a child of an element.`)
+    }
+    const { index } = parent.getPlaceAmongSiblings()
+    const children = [...parent.getChildren()]
+    const template = this.getTemplate()
+    const endTagIndex = template.getTokenIndex(parent.getTagEndToken())
+    template._removeTokens(endTagIndex, endTagIndex + 1)
+    template._removeTokens(parent.getFirstTokenIndex(), children[0].getFirstTokenIndex())
+    parent.spliceSiblings(index, 1, children)
+    parent.setTemplateParent(undefined)
+  }
+
   protected _replaceTextByTokens (textReplaceConfigs: Iterable<TextReplaceConfig>) {
     for (const { token, newText } of textReplaceConfigs) {
       const diff = newText.length - token.locationSpan.getLength()
@@ -118,6 +232,40 @@ export abstract class TemplateNode extends NgAstNode {
     }
   }
 
+  /**
+   * Parses the expression which fills the given token, or gives the result of the previous
+   * parse if the text of the token hasn't changed since. The parsed expression becomes a
+   * child of this node.
+   *
+   * @param token - The token which holds the expression.
+   * @param parse - How to parse it; one of the parsing methods of the template.
+   * @throws ExpressionSyntaxError - If the expression is not valid.
+   */
+  protected getParsedExpression (token: Token, parse: (source: ExpressionSource) => ExpressionTemplateNode | undefined): ExpressionTemplateNode | undefined {
+    const text = token.toString()
+    const cached = this.parsedExpressions.get(token)
+    if (cached != null && cached.text == text) return cached.expression
+    const expression = parse({ token, offset: 0 })
+    if (expression != null) expression.setTemplateParent(this)
+    this.parsedExpressions.set(token, { text, expression })
+    return expression
+  }
+
+  /**
+   * Like {@link getParsedExpression}, but used when walking the tree, where an invalid
+   * expression shouldn't prevent visiting the rest of the template.
+   */
+  protected getParsedExpressionAsChildren (token: Token, parse: (source: ExpressionSource) => ExpressionTemplateNode | undefined): ExpressionTemplateNode[] {
+    try {
+      const expression = this.getParsedExpression(token, parse)
+      return expression == null ? [] : [expression]
+    } catch (error) {
+      if (!(error instanceof ExpressionSyntaxError)) throw error
+      console.warn(`${error.message} Skipping...`)
+      return []
+    }
+  }
+
   protected getTokens<T extends Token> (guard: (token: Token) => token is T): T[]
   protected getTokens (predicate: Predicate<Token>): Token[]
   protected getTokens (): Token[]
@@ -146,6 +294,46 @@ export abstract class TemplateNode extends NgAstNode {
     return template.getTokenIndex(firstToken)
   }
 
+  /**
+   * The index of the first token after this node (and everything inside it).
+   */
+  protected getEndTokenIndex (): number {
+    const end = this.getLocationSpan().getEnd().getOffset()
+    const tokens = this.getTemplate().getTokens()
+    let index = this.getFirstTokenIndex() + 1
+    while (index < tokens.length - 1 && tokens[index].locationSpan.getStart().getOffset() < end) {
+      index++
+    }
+    return index
+  }
+
+  /**
+   * Where the node is among the children of its element (or among the roots).
+   *
+   * @throws Error - If the node is not a child of an element nor a root, as is the case
+   * with attributes and expressions.
+   */
+  protected getPlaceAmongSiblings (): { siblings: TemplateNode[], index: number } {
+    const parent = this.getTemplateParent()
+    const siblings = parent == null
+      ? this.getTemplate().getRoots()
+      : parent instanceof ElementLikeTemplateNode ? parent.getChildren() : []
+    const index = siblings.indexOf(this)
+    if (index == -1) {
+      throw new Error(`Expected ${this.constructor.name} to be a child of an element or a root of the template.`)
+    }
+    return { siblings, index }
+  }
+
+  protected spliceSiblings (start: number, deleteCount: number, nodes: TemplateNode[]): void {
+    const parent = this.getTemplateParent()
+    if (parent instanceof ElementLikeTemplateNode) {
+      parent._spliceChildren(start, deleteCount, nodes)
+    } else {
+      this.getTemplate()._spliceRoots(start, deleteCount, nodes)
+    }
+  }
+
   protected forEachTokenAfterHere (fn: TapFn<Token>) {
     const lastToken = getLastElementOrThrow(this.tokens, `The tokens array is empty.`)
     const template = this.getTemplate()
@@ -189,6 +377,11 @@ export class TextTemplateNode extends TemplateNode {
 
 }
 
+/**
+ * An interpolation such as `{{ user.name }}`, made of three tokens: the start delimiter,
+ * the expression and the end delimiter. Its text is only the expression (including the
+ * surrounding whitespace), while its location span covers the delimiters as well.
+ */
 export class InterpolationTemplateNode extends TemplateNode {
 
   public constructor (project: Project,
@@ -207,8 +400,16 @@ export class InterpolationTemplateNode extends TemplateNode {
     return this.getTextToken().toString()
   }
 
+  /**
+   * @return The root of the interpolated expression, or `undefined` if it's empty.
+   * @throws ExpressionSyntaxError - If the expression is not valid.
+   */
+  public getExpression (): ExpressionTemplateNode | undefined {
+    return this.getParsedExpression(this.getTextToken(), source => this.getTemplate()._parseBinding(source))
+  }
+
   public getTemplateChildren (): TemplateNode[] {
-    return []
+    return this.getParsedExpressionAsChildren(this.getTextToken(), source => this.getTemplate()._parseBinding(source))
   }
 
   public changeText (newText: string): this {
@@ -223,18 +424,19 @@ export class InterpolationTemplateNode extends TemplateNode {
     return this.changeText(trimmedText)
   }
 
-
 }
 
 // endregion Text and interpolation
 
 // region Elements, ng-template and ng-container
 
-type AnyAttribute =
+export type AnyAttribute =
   TextAttributeTemplateNode
   | BoundAttributeTemplateNode
   | BoundEventTemplateNode
   | BananaInTheBoxTemplateNode
+  | TemplateAttributeTemplateNode
+  | TemplateVariableTemplateNode
   | ReferenceTemplateNode
 
 export abstract class ElementLikeTemplateNode extends TemplateNode {
@@ -243,6 +445,8 @@ export abstract class ElementLikeTemplateNode extends TemplateNode {
   protected boundAttributes: BoundAttributeTemplateNode[] = []
   protected boundEvents: BoundEventTemplateNode[] = []
   protected bananaInTheBoxes: BananaInTheBoxTemplateNode[] = []
+  protected templateAttributes: TemplateAttributeTemplateNode[] = []
+  protected templateVariables: TemplateVariableTemplateNode[] = []
   protected references: ReferenceTemplateNode[] = []
 
   public constructor (project: Project,
@@ -253,17 +457,25 @@ export abstract class ElementLikeTemplateNode extends TemplateNode {
                       protected children: TemplateNode[]) {
     super(project, locationSpan, tokens, template)
 
+    for (const child of children) {
+      child.setTemplateParent(this)
+    }
+
     for (const attribute of allAttributes) {
-      if (isTextAttribute(attribute)) this.textAttributes.push(attribute)
-      else if (isBoundAttribute(attribute)) this.boundAttributes.push(attribute)
-      else if (isBoundEvent(attribute)) this.boundEvents.push(attribute)
-      else if (isBananaInTheBox(attribute)) this.bananaInTheBoxes.push(attribute)
-      else if (isReference(attribute)) this.references.push(attribute)
-      else throw new Error(`Unexpected type of attribute ${(attribute as any).constructor.name}.`)
+      attribute.setTemplateParent(this)
     }
+    this.groupAttributesByKind()
   }
 
+  /**
+   * The attributes come first, so that walking the template also visits the expressions
+   * in bindings. Use {@link getChildren} for only the nested nodes.
+   */
   public getTemplateChildren (): TemplateNode[] {
+    return [...this.allAttributes, ...this.children]
+  }
+
+  public getChildren (): TemplateNode[] {
     return this.children
   }
 
@@ -277,6 +489,116 @@ export abstract class ElementLikeTemplateNode extends TemplateNode {
     return this.getFirstTokenOfTypeOrThrow(TokenType.TAG_CLOSE)
   }
 
+  /**
+   * Void elements (as in `<input>`) and self-closing ones (as in `<app-icon/>`) don't have one.
+   */
+  public hasEndTag (): boolean {
+    return this.getFirstTokenOfType(TokenType.TAG_CLOSE) != null
+  }
+
+  /**
+   * Inserts HTML at the end of the element, right before its end tag.
+   *
+   * @return The nodes created from the HTML.
+   * @throws Error - If the HTML is not valid, or if the element doesn't have an end tag.
+   */
+  public appendChild (html: string): TemplateNode[] {
+    if (!this.hasEndTag()) {
+      throw new Error(`Expected element at ${this.getLocationSpan().printLong()} to have an end tag.`)
+    }
+    const template = this.getTemplate()
+    const nodes = template._insertHtml(template.getTokenIndex(this.getTagEndToken()), html)
+    this._spliceChildren(this.children.length, 0, nodes)
+    return nodes
+  }
+
+  /**
+   * @internal
+   *
+   * Like `Array.prototype.splice` on the children. The template doesn't change, so this
+   * should only be called to reflect a change already made through the tokens.
+   */
+  public _spliceChildren (start: number, deleteCount: number, nodes: TemplateNode[]): void {
+    this.children.splice(start, deleteCount, ...nodes)
+    for (const node of nodes) {
+      node.setTemplateParent(this)
+    }
+  }
+
+  /**
+   * Adds an attribute after the existing ones. It's separated from them the same way the
+   * last attribute is from what comes before it (for example, by a line break and
+   * indentation), or by a single space if the element has no attributes yet.
+   *
+   * @param value - Without a value, the attribute is written without `=`, as in `<input disabled>`.
+   * @return The new attribute, which can be of any kind, as in `[value]` or `(click)`.
+   * @throws Error - If the value contains the quote used around it.
+   */
+  public addAttribute (name: string, value?: string, options: Partial<AddAttributeOptions> = {}): AnyAttribute {
+    const template = this.getTemplate()
+    const lastAttribute = this.allAttributes[this.allAttributes.length - 1]
+    const index = lastAttribute == null
+      ? template.getTokenIndex(this.getTagOpenStartToken()) + 1
+      : this.getStartTagTokenIndexAt(lastAttribute.getLocationSpan().getEnd().getOffset())
+    const separator = (lastAttribute != null && this.getWhitespaceBefore(lastAttribute)) || ' '
+    const quote = options.quote || this._getAttributeQuote()
+
+    let text = separator + name
+    const pieces: TokenPiece[] = [
+      { type: TokenType.TRIVIA, length: separator.length },
+      { type: TokenType.ATTR_NAME, length: name.length },
+    ]
+    if (value != null) {
+      if (value.includes(quote)) {
+        throw new Error(`Expected the value of attribute "${name}" not to contain ${quote}, which is used around it.`)
+      }
+      text += `=${quote}${value}${quote}`
+      pieces.push(
+        { type: TokenType.ATTR_EQUAL, length: 1 },
+        { type: TokenType.ATTR_QUOTE, length: 1 },
+        { type: TokenType.ATTR_VALUE, length: value.length },
+        { type: TokenType.ATTR_QUOTE, length: 1 },
+      )
+    }
+
+    const [, ...tokens] = template._insertTokens(index, text, pieces)
+    const attribute = template._createAttribute(tokens)
+    this._spliceAttributes(this.allAttributes.length, 0, [attribute])
+    return attribute
+  }
+
+  /**
+   * Removes the attribute together with the whitespace before it.
+   */
+  public removeAttribute (attribute: AttributeTemplateNode): void {
+    const index = this.allAttributes.indexOf(attribute as AnyAttribute)
+    if (index == -1) {
+      throw new Error(`Expected attribute "${attribute.getName()}" to belong to the element at ${this.getLocationSpan().printLong()}.`)
+    }
+    const template = this.getTemplate()
+    const locationSpan = attribute.getLocationSpan()
+    const end = this.getStartTagTokenIndexAt(locationSpan.getEnd().getOffset())
+    let start = this.getStartTagTokenIndexAt(locationSpan.getStart().getOffset())
+    if (template.getTokens()[start - 1].type == TokenType.TRIVIA) start--
+    template._removeTokens(start, end)
+    this._spliceAttributes(index, 1, [])
+    attribute.setTemplateParent(undefined)
+  }
+
+  /**
+   * @internal
+   *
+   * Like `Array.prototype.splice` on the attributes. The template doesn't change, so this
+   * should only be called to reflect a change already made through the tokens.
+   */
+  public _spliceAttributes (start: number, deleteCount: number, attributes: AnyAttribute[]): void {
+    this.allAttributes.splice(start, deleteCount, ...attributes)
+    for (const attribute of attributes) {
+      attribute.setTemplateParent(this)
+    }
+    this.groupAttributesByKind()
+  }
+
   public getStartTagNameLocationSpan (): LocationSpan {
     const token = this.getTagOpenStartToken()
     return token.locationSpan.clone().moveStartBy(1) // leading "<"
@@ -327,6 +649,143 @@ export abstract class ElementLikeTemplateNode extends TemplateNode {
     return this.getReferenceNamed(referenceName) != null
   }
 
+  /**
+   * The structural directive on the element, as in `*ngFor`. An element can have at most one.
+   */
+  public getTemplateAttribute (): TemplateAttributeTemplateNode | undefined {
+    return this.templateAttributes[0]
+  }
+
+  /**
+   * @see TemplateAttributeTemplateNode.getImplicitNgTemplate
+   */
+  public getImplicitNgTemplate (): ImplicitNgTemplateTemplateNode | undefined {
+    const templateAttribute = this.getTemplateAttribute()
+    return templateAttribute == null ? undefined : templateAttribute.getImplicitNgTemplate()
+  }
+
+  /**
+   * The element as seen by selectors: its tag name and the names of its attributes, inputs
+   * and outputs. Only plain attributes carry a value. References, variables, structural
+   * directives (`*ngIf`) and bindings to attributes, classes, styles and animations don't
+   * take part in matching.
+   */
+  public getSelectorMatchTarget (): SelectorMatchTarget {
+    const attributes: CssSelectorAttribute[] = []
+    for (const attribute of this.allAttributes) {
+      if (isTextAttribute(attribute)) {
+        attributes.push({ name: attribute.getName(), value: attribute.getValue() })
+      } else if (isPropertyBinding(attribute) || isEventBinding(attribute) || isBananaInTheBox(attribute)) {
+        attributes.push({ name: parseBindingName(attribute.getName()).name, value: '' })
+      }
+    }
+    return { tagName: this.getTagName(), attributes }
+  }
+
+  /**
+   * The component rendered by this element, found by matching selectors of components in
+   * the compilation scope of the module which declares the template's component.
+   *
+   * @return The matched component, or `undefined` if this is a plain element or if the template
+   * is not owned by a component.
+   */
+  public getMatchedComponent (): Component | undefined {
+    const components = this.getMatchedDeclarables().filter(tg.isInstanceOf(Component))
+    if (components.length > 1) {
+      const names = components.map(component => component.getName()).join(', ')
+      throw new Error(`Expected at most one component to match the element at ${this.getLocationSpan().printLong()}, but found ${names}.`)
+    }
+    return components[0]
+  }
+
+  public getMatchedComponentOrThrow (): Component {
+    return throwIfUndefined(this.getMatchedComponent(), `Expected a component to match the element at ${this.getLocationSpan().printLong()}.`)
+  }
+
+  /**
+   * Directives (not including the component) applied to this element.
+   *
+   * @see getMatchedComponent
+   */
+  public getMatchedDirectives (): Directive[] {
+    return this.getMatchedDeclarables().filter(directive => !(directive instanceof Component))
+  }
+
+  // region Internal
+
+  private groupAttributesByKind (): void {
+    this.textAttributes = []
+    this.boundAttributes = []
+    this.boundEvents = []
+    this.bananaInTheBoxes = []
+    this.templateAttributes = []
+    this.templateVariables = []
+    this.references = []
+    for (const attribute of this.allAttributes) {
+      if (isTextAttribute(attribute)) this.textAttributes.push(attribute)
+      else if (isBoundAttribute(attribute)) this.boundAttributes.push(attribute)
+      else if (isBoundEvent(attribute)) this.boundEvents.push(attribute)
+      else if (isBananaInTheBox(attribute)) this.bananaInTheBoxes.push(attribute)
+      else if (isTemplateAttribute(attribute)) this.templateAttributes.push(attribute)
+      else if (isTemplateVariable(attribute)) this.templateVariables.push(attribute)
+      else if (isReference(attribute)) this.references.push(attribute)
+      else throw new Error(`Unexpected type of attribute ${(attribute as any).constructor.name}.`)
+    }
+  }
+
+  /**
+   * The tokens of the start tag, from `<tag` up to `>` (or `/>`).
+   */
+  private getStartTagTokens (): Token[] {
+    const template = this.getTemplate()
+    const tokens = template.getTokens()
+    const start = template.getTokenIndex(this.getTagOpenStartToken())
+    let end = start + 1
+    while (end < tokens.length - 1 && tokens[end].type != TokenType.TAG_OPEN_END && tokens[end].type != TokenType.TAG_OPEN_END_VOID) {
+      end++
+    }
+    return tokens.slice(start, end + 1)
+  }
+
+  /**
+   * The index (in the template) of the token in the start tag which starts at the offset.
+   */
+  private getStartTagTokenIndexAt (offset: number): number {
+    const token = this.getStartTagTokens().find(token => token.locationSpan.getStart().getOffset() == offset)
+    if (token == null) {
+      throw new Error(`Expected a token to start at ${offset} in the start tag at ${this.getLocationSpan().printLong()}.`)
+    }
+    return this.getTemplate().getTokenIndex(token)
+  }
+
+  private getWhitespaceBefore (attribute: AttributeTemplateNode): string | undefined {
+    const start = attribute.getLocationSpan().getStart().getOffset()
+    const token = this.getStartTagTokens().find(token => token.locationSpan.getEnd().getOffset() == start)
+    return token != null && token.type == TokenType.TRIVIA ? token.toString() : undefined
+  }
+
+  /**
+   * @internal
+   *
+   * The quote used around the values of the other attributes, so that an edited value
+   * looks like its neighbours. Double quotes are used if there are none yet.
+   */
+  public _getAttributeQuote (): '"' | "'" {
+    const token = this.getStartTagTokens().find(token => token.type == TokenType.ATTR_QUOTE)
+    return token != null && token.toString() == `'` ? `'` : `"`
+  }
+
+  private getMatchedDeclarables (): Directive[] {
+    const component = this.getTemplate().getComponent()
+    if (component == null) return []
+    const target = this.getSelectorMatchTarget()
+    return component.getNgModule().getDeclarablesInScope()
+      .filter(tg.isInstanceOf(Directive))
+      .filter(directive => directive.getSelector().some(selector => selector.matches(target)))
+  }
+
+  // endregion Internal
+
 }
 
 export class ElementTemplateNode extends ElementLikeTemplateNode {
@@ -365,6 +824,69 @@ export class NgTemplateTemplateNode extends ElementLikeTemplateNode {
     return `ng-template`
   }
 
+  /**
+   * The variables declared with `let-` attributes.
+   */
+  public getTemplateVariables (): TemplateVariableTemplateNode[] {
+    return this.templateVariables
+  }
+
+}
+
+/**
+ * The `ng-template` which an element with a structural directive (as in `*ngFor`) is
+ * implicitly wrapped in. Its inputs and variables come from the microsyntax, and its only
+ * child is the element.
+ */
+export class ImplicitNgTemplateTemplateNode extends NgTemplateTemplateNode {
+
+  public constructor (project: Project,
+                      tokens: Token[],
+                      template: Template,
+                      protected templateAttribute: TemplateAttributeTemplateNode) {
+    super(project, templateAttribute.getElement().getLocationSpan(), tokens, template, [], [])
+    const parent = templateAttribute.getElement().getTemplateParent()
+    if (parent != null) this.setTemplateParent(parent)
+  }
+
+  public getTemplateAttribute (): TemplateAttributeTemplateNode {
+    return this.templateAttribute
+  }
+
+  public getElement (): ElementLikeTemplateNode {
+    return this.templateAttribute.getElement()
+  }
+
+  public getMicrosyntax (): MicrosyntaxTemplateNode | undefined {
+    return this.templateAttribute.getMicrosyntax()
+  }
+
+  public getTemplateChildren (): TemplateNode[] {
+    return [this.getElement()]
+  }
+
+  public getChildren (): TemplateNode[] {
+    return [this.getElement()]
+  }
+
+  /**
+   * Unlike with an explicit `ng-template`, variables are declared with `let` and `as` in
+   * the microsyntax, so {@link getTemplateVariables} gives nothing.
+   */
+  public getMicrosyntaxVariables (): VariableBindingTemplateNode[] {
+    const microsyntax = this.getMicrosyntax()
+    return microsyntax == null ? [] : microsyntax.getVariables()
+  }
+
+  /**
+   * The keys of expression bindings are the names of attributes, as in `[ngFor][ngForOf]`.
+   */
+  public getSelectorMatchTarget (): SelectorMatchTarget {
+    const microsyntax = this.getMicrosyntax()
+    const keys = microsyntax == null ? [this.templateAttribute.getDirectiveName()] : microsyntax.getExpressionBindings().map(binding => binding.getKey())
+    return { tagName: this.getTagName(), attributes: keys.map(name => ({ name, value: '' })) }
+  }
+
 }
 
 export class NgContainerTemplateNode extends ElementLikeTemplateNode {
@@ -404,6 +926,16 @@ export abstract class AttributeTemplateNode extends TemplateNode {
     return this.getFirstTokenOfType(TokenType.ATTR_VALUE)
   }
 
+  /**
+   * The value as written, with character references (as in `&amp;`) decoded.
+   *
+   * @return The value, or an empty string for an attribute without one (as in `<input disabled>`).
+   */
+  protected getValueText (): string {
+    const token = this.getValueToken()
+    return token == null ? '' : token.parts[0]
+  }
+
   public changeName (newName: string): this {
     this._replaceTextByTokens([
       { token: this.getNameToken(), newText: newName }
@@ -411,6 +943,201 @@ export abstract class AttributeTemplateNode extends TemplateNode {
     return this
   }
 
+  /**
+   * Changes the value, keeping the quotes around it. A value without quotes, or a missing
+   * one (as in `<input disabled>`), is written anew in the quotes which the other attributes
+   * of the element use.
+   *
+   * @throws Error - If the value contains the quote used around it.
+   */
+  public changeValue (newValue: string): this {
+    const quoteToken = this.getFirstTokenOfType(TokenType.ATTR_QUOTE)
+    const valueToken = this.getValueToken()
+    const quote = quoteToken == null ? this.getElement()._getAttributeQuote() : quoteToken.toString()
+    if (newValue.includes(quote)) {
+      throw new Error(`Expected the value of attribute "${this.getName()}" not to contain ${quote}, which is used around it.`)
+    }
+    if (quoteToken != null && valueToken != null) {
+      this._replaceTextByTokens([
+        { token: valueToken, newText: newValue },
+      ])
+      valueToken.parts = [newValue]
+    } else {
+      this.writeQuotedValue(newValue, quote)
+    }
+    return this
+  }
+
+  /**
+   * Changes the name of what the attribute binds to, keeping the binding syntax, as in
+   * `[(value)]` to `[(selection)]` or `on-click` to `on-select`.
+   */
+  public changeBindingName (newBindingName: string): this {
+    const name = this.getNameToken().toString()
+    const bindingName = parseBindingName(name).name
+    const suffixLength = name.endsWith(')]') ? 2 : name.endsWith(']') || name.endsWith(')') ? 1 : 0
+    const end = name.length - suffixLength
+    const start = end - bindingName.length
+    return this.changeName(name.slice(0, start) + newBindingName + name.slice(end))
+  }
+
+  /**
+   * Changes the attribute to set an input of the given name instead.
+   */
+  public changeBoundInputName (newInputName: string): this {
+    return this.changeBindingName(newInputName)
+  }
+
+  /**
+   * Changes the attribute to listen to an output of the given name instead.
+   */
+  public changeBoundOutputName (newOutputName: string): this {
+    return this.changeBindingName(newOutputName)
+  }
+
+  public abstract getName (): string
+
+  /**
+   * The element (or `ng-template`, or `ng-container`) which the attribute belongs to.
+   */
+  public getElement (): ElementLikeTemplateNode {
+    const parent = this.getTemplateParent()
+    if (parent == null || !(parent instanceof ElementLikeTemplateNode)) {
+      throw new Error(`Expected attribute "${this.getName()}" to belong to an element.`)
+    }
+    return parent
+  }
+
+  /**
+   * The input of the component or a directive on the element which this attribute sets.
+   * A plain attribute such as `<input type="text">` also sets an input named `type`, if
+   * there is one.
+   *
+   * @return The input, or `undefined` if the attribute doesn't set an input (for example,
+   * if it binds to a native property of the element).
+   */
+  public getBoundInput (): DirectiveInput | undefined {
+    const inputName = this.getInputName()
+    if (inputName == null) return undefined
+    for (const directive of this.getElementDirectives()) {
+      const input = directive.getInputByBindingName(inputName)
+      if (input != null) return input
+    }
+    return undefined
+  }
+
+  /**
+   * The output of the component or a directive on the element which this attribute listens to.
+   *
+   * @return The output, or `undefined` if the attribute doesn't listen to an output (for
+   * example, if it listens to a native DOM event).
+   */
+  public getBoundOutput (): DirectiveOutput | undefined {
+    const outputName = this.getOutputName()
+    if (outputName == null) return undefined
+    for (const directive of this.getElementDirectives()) {
+      const output = directive.getOutputByBindingName(outputName)
+      if (output != null) return output
+    }
+    return undefined
+  }
+
+  // region Internal
+
+  /**
+   * The name of the input which the attribute could set, if any.
+   */
+  protected getInputName (): string | undefined {
+    return undefined
+  }
+
+  /**
+   * The name of the output which the attribute could listen to, if any.
+   */
+  protected getOutputName (): string | undefined {
+    return undefined
+  }
+
+  /**
+   * Parses the value of the attribute. By default, the value is an expression whose value
+   * is bound; event bindings and structural directives parse it differently.
+   */
+  protected parseValue (source: ExpressionSource): ExpressionTemplateNode | undefined {
+    return this.getTemplate()._parseBinding(source)
+  }
+
+  /**
+   * @throws ExpressionSyntaxError - If the value is not a valid expression.
+   */
+  protected getValueExpression (): ExpressionTemplateNode | undefined {
+    const token = this.getValueToken()
+    return token == null ? undefined : this.getParsedExpression(token, source => this.parseValue(source))
+  }
+
+  protected getValueExpressionAsChildren (): ExpressionTemplateNode[] {
+    const token = this.getValueToken()
+    return token == null ? [] : this.getParsedExpressionAsChildren(token, source => this.parseValue(source))
+  }
+
+  /**
+   * Creates the node for the target of a binding, which spans the name of the attribute.
+   *
+   * @param name - The name of the target; by default, the name of the attribute without the binding syntax.
+   */
+  protected createBindingTarget<T extends BindingTargetTemplateNode> (
+    ctor: new (project: Project, locationSpan: LocationSpan, tokens: Token[], template: Template, text: string, name: string) => T,
+    name: string = parseBindingName(this.getName()).name,
+  ): T {
+    const token = this.getNameToken()
+    const target = new ctor(this.project, token.locationSpan, [token], this.getTemplate(), token.toString(), name)
+    target.setTemplateParent(this)
+    return target
+  }
+
+  /**
+   * Replaces everything after the name (nothing, or a value without quotes) with the value
+   * in quotes.
+   */
+  private writeQuotedValue (value: string, quote: string): void {
+    const template = this.getTemplate()
+    const tokens = this.getTokens()
+    const start = template.getTokenIndex(tokens[0]) + 1
+    template._removeTokens(start, this.getEndTokenIndex())
+    const valueTokens = template._insertTokens(start, `=${quote}${value}${quote}`, [
+      { type: TokenType.ATTR_EQUAL, length: 1 },
+      { type: TokenType.ATTR_QUOTE, length: 1 },
+      { type: TokenType.ATTR_VALUE, length: value.length },
+      { type: TokenType.ATTR_QUOTE, length: 1 },
+    ])
+    tokens.splice(1, tokens.length - 1, ...valueTokens)
+    this.getLocationSpan().setEnd(valueTokens[valueTokens.length - 1].locationSpan.getEnd())
+  }
+
+  private getElementDirectives (): Directive[] {
+    const element = this.getElement()
+    const component = element.getMatchedComponent()
+    const directives = element.getMatchedDirectives()
+    return component == null ? directives : [component, ...directives]
+  }
+
+  // endregion Internal
+
+}
+
+export type BindingKind = 'property' | 'event' | 'two-way' | 'plain'
+
+/**
+ * Strips the binding syntax from the name of an attribute, so `[foo]`, `bind-foo`, `(foo)`,
+ * `on-foo`, `[(foo)]` and `bindon-foo` all give `foo`.
+ */
+export function parseBindingName (name: string): { kind: BindingKind, name: string } {
+  if (name.startsWith('[(') && name.endsWith(')]')) return { kind: 'two-way', name: name.slice(2, -2) }
+  if (name.startsWith('bindon-')) return { kind: 'two-way', name: name.slice('bindon-'.length) }
+  if (name.startsWith('[') && name.endsWith(']')) return { kind: 'property', name: name.slice(1, -1) }
+  if (name.startsWith('bind-')) return { kind: 'property', name: name.slice('bind-'.length) }
+  if (name.startsWith('(') && name.endsWith(')')) return { kind: 'event', name: name.slice(1, -1) }
+  if (name.startsWith('on-')) return { kind: 'event', name: name.slice('on-'.length) }
+  return { kind: 'plain', name }
 }
 
 export class TextAttributeTemplateNode extends AttributeTemplateNode {
@@ -425,19 +1152,49 @@ export class TextAttributeTemplateNode extends AttributeTemplateNode {
   }
 
   public getName (): string {
-    return this.name
+    return this.getNameToken().toString()
   }
 
   public getValue (): string {
-    return this.value
+    return this.getValueText()
   }
 
   public getTemplateChildren (): TemplateNode[] {
     return []
   }
 
+  /**
+   * Turns the attribute into a property binding to the same string, as in `size="large"` to
+   * `[size]="'large'"`. The attribute is replaced by a new node in its place.
+   *
+   * @return The new property binding.
+   */
+  public convertToBinding (): BoundAttributeTemplateNode {
+    const element = this.getElement()
+    const quoteToken = this.getFirstTokenOfType(TokenType.ATTR_QUOTE)
+    const innerQuote = quoteToken != null && quoteToken.toString() == `'` ? `"` : `'`
+    const escapedValue = this.getValue().replace(/\\/g, `\\\\`).split(innerQuote).join(`\\${innerQuote}`)
+    this.changeName(`[${this.getName()}]`)
+    this.changeValue(innerQuote + escapedValue + innerQuote)
+
+    const binding = this.getTemplate()._createAttribute([...this.getTokens()])
+    if (!isBoundAttribute(binding)) {
+      throw new Error(`Expected "${this.getName()}" to be a property binding.`)
+    }
+    element._spliceAttributes(element.getAttributes().indexOf(this), 1, [binding])
+    this.setTemplateParent(undefined)
+    return binding
+  }
+
+  protected getInputName (): string | undefined {
+    return this.getNameToken().toString()
+  }
+
 }
 
+/**
+ * A property binding, as in `[value]="expression"` or `bind-value="expression"`.
+ */
 export class BoundAttributeTemplateNode extends AttributeTemplateNode {
 
   public constructor (project: Project,
@@ -450,19 +1207,140 @@ export class BoundAttributeTemplateNode extends AttributeTemplateNode {
   }
 
   public getName (): string {
-    return this.name
+    return this.getNameToken().toString()
   }
 
   public getValue (): string {
-    return this.value
+    return this.getValueText()
+  }
+
+  /**
+   * The parsed value of the binding, as in `user.name` from `[title]="user.name"`.
+   *
+   * @return The root of the expression, or `undefined` if the value is empty.
+   * @throws ExpressionSyntaxError - If the value is not a valid expression.
+   */
+  public getExpression (): ExpressionTemplateNode | undefined {
+    return this.getValueExpression()
+  }
+
+  /**
+   * The name of the attribute without the binding syntax, as in `title` from `[title]`.
+   */
+  public getBindingTarget (): PropertyBindingTargetTemplateNode {
+    return this.createBindingTarget(PropertyBindingTargetTemplateNode)
   }
 
   public getTemplateChildren (): TemplateNode[] {
-    return []
+    return this.getValueExpressionAsChildren()
+  }
+
+  protected getInputName (): string | undefined {
+    return parseBindingName(this.getName()).name
+  }
+
+}
+
+/**
+ * A binding to an attribute of the element rather than to a property, as in
+ * `[attr.aria-label]="label"`.
+ */
+export class AttributeBindingTemplateNode extends BoundAttributeTemplateNode {
+
+  public getAttributeName (): string {
+    return parseBindingName(this.getName()).name.slice('attr.'.length)
+  }
+
+  protected getInputName (): string | undefined {
+    return undefined
+  }
+
+}
+
+/**
+ * A binding which toggles a single class, as in `[class.active]="isActive"`.
+ */
+export class ClassBindingTemplateNode extends BoundAttributeTemplateNode {
+
+  public getClassName (): string {
+    return parseBindingName(this.getName()).name.slice('class.'.length)
+  }
+
+  protected getInputName (): string | undefined {
+    return undefined
+  }
+
+}
+
+/**
+ * A binding which sets a single style, optionally with a unit, as in `[style.width.px]="width"`.
+ */
+export class StyleBindingTemplateNode extends BoundAttributeTemplateNode {
+
+  public getStyleName (): string {
+    return this.getStyleParts()[0]
+  }
+
+  /**
+   * @return The unit, as in `px` from `[style.width.px]`, or `undefined` if there is none.
+   */
+  public getUnit (): string | undefined {
+    return this.getStyleParts()[1]
+  }
+
+  protected getInputName (): string | undefined {
+    return undefined
+  }
+
+  private getStyleParts (): string[] {
+    return parseBindingName(this.getName()).name.slice('style.'.length).split('.')
+  }
+
+}
+
+/**
+ * A binding to an animation trigger, as in `[@openClose]="state"`. A trigger can also be
+ * given a literal value, as in `@openClose="open"`, or no value at all (`@openClose`), in
+ * which case there is no expression.
+ */
+export class AnimationBindingTemplateNode extends BoundAttributeTemplateNode {
+
+  public getTriggerName (): string {
+    return this.getTargetName().slice(1)
+  }
+
+  /**
+   * Is the value a literal string rather than an expression, as in `@openClose="open"`?
+   */
+  public isLiteral (): boolean {
+    return this.getName().startsWith('@')
+  }
+
+  public getBindingTarget (): PropertyBindingTargetTemplateNode {
+    return this.createBindingTarget(PropertyBindingTargetTemplateNode, this.getTargetName())
+  }
+
+  protected getInputName (): string | undefined {
+    return undefined
+  }
+
+  protected getValueExpression (): ExpressionTemplateNode | undefined {
+    return this.isLiteral() ? undefined : super.getValueExpression()
+  }
+
+  protected getValueExpressionAsChildren (): ExpressionTemplateNode[] {
+    return this.isLiteral() ? [] : super.getValueExpressionAsChildren()
+  }
+
+  private getTargetName (): string {
+    return this.isLiteral() ? this.getName() : parseBindingName(this.getName()).name
   }
 
 }
 
+/**
+ * An event binding, as in `(click)="handler()"` or `on-click="handler()"`.
+ */
 export class BoundEventTemplateNode extends AttributeTemplateNode {
 
   public constructor (project: Project,
@@ -475,19 +1353,77 @@ export class BoundEventTemplateNode extends AttributeTemplateNode {
   }
 
   public getName (): string {
-    return this.name
+    return this.getNameToken().toString()
   }
 
   public getHandler (): string {
     return this.handler
   }
 
+  /**
+   * The parsed handler, as in `save($event)` from `(submit)="save($event)"`.
+   *
+   * @return The statement, or `undefined` if the attribute has no value.
+   * @throws ExpressionSyntaxError - If the handler is not valid.
+   */
+  public getStatement (): StatementTemplateNode | undefined {
+    return this.getValueExpression() as StatementTemplateNode | undefined
+  }
+
+  /**
+   * The name of the event, as in `click` from `(click)`.
+   */
+  public getBindingTarget (): EventBindingTargetTemplateNode {
+    return this.createBindingTarget(EventBindingTargetTemplateNode)
+  }
+
   public getTemplateChildren (): TemplateNode[] {
-    return []
+    return this.getValueExpressionAsChildren()
+  }
+
+  protected parseValue (source: ExpressionSource): StatementTemplateNode {
+    return this.getTemplate()._parseAction(source)
+  }
+
+  protected getOutputName (): string | undefined {
+    return parseBindingName(this.getName()).name
   }
 
 }
 
+export type AnimationPhase = 'start' | 'done'
+
+/**
+ * Listening to an animation callback, as in `(@openClose.done)="onDone($event)"`.
+ */
+export class AnimationEventTemplateNode extends BoundEventTemplateNode {
+
+  public getTriggerName (): string {
+    return this.getTargetParts()[0].slice(1)
+  }
+
+  /**
+   * @return The phase of the animation, or `undefined` if it's not given (which Angular
+   * reports as an error).
+   */
+  public getPhase (): AnimationPhase | undefined {
+    const phase = this.getTargetParts()[1]
+    return phase == 'start' || phase == 'done' ? phase : undefined
+  }
+
+  protected getOutputName (): string | undefined {
+    return undefined
+  }
+
+  private getTargetParts (): string[] {
+    return parseBindingName(this.getName()).name.split('.')
+  }
+
+}
+
+/**
+ * A two-way binding, as in `[(ngModel)]="name"` or `bindon-ngModel="name"`.
+ */
 export class BananaInTheBoxTemplateNode extends AttributeTemplateNode {
 
   public constructor (project: Project,
@@ -500,11 +1436,153 @@ export class BananaInTheBoxTemplateNode extends AttributeTemplateNode {
   }
 
   public getName (): string {
-    return this.name
+    return this.getNameToken().toString()
   }
 
   public getValue (): string {
-    return this.value
+    return this.getValueText()
+  }
+
+  /**
+   * The parsed value of the binding, which is both read and assigned to.
+   *
+   * @return The root of the expression, or `undefined` if the value is empty.
+   * @throws ExpressionSyntaxError - If the value is not a valid expression.
+   */
+  public getExpression (): ExpressionTemplateNode | undefined {
+    return this.getValueExpression()
+  }
+
+  /**
+   * The name of the property, as in `ngModel` from `[(ngModel)]`. The event is the same
+   * name followed by `Change`.
+   */
+  public getBindingTarget (): PropertyBindingTargetTemplateNode {
+    return this.createBindingTarget(PropertyBindingTargetTemplateNode)
+  }
+
+  public getTemplateChildren (): TemplateNode[] {
+    return this.getValueExpressionAsChildren()
+  }
+
+  protected getInputName (): string | undefined {
+    return parseBindingName(this.getName()).name
+  }
+
+  /**
+   * Since `[(foo)]` listens to `fooChange`, the new name must end with `Change` too, and
+   * the attribute becomes `[(bar)]` for `barChange`. This also changes the input it sets.
+   */
+  public changeBoundOutputName (newOutputName: string): this {
+    if (!newOutputName.endsWith('Change')) {
+      throw new Error(`Expected the output of "${this.getName()}" at ${this.getLocationSpan().printLong()} to be renamed to something ending with "Change", but got "${newOutputName}".`)
+    }
+    return this.changeBindingName(newOutputName.slice(0, -'Change'.length))
+  }
+
+  /**
+   * `[(foo)]` listens to `fooChange`.
+   */
+  protected getOutputName (): string | undefined {
+    return parseBindingName(this.getName()).name + 'Change'
+  }
+
+}
+
+/**
+ * The shorthand for a structural directive, as in `*ngIf="isOpen"`, which wraps the element
+ * in an implicit `ng-template`.
+ */
+export class TemplateAttributeTemplateNode extends AttributeTemplateNode {
+
+  private implicitNgTemplate?: ImplicitNgTemplateTemplateNode
+
+  public constructor (project: Project,
+                      locationSpan: LocationSpan,
+                      tokens: Token[],
+                      template: Template,
+                      protected name: string,
+                      protected value: string) {
+    super(project, locationSpan, tokens, template)
+  }
+
+  public getName (): string {
+    return this.getNameToken().toString()
+  }
+
+  /**
+   * The name without the leading asterisk, as in `ngIf` from `*ngIf`.
+   */
+  public getDirectiveName (): string {
+    return this.getName().slice(1)
+  }
+
+  public getValue (): string {
+    return this.getValueText()
+  }
+
+  /**
+   * The parsed value, as in `let item of items; trackBy: trackById`.
+   *
+   * @return The microsyntax, or `undefined` if the attribute has no value.
+   * @throws ExpressionSyntaxError - If the value is not valid.
+   */
+  public getMicrosyntax (): MicrosyntaxTemplateNode | undefined {
+    return this.getValueExpression() as MicrosyntaxTemplateNode | undefined
+  }
+
+  /**
+   * The `ng-template` which Angular wraps the element in. It isn't a part of the tree: the
+   * element keeps its parent.
+   */
+  public getImplicitNgTemplate (): ImplicitNgTemplateTemplateNode {
+    if (this.implicitNgTemplate == null) {
+      this.implicitNgTemplate = new ImplicitNgTemplateTemplateNode(this.project, this.getTokens(), this.getTemplate(), this)
+    }
+    return this.implicitNgTemplate
+  }
+
+  public getTemplateChildren (): TemplateNode[] {
+    return this.getValueExpressionAsChildren()
+  }
+
+  protected parseValue (source: ExpressionSource): MicrosyntaxTemplateNode {
+    return this.getTemplate()._parseMicrosyntax(source, this.getDirectiveName())
+  }
+
+}
+
+/**
+ * A variable declared on an `ng-template`, as in `let-item` or `let-i="index"`.
+ */
+export class TemplateVariableTemplateNode extends AttributeTemplateNode {
+
+  public constructor (project: Project,
+                      locationSpan: LocationSpan,
+                      tokens: Token[],
+                      template: Template,
+                      protected text: string,
+                      protected value: string) {
+    super(project, locationSpan, tokens, template)
+  }
+
+  public getName (): string {
+    return this.getNameToken().toString().slice('let-'.length)
+  }
+
+  /**
+   * The property of the template's context which the variable is bound to. Without a
+   * value, the variable is bound to `$implicit`.
+   */
+  public getValue (): string {
+    return this.getValueText() || '$implicit'
+  }
+
+  /**
+   * Identifiers in the template which refer to this variable.
+   */
+  public findUsages (): MemberAccessTemplateNode[] {
+    return findUsages(this.getTemplate(), declaration => declaration.kind == TemplateDeclarationKind.Variable && declaration.variable == this)
   }
 
   public getTemplateChildren (): TemplateNode[] {
@@ -525,12 +1603,40 @@ export class ReferenceTemplateNode extends AttributeTemplateNode {
   }
 
   public getName (): string {
-    // Remove leading '#'
-    return this.text.slice(1)
+    // Remove leading '#' or 'ref-'
+    const text = this.getNameToken().toString()
+    return text.startsWith('#') ? text.slice(1) : text.slice('ref-'.length)
   }
 
+  /**
+   * The name of the directive as given by its `exportAs`, as in `ngForm` from `#form="ngForm"`.
+   * Without a value, the reference points to the component or to the element itself.
+   */
   public getValue (): string {
-    return this.value
+    return this.getValueText()
+  }
+
+  /**
+   * What the reference points to: the directive whose `exportAs` is the value, the component
+   * on the element, or the element itself (an `ng-template` stands for its `TemplateRef`).
+   *
+   * @return The target, or `undefined` if no known directive is exported under the value.
+   */
+  public getTarget (): ElementLikeTemplateNode | Directive | undefined {
+    const element = this.getElement()
+    const component = element.getMatchedComponent()
+    const exportAs = this.getValue()
+    if (exportAs == '') return component != null ? component : element
+    const directives = component == null ? element.getMatchedDirectives() : [component, ...element.getMatchedDirectives()]
+    return directives.find(directive => directive.getExportAs().includes(exportAs))
+  }
+
+  /**
+   * Identifiers in the template which refer to this reference, as in each `form` from
+   * `form.reset()`.
+   */
+  public findUsages (): MemberAccessTemplateNode[] {
+    return findUsages(this.getTemplate(), declaration => declaration.kind == TemplateDeclarationKind.Reference && declaration.reference == this)
   }
 
   public getTemplateChildren (): TemplateNode[] {
@@ -626,18 +1732,111 @@ export class EventBindingTargetTemplateNode extends BindingTargetTemplateNode {
 
 }
 
-export class ExpressionTemplateNode extends TemplateNode {
+/**
+ * Where the text of an expression lives: a token of the template, and the offset within
+ * the token at which the expression starts.
+ */
+export interface ExpressionSource {
+  token: Token
+  offset: number
+}
 
-  public getTemplateChildren (): TemplateNode[] {
-    return []
+/**
+ * A node of a parsed Angular expression, such as a property read or a pipe.
+ *
+ * Offsets are kept relative to the token which holds the expression, and the span is
+ * computed on each request, so it follows the token when the template is edited. Changing
+ * the text of the expression itself makes the owner parse it again, so nodes obtained
+ * earlier shouldn't be used after that.
+ */
+export abstract class ExpressionTemplateNode extends TemplateNode {
+
+  public constructor (project: Project,
+                      template: Template,
+                      protected source: ExpressionSource,
+                      protected start: number,
+                      protected end: number) {
+    super(project, source.token.locationSpan.slice(source.offset + start, source.offset + end), [source.token], template)
   }
 
+  public getLocationSpan (): LocationSpan {
+    return this.getSpanWithin(this.start, this.end)
+  }
+
+  public abstract getTemplateChildren (): ExpressionTemplateNode[]
+
+  /**
+   * Replaces the whole expression (including its children) with the given text.
+   */
+  public replaceWithText (newText: string): void {
+    this._replaceExpressionText(this.start, this.end, newText)
+  }
+
+  /**
+   * The node which holds the whole expression: an attribute or an interpolation.
+   */
+  public getOwner (): TemplateNode {
+    let node: TemplateNode = this
+    while (node instanceof ExpressionTemplateNode) {
+      const parent = node.getTemplateParent()
+      if (parent == null) throw new Error(`Expected expression "${node.getText()}" to have a parent.`)
+      node = parent
+    }
+    return node
+  }
+
+  // region Internal
+
+  /**
+   * @internal
+   *
+   * The span of a part of the expression, given by offsets relative to the start of the
+   * expression (not to the start of this node).
+   */
+  protected getSpanWithin (start: number, end: number): LocationSpan {
+    const { token, offset } = this.source
+    return token.locationSpan.slice(offset + start, offset + end)
+  }
+
+  /**
+   * @internal
+   *
+   * Replaces the text between the given offsets, which are relative to the start of the
+   * expression.
+   */
+  protected _replaceExpressionText (start: number, end: number, newText: string): void {
+    const { token, offset } = this.source
+    const tokenText = token.toString()
+    const left = tokenText.slice(0, offset + start)
+    const right = tokenText.slice(offset + end)
+    this._replaceTextByTokens([{ token, newText: left + newText + right }])
+  }
+
+  // endregion Internal
+
 }
 
-export class StatementTemplateNode extends TemplateNode {
+/**
+ * The handler of an event binding: one or more expressions separated by semicolons, as in
+ * `(click)="save(); close()"`.
+ */
+export class StatementTemplateNode extends ExpressionTemplateNode {
 
-  public getTemplateChildren (): TemplateNode[] {
-    return []
+  public constructor (project: Project,
+                      template: Template,
+                      source: ExpressionSource,
+                      start: number,
+                      end: number,
+                      protected expressions: ExpressionTemplateNode[]) {
+    super(project, template, source, start, end)
+  }
+
+  public getExpressions (): ExpressionTemplateNode[] {
+    return this.expressions
+  }
+
+  public getTemplateChildren (): ExpressionTemplateNode[] {
+    return this.expressions
   }
 
 }
@@ -17,7 +17,8 @@ export class TemplatePrinter {
   }
 
   private printTemplateNode (templateNode: TemplateNode, indent: number): string {
-    const templateChildren = templateNode.getTemplateChildren()
+    // Attributes are printed on the same line as their element.
+    const templateChildren = templateNode.getTemplateChildren().filter(child => !tntg.isAttribute(child))
     const fullLine = prefixWithSpaces(indent, this.printLine(templateNode)) + ` ~ ` + templateNode.getLocationSpan().printMedium({oneBased: true})
     if (templateChildren.length > 0) {
       return fullLine + '\n' + templateChildren.map(child => this.printTemplateNode(child, indent + 1)).join('\n')
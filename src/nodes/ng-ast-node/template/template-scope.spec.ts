@@ -0,0 +1,115 @@
+import * as chai from 'chai'
+import { createAppProject } from '../../../utils/test-utils'
+import * as tng from './template-nodes-type-guards'
+import { TemplateDeclaration, TemplateDeclarationKind, TemplateScope } from './template-scope'
+import { Directive } from '../directive/directive'
+
+function getTemplate (template: string) {
+  const project = createAppProject({
+    '/form.directive.ts': `
+      import { Directive } from '@angular/core'
+
+      @Directive({
+        selector: 'form',
+        exportAs: 'ngForm',
+      })
+      export class FormDirective {
+      }
+    `,
+    '/child.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-child',
+        template: '',
+      })
+      export class ChildComponent {
+      }
+    `,
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+
+      class Base {
+        public select (item: any, index: number, event: any) {}
+      }
+
+      @Component({
+        selector: 'app-root',
+        template: '${template}',
+      })
+      export class AppComponent extends Base {
+        public title = 'Title'
+        public items = []
+      }
+    `,
+  }, ['AppComponent', 'ChildComponent', 'FormDirective'])
+  return project.getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+}
+
+function describeDeclaration (declaration: TemplateDeclaration | undefined): string | undefined {
+  if (declaration == null) return undefined
+  switch (declaration.kind) {
+    case TemplateDeclarationKind.ComponentMember:
+      return `member ${declaration.member.getName()}`
+    case TemplateDeclarationKind.Reference:
+      return `reference ${declaration.reference.getName()}`
+    case TemplateDeclarationKind.Variable:
+      return `variable ${declaration.variable.getName()}`
+    case TemplateDeclarationKind.Event:
+      return `event ${declaration.event.getName()}`
+  }
+}
+
+describe(`Template scope`, () => {
+
+  it(`resolves component members (including inherited ones), variables and $event`, () => {
+    const template = getTemplate(`<li *ngFor="let item of items; let i = index" (click)="select(item, i, $event)">{{ this.title }}{{ item }}</li><p *ngFor="let title of items">{{ title }}</p>`)
+    const declarations = template.getTemplateNodes(tng.isMemberAccess).map(node => `${node.getName()}: ${describeDeclaration(node.getDeclaration())}`)
+    chai.assert.sameMembers(declarations, [
+      `items: member items`,
+      `items: member items`,
+      `select: member select`,
+      `item: variable item`,
+      `item: variable item`,
+      `i: variable i`,
+      `$event: event (click)`,
+      `title: member title`,
+      `title: variable title`,
+    ])
+  })
+
+  it(`finds the targets and the usages of references`, () => {
+    const template = getTemplate(`<form #f="ngForm" #el><app-child #child></app-child><button (click)="f.reset(); child.open(el)">{{ f.valid }}</button></form>`)
+    const form = template.getFirstTemplateNodeOrThrow(tng.isElementWithTagName('form'))
+    const f = form.getReferenceNamedOrThrow('f')
+    chai.assert.equal((f.getTarget() as Directive).getName(), 'FormDirective')
+    chai.assert.equal(form.getReferenceNamedOrThrow('el').getTarget(), form)
+    const child = template.getFirstTemplateNodeOrThrow(tng.isElementWithTagName('app-child')).getReferenceNamedOrThrow('child')
+    chai.assert.equal((child.getTarget() as Directive).getName(), 'ChildComponent')
+
+    chai.assert.sameMembers(f.findUsages().map(usage => usage.getTemplateParent()!.getText()), ['f.reset()', 'f.valid'])
+    chai.assert.lengthOf(child.findUsages(), 1)
+  })
+
+  it(`limits references and variables to their ng-template`, () => {
+    const template = getTemplate(`<ng-template let-item #tpl><span #inner>{{ item }}{{ outer }}</span></ng-template><div *ngFor="let x of inner" #outer>{{ inner }}{{ tpl }}{{ outer }}</div>`)
+    const span = template.getFirstTemplateNodeOrThrow(tng.isElementWithTagName('span'))
+    const div = template.getFirstTemplateNodeOrThrow(tng.isElementWithTagName('div'))
+    const inTemplate = span.getDescendantOrThrow(tng.isPropertyReadWithName('outer'))
+    const inDiv = div.getDescendantOrThrow(tng.isPropertyReadWithName('outer'))
+    chai.assert.isUndefined(inTemplate.getDeclaration())
+    chai.assert.equal(describeDeclaration(inDiv.getDeclaration()), `reference outer`)
+    chai.assert.deepEqual(template.getTemplateNodes(tng.isPropertyReadWithName('inner')).map(node => node.getDeclaration()), [undefined, undefined])
+
+    const item = template.getFirstTemplateNodeOrThrow(tng.isPropertyReadWithName('item'))
+    const scope = TemplateScope.FromTemplateNode(item)
+    chai.assert.equal(scope.getNgTemplate(), template.getFirstTemplateNodeOrThrow(tng.isNgTemplate))
+    chai.assert.deepEqual(scope.getReferences().map(reference => reference.getName()), ['inner'])
+    chai.assert.deepEqual(scope.getParent()!.getReferences().map(reference => reference.getName()), ['tpl'])
+    chai.assert.equal(describeDeclaration(item.getDeclaration()), `variable item`)
+
+    const tpl = template.getFirstTemplateNodeOrThrow(tng.isPropertyReadWithName('tpl'))
+    chai.assert.equal(describeDeclaration(tpl.getDeclaration()), `reference tpl`)
+  })
+
+})
@@ -0,0 +1,224 @@
+import * as tsm from 'ts-morph'
+import * as tng from './template-nodes-type-guards'
+import { Template } from './template'
+import {
+  BoundEventTemplateNode,
+  ElementLikeTemplateNode,
+  NgTemplateTemplateNode,
+  ReferenceTemplateNode,
+  TemplateNode,
+  TemplateVariableTemplateNode,
+} from './template-nodes'
+import { VariableBindingTemplateNode } from './expression/microsyntax-nodes'
+import { MemberAccessTemplateNode } from './expression/expression-nodes'
+import { Component } from '../component/component'
+
+export enum TemplateDeclarationKind {
+  ComponentMember,
+  Reference,
+  Variable,
+  Event,
+}
+
+/**
+ * A member of the component class, as in `title` from `{{ title }}`.
+ */
+export interface ComponentMemberDeclaration {
+  kind: TemplateDeclarationKind.ComponentMember
+  component: Component
+  member: tsm.ClassInstanceMemberTypes
+}
+
+/**
+ * A template reference, as in `#form`.
+ */
+export interface ReferenceDeclaration {
+  kind: TemplateDeclarationKind.Reference
+  reference: ReferenceTemplateNode
+}
+
+/**
+ * A template variable, as in `let-item` on an `ng-template` or `let item` in `*ngFor`.
+ */
+export interface VariableDeclaration {
+  kind: TemplateDeclarationKind.Variable
+  variable: AnyTemplateVariable
+}
+
+/**
+ * The `$event` of an event binding.
+ */
+export interface EventDeclaration {
+  kind: TemplateDeclarationKind.Event
+  event: BoundEventTemplateNode
+}
+
+export type TemplateDeclaration =
+  ComponentMemberDeclaration |
+  ReferenceDeclaration |
+  VariableDeclaration |
+  EventDeclaration
+
+export type AnyTemplateVariable = TemplateVariableTemplateNode | VariableBindingTemplateNode
+
+/**
+ * The names visible from a part of a template. Each `ng-template` (including the implicit
+ * one of a structural directive) creates a new scope, nested in the scope where the
+ * `ng-template` is written. A scope holds the variables of its `ng-template` and the
+ * references on any element inside it (but not inside nested `ng-template`s). Names which
+ * are not found in any scope are looked up among the members of the component.
+ */
+export class TemplateScope {
+
+  /**
+   * The scope in which the node is evaluated. Note that the bindings written on an
+   * `ng-template` (and the microsyntax of a structural directive) are evaluated in the
+   * outer scope, while the other attributes of an element with a structural directive
+   * belong to the scope of its implicit `ng-template`.
+   */
+  public static FromTemplateNode (node: TemplateNode): TemplateScope {
+    return new TemplateScope(node.getTemplate(), getNgTemplateOf(node))
+  }
+
+  public constructor (private template: Template,
+                      private ngTemplate: NgTemplateTemplateNode | undefined) {
+  }
+
+  public getTemplate (): Template {
+    return this.template
+  }
+
+  /**
+   * @return The `ng-template` (explicit or implicit) which creates the scope, or `undefined`
+   * for the top-level scope of the template.
+   */
+  public getNgTemplate (): NgTemplateTemplateNode | undefined {
+    return this.ngTemplate
+  }
+
+  public getParent (): TemplateScope | undefined {
+    const ngTemplate = this.ngTemplate
+    if (ngTemplate == null) return undefined
+    const element = tng.isImplicitNgTemplate(ngTemplate) ? ngTemplate.getElement() : ngTemplate
+    return new TemplateScope(this.template, getOuterNgTemplateOf(element))
+  }
+
+  /**
+   * @throws ExpressionSyntaxError - If the microsyntax which declares the variables is not valid.
+   */
+  public getVariables (): AnyTemplateVariable[] {
+    const ngTemplate = this.ngTemplate
+    if (ngTemplate == null) return []
+    return tng.isImplicitNgTemplate(ngTemplate) ? ngTemplate.getMicrosyntaxVariables() : ngTemplate.getTemplateVariables()
+  }
+
+  public getReferences (): ReferenceTemplateNode[] {
+    const ngTemplate = this.ngTemplate
+    if (ngTemplate == null) return collectReferences(this.template.getRoots(), undefined)
+    if (tng.isImplicitNgTemplate(ngTemplate)) return collectReferences([ngTemplate.getElement()], ngTemplate.getElement())
+    return collectReferences(ngTemplate.getChildren(), undefined)
+  }
+
+  /**
+   * Finds what the name refers to, looking at this scope first, then at the outer scopes,
+   * and finally at the members of the component.
+   *
+   * @return The declaration, or `undefined` if the name is not declared anywhere.
+   */
+  public resolve (name: string): TemplateDeclaration | undefined {
+    for (let scope: TemplateScope | undefined = this; scope != null; scope = scope.getParent()) {
+      const variable = scope.getVariables().find(variable => variable.getName() == name)
+      if (variable != null) return { kind: TemplateDeclarationKind.Variable, variable }
+      const reference = scope.getReferences().find(reference => reference.getName() == name)
+      if (reference != null) return { kind: TemplateDeclarationKind.Reference, reference }
+    }
+    return this.resolveComponentMember(name)
+  }
+
+  /**
+   * Finds a member of the component (or one of its base classes), ignoring the variables
+   * and references, as for `this.name`.
+   */
+  public resolveComponentMember (name: string): ComponentMemberDeclaration | undefined {
+    const component = this.template.getComponent()
+    if (component == null) return undefined
+    let classDeclaration: tsm.ClassDeclaration | undefined = component.getClassDeclaration()
+    while (classDeclaration != null) {
+      const member = classDeclaration.getInstanceMember(name)
+      if (member != null) return { kind: TemplateDeclarationKind.ComponentMember, component, member }
+      classDeclaration = classDeclaration.getBaseClass()
+    }
+    return undefined
+  }
+
+}
+
+/**
+ * Finds the identifiers in the template which refer to the declaration, as in each `form`
+ * of `form.reset()` for the reference `#form`.
+ */
+export function findUsages (template: Template, isDeclaration: (declaration: TemplateDeclaration) => boolean): MemberAccessTemplateNode[] {
+  return template.getTemplateNodes(tng.isMemberAccess).filter(node => {
+    const declaration = node.getDeclaration()
+    return declaration != null && isDeclaration(declaration)
+  })
+}
+
+// region Internal
+
+function isExplicitNgTemplate (node: TemplateNode): node is NgTemplateTemplateNode {
+  return tng.isNgTemplate(node) && !tng.isImplicitNgTemplate(node)
+}
+
+function getNgTemplateOf (node: TemplateNode): NgTemplateTemplateNode | undefined {
+  if (tng.isImplicitNgTemplate(node)) return getOuterNgTemplateOf(node.getElement())
+  if (tng.isElementLike(node)) return getInnerNgTemplateOf(node)
+  if (tng.isAttribute(node)) {
+    const element = node.getElement()
+    const isOutside = tng.isTemplateAttribute(node) || isExplicitNgTemplate(element)
+    return isOutside ? getOuterNgTemplateOf(element) : getInnerNgTemplateOf(element)
+  }
+  const parent = node.getTemplateParent()
+  if (parent == null) return undefined
+  return tng.isElementLike(parent) ? getNgTemplateOfChildrenOf(parent) : getNgTemplateOf(parent)
+}
+
+/**
+ * The scope in which the element itself is written, outside of its implicit `ng-template`.
+ */
+function getOuterNgTemplateOf (element: ElementLikeTemplateNode): NgTemplateTemplateNode | undefined {
+  const parent = element.getTemplateParent()
+  return parent == null || !tng.isElementLike(parent) ? undefined : getNgTemplateOfChildrenOf(parent)
+}
+
+/**
+ * The scope of the element's attributes, which is its implicit `ng-template` if it has one.
+ */
+function getInnerNgTemplateOf (element: ElementLikeTemplateNode): NgTemplateTemplateNode | undefined {
+  const implicitNgTemplate = element.getImplicitNgTemplate()
+  return implicitNgTemplate != null ? implicitNgTemplate : getOuterNgTemplateOf(element)
+}
+
+function getNgTemplateOfChildrenOf (element: ElementLikeTemplateNode): NgTemplateTemplateNode | undefined {
+  return isExplicitNgTemplate(element) ? element : getInnerNgTemplateOf(element)
+}
+
+/**
+ * References on the given nodes and their descendants, skipping the ones which belong to
+ * nested `ng-template`s.
+ *
+ * @param ownElement - The element whose implicit `ng-template` creates the scope.
+ */
+function collectReferences (nodes: TemplateNode[], ownElement: ElementLikeTemplateNode | undefined): ReferenceTemplateNode[] {
+  const result: ReferenceTemplateNode[] = []
+  for (const node of nodes) {
+    if (!tng.isElementLike(node)) continue
+    if (node != ownElement && node.getTemplateAttribute() != null) continue
+    result.push(...node.getAttributes(tng.isReference))
+    if (isExplicitNgTemplate(node)) continue
+    result.push(...collectReferences(node.getChildren(), ownElement))
+  }
+  return result
+}
+
+// endregion Internal
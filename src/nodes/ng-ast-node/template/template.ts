@@ -2,13 +2,18 @@ import { NgAstNode } from '../ng-ast-node'
 import { Project } from '../../../project'
 import * as tg from 'type-guards'
 import * as templateNodeTypeGuards from './template-nodes-type-guards'
-import { RootLevelTemplateNode, TemplateNode } from './template-nodes'
-import { fromHtmlNode } from './factory'
+import { AnyAttribute, ExpressionSource, ExpressionTemplateNode, RootLevelTemplateNode, StatementTemplateNode, TemplateNode } from './template-nodes'
+import { fromAttribute, fromHtmlNode } from './factory'
 import { LocationSpan } from '../location'
-import { Predicate, TapFn, throwIfUndefined } from '../../../utils'
+import { getFirstElementOrThrow, Predicate, TapFn, throwIfUndefined } from '../../../utils'
 import { HtmlParser } from './tokenizer/html_parser'
 import { getHtmlTagDefinition } from './tokenizer/html_tags'
-import { Token, tokenize } from './tokenizer/lexer'
+import { Token, tokenize, tokenizeFile, TokenType } from './tokenizer/lexer'
+import { InterpolationConfig } from './tokenizer/interpolation_config'
+import { Attribute } from './tokenizer/ast'
+import { Component } from '../component/component'
+import { parseActionExpression, parseBindingExpression, parseMicrosyntax } from './expression/parser'
+import { MicrosyntaxTemplateNode } from './expression/microsyntax-nodes'
 
 const htmlParser = new HtmlParser()
 
@@ -20,20 +25,42 @@ export class TemplateConfig {
   ) {
   }
 
+  public getInterpolationStart (): string {
+    return this.interpolationDelimitersOpen
+  }
+
+  public getInterpolationEnd (): string {
+    return this.interpolationDelimitersClose
+  }
+
 }
 
 export const defaultTemplateConfig = new TemplateConfig('{{', '}}')
 
+function getInterpolationConfig (templateConfig: TemplateConfig): InterpolationConfig {
+  return InterpolationConfig.fromArray([templateConfig.getInterpolationStart(), templateConfig.getInterpolationEnd()])
+}
+
+/**
+ * A part of a token which is about to be split, given by its type and length.
+ */
+export interface TokenPiece {
+  type: TokenType
+  length: number
+}
+
 export class Template extends NgAstNode {
 
   public static FromLocationSpan (project: Project,
                                   locationSpan: LocationSpan,
-                                  templateConfig: TemplateConfig) {
+                                  templateConfig: TemplateConfig,
+                                  component?: Component) {
     const templateString = locationSpan.getText()
     const url = locationSpan.getFile().getUri()
-    const tokenizeResult = tokenize(templateString, url, getHtmlTagDefinition)
+    const interpolationConfig = getInterpolationConfig(templateConfig)
+    const tokenizeResult = tokenize(templateString, url, getHtmlTagDefinition, { interpolationConfig })
     const parseTreeResult = htmlParser.parse(tokenizeResult, url)
-    const template = new Template(project, locationSpan, tokenizeResult.tokens)
+    const template = new Template(project, locationSpan, tokenizeResult.tokens, component, templateConfig)
     const roots = parseTreeResult.rootNodes.flatMap(ngNode => fromHtmlNode(project, template, templateConfig, ngNode))
 
     if (!tg.isArrayOf(templateNodeTypeGuards.isRootLevel)(roots)) {
@@ -49,11 +76,25 @@ export class Template extends NgAstNode {
 
   public constructor (project: Project,
                       locationSpan: LocationSpan,
-                      private tokens: Token[]) {
+                      private tokens: Token[],
+                      private component?: Component,
+                      private templateConfig: TemplateConfig = defaultTemplateConfig) {
     super(project, locationSpan)
 
   }
 
+  /**
+   * The component which the template belongs to. Templates created from a bare string
+   * don't have one, and so can't resolve anything which depends on compilation scope.
+   */
+  public getComponent (): Component | undefined {
+    return this.component
+  }
+
+  public getTemplateConfig (): TemplateConfig {
+    return this.templateConfig
+  }
+
   public getTokens (): Token[] {
     return this.tokens
   }
@@ -112,6 +153,217 @@ export class Template extends NgAstNode {
     this._forEachTokenBetween(start, end, fn, { inclusiveStart: inclusive, inclusiveEnd: false })
   }
 
+  /**
+   * @internal
+   *
+   * Replaces a token with several consecutive tokens which cover the same text. Used when
+   * more than one template node is created from what the HTML tokenizer sees as a single
+   * token, such as text with interpolations.
+   *
+   * @param token - The token to replace.
+   * @param pieces - The types and lengths of the new tokens, which must add up to the length of the token.
+   * @return The new tokens.
+   */
+  public _splitToken (token: Token, pieces: TokenPiece[]): Token[] {
+    const index = this.getTokenIndex(token)
+    let offset = 0
+    const result = pieces.map(({ type, length }) => {
+      const locationSpan = token.locationSpan.slice(offset, offset + length)
+      offset += length
+      return new Token(type, [locationSpan.getText()], locationSpan)
+    })
+    if (offset != token.locationSpan.getLength()) {
+      throw new Error(`Expected the pieces to cover the whole token (${offset} instead of ${token.locationSpan.getLength()}).`)
+    }
+    this.tokens.splice(index, 1, ...result)
+    return result
+  }
+
+  /**
+   * @internal
+   *
+   * Writes the text right before the token at the given index, as new tokens of the given
+   * types. Unlike {@link _insertHtml}, the text is not tokenized, so the pieces must be what
+   * the lexer would have produced for it.
+   *
+   * @param pieces - The types and lengths of the new tokens, which must add up to the length of the text.
+   * @return The new tokens.
+   */
+  public _insertTokens (index: number, text: string, pieces: TokenPiece[]): Token[] {
+    const nextToken = this.getTokens()[index]
+    const file = nextToken.locationSpan.getFile()
+    const start = nextToken.locationSpan.getStart().getOffset()
+    if (pieces.reduce((length, piece) => length + piece.length, 0) != text.length) {
+      throw new Error(`Expected the pieces to cover the whole text "${text}".`)
+    }
+    file.replaceText(start, 0, text)
+    this._forEachTokenAfter(index, token => {
+      token.locationSpan.moveBy(text.length)
+    }, { inclusive: true })
+    let offset = start
+    const result = pieces.map(({ type, length }) => {
+      const locationSpan = LocationSpan.FromFile(file, offset, offset + length)
+      offset += length
+      return new Token(type, [locationSpan.getText()], locationSpan)
+    })
+    this.tokens.splice(index, 0, ...result)
+    return result
+  }
+
+  /**
+   * @internal
+   *
+   * Creates the node for an attribute which is already in the template, from its tokens:
+   * the name, optionally followed by the equals sign and the (quoted) value. The caller is
+   * responsible for giving the attribute its place among the attributes of an element.
+   */
+  public _createAttribute (tokens: Token[]): AnyAttribute {
+    const nameToken = getFirstElementOrThrow(tokens, `Expected the tokens of an attribute.`)
+    const valueToken = tokens.find(token => token.type == TokenType.ATTR_VALUE)
+    const end = tokens[tokens.length - 1].locationSpan.getEnd()
+    const locationSpan = new LocationSpan(nameToken.locationSpan.getStart(), end)
+    const value = valueToken == null ? '' : valueToken.parts[0]
+    const htmlAttribute = new Attribute(tokens, nameToken.toString(), value, locationSpan, valueToken && valueToken.locationSpan)
+    return fromAttribute(this.project, this, this.templateConfig, htmlAttribute)
+  }
+
+  /**
+   * @internal
+   *
+   * Writes the HTML right before the token at the given index, and creates template nodes
+   * for it. The caller is responsible for giving the nodes their place among the children
+   * of an element (or among the roots).
+   *
+   * @return The new nodes, in the order in which they're written.
+   * @throws Error - If the HTML is not valid, in which case nothing is changed.
+   */
+  public _insertHtml (index: number, html: string): RootLevelTemplateNode[] {
+    const interpolationConfig = getInterpolationConfig(this.templateConfig)
+    const url = this.getLocationSpan().getFile().getUri()
+    const { errors } = htmlParser.parse(tokenize(html, url, getHtmlTagDefinition, { interpolationConfig }), url)
+    if (errors.length > 0) {
+      throw new Error(`Expected valid HTML, but "${html}" has errors: ${errors.map(error => error.msg).join(' ')}`)
+    }
+
+    const nextToken = this.getTokens()[index]
+    const file = nextToken.locationSpan.getFile()
+    const offset = nextToken.locationSpan.getStart().getOffset()
+    file.replaceText(offset, 0, html)
+    this._forEachTokenAfter(index, token => {
+      token.locationSpan.moveBy(html.length)
+    }, { inclusive: true })
+
+    const range = { startPos: offset, endPos: offset + html.length, startLine: 0, startCol: 0 }
+    const tokenizeResult = tokenizeFile(file, getHtmlTagDefinition, { interpolationConfig, range })
+    const parseTreeResult = htmlParser.parse(tokenizeResult, file.getUri())
+    // The EOF token of the inserted part is not needed, since the template has its own.
+    this.tokens.splice(index, 0, ...tokenizeResult.tokens.slice(0, -1))
+
+    const nodes = parseTreeResult.rootNodes.flatMap(htmlNode => fromHtmlNode(this.project, this, this.templateConfig, htmlNode))
+    if (!tg.isArrayOf(templateNodeTypeGuards.isRootLevel)(nodes)) {
+      throw new Error(`Expected the nodes created from "${html}" to be roots.`)
+    }
+    return nodes
+  }
+
+  /**
+   * @internal
+   *
+   * Deletes the tokens from `start` up to (but not including) `end` together with their
+   * text, and moves the tokens after them back.
+   *
+   * @return The deleted tokens and their text.
+   */
+  public _removeTokens (start: number, end: number): { tokens: Token[], text: string } {
+    const tokens = this.getTokens()
+    const file = tokens[end].locationSpan.getFile()
+    const startOffset = tokens[start].locationSpan.getStart().getOffset()
+    const endOffset = tokens[end].locationSpan.getStart().getOffset()
+    const text = file.getContent().slice(startOffset, endOffset)
+    file.replaceText(startOffset, text.length, '')
+    const removedTokens = tokens.splice(start, end - start)
+    this._forEachTokenAfter(start, token => {
+      token.locationSpan.moveBy(-text.length)
+    }, { inclusive: true })
+    return { tokens: removedTokens, text }
+  }
+
+  /**
+   * @internal
+   *
+   * Moves the tokens from `start` up to (but not including) `end` together with their text,
+   * so that they end up right before the token at index `target` (which must be outside of
+   * the moved range). Nodes keep their tokens, so their location spans move along.
+   */
+  public _moveTokens (start: number, end: number, target: number): void {
+    const targetToken = this.getTokens()[target]
+    const { tokens, text } = this._removeTokens(start, end)
+    if (tokens.length == 0) return
+    const index = this.getTokenIndex(targetToken)
+    const offset = targetToken.locationSpan.getStart().getOffset()
+    targetToken.locationSpan.getFile().replaceText(offset, 0, text)
+    this._forEachTokenAfter(index, token => {
+      token.locationSpan.moveBy(text.length)
+    }, { inclusive: true })
+    const delta = offset - tokens[0].locationSpan.getStart().getOffset()
+    for (const token of tokens) {
+      token.locationSpan.moveBy(delta)
+    }
+    this.tokens.splice(index, 0, ...tokens)
+  }
+
+  /**
+   * @internal
+   *
+   * Like `Array.prototype.splice` on the roots. The template doesn't change, so this should
+   * only be called to reflect a change already made through the tokens.
+   */
+  public _spliceRoots (start: number, deleteCount: number, nodes: TemplateNode[]): void {
+    if (!tg.isArrayOf(templateNodeTypeGuards.isRootLevel)(nodes)) {
+      throw new Error(`Expected only elements, text, interpolations and comments as roots.`)
+    }
+    this.getRoots().splice(start, deleteCount, ...nodes)
+    for (const node of nodes) {
+      node.setTemplateParent(undefined)
+    }
+  }
+
+  /**
+   * @internal
+   *
+   * Parses the expression of a property binding or an interpolation into template nodes.
+   * The owner of the expression is responsible for setting itself as the parent.
+   *
+   * @param source - The token which holds the expression, and where in it the expression starts.
+   * @param text - The expression; by default, everything in the token after the offset.
+   */
+  public _parseBinding (source: ExpressionSource, text?: string): ExpressionTemplateNode | undefined {
+    const expressionText = text != null ? text : source.token.toString().slice(source.offset)
+    return parseBindingExpression(this.project, this, source, expressionText)
+  }
+
+  /**
+   * @internal
+   *
+   * Like {@link _parseBinding}, but for the handler of an event binding.
+   */
+  public _parseAction (source: ExpressionSource, text?: string): StatementTemplateNode {
+    const expressionText = text != null ? text : source.token.toString().slice(source.offset)
+    return parseActionExpression(this.project, this, source, expressionText)
+  }
+
+  /**
+   * @internal
+   *
+   * Like {@link _parseBinding}, but for the value of a structural directive's attribute.
+   *
+   * @param templateKey - The name of the attribute without the asterisk, as in `ngFor`.
+   */
+  public _parseMicrosyntax (source: ExpressionSource, templateKey: string, text?: string): MicrosyntaxTemplateNode {
+    const expressionText = text != null ? text : source.token.toString().slice(source.offset)
+    return parseMicrosyntax(this.project, this, source, expressionText, templateKey)
+  }
+
   /**
    * @internal
    *
@@ -38,6 +38,8 @@ export enum TokenType {
   EXPANSION_FORM_END,
   EOF,
   TRIVIA,
+  INTERPOLATION_START,
+  INTERPOLATION_END,
 }
 
 export function getTokenTypeName (tokenType: TokenType | undefined | null): string {
@@ -136,6 +138,18 @@ export function tokenize (
   return new _Tokenizer(new LocationFile(url, source), getTagDefinition, options).tokenize()
 }
 
+/**
+ * Like {@link tokenize}, but the tokens point into an existing file. Use `options.range`
+ * to tokenize only a part of it.
+ */
+export function tokenizeFile (
+  file: LocationFile,
+  getTagDefinition: (tagName: string) => TagDefinition,
+  options: TokenizeOptions = {},
+): TokenizeResult {
+  return new _Tokenizer(file, getTagDefinition, options).tokenize()
+}
+
 const _CR_OR_CRLF_REGEXP = /\r\n?/g
 
 function _unexpectedCharacterErrorMsg (charCode: number): string {
@@ -619,9 +633,11 @@ class _Tokenizer {
   }
 
   private _consumeTagOpenEnd () {
+    // The token starts before the slash, so that "/>" is not lost from the template's text.
+    const start = this._cursor.clone()
     const tokenType =
       this._attemptCharCode(chars.$SLASH) ? TokenType.TAG_OPEN_END_VOID : TokenType.TAG_OPEN_END
-    this._beginToken(tokenType)
+    this._beginToken(tokenType, start)
     this._requireCharCode(chars.$GT)
     this._endToken([])
   }
@@ -259,10 +259,11 @@ class _TreeBuilder {
     const fullName = this._getElementFullName(prefix, name, this._getParentElement())
     let selfClosing = false
     let closingTagToken: Token | undefined
+    let lastToken: Token | undefined
     // Note: There could have been a tokenizer error
     // so that we don't get a token for the end tag...
     if (this._peek.type === lex.TokenType.TAG_OPEN_END_VOID) {
-      this._advance()
+      lastToken = this._advance()
       selfClosing = true
       const tagDef = this.getTagDefinition(fullName)
       if (!(tagDef.canSelfClose || getNsPrefix(fullName) !== null || tagDef.isVoid)) {
@@ -271,9 +272,12 @@ class _TreeBuilder {
       }
     } else if (this._peek.type === lex.TokenType.TAG_OPEN_END) {
       closingTagToken = this._advance()
+      lastToken = closingTagToken
       selfClosing = false
     }
-    const end = this._peek.locationSpan.getStart()
+    // The end is shared with the last token of the start tag (not with the token after it),
+    // so that the span doesn't grow when text is inserted right after the element.
+    const end = lastToken != null ? lastToken.locationSpan.getEnd() : this._peek.locationSpan.getStart()
     const span = new LocationSpan(startTagToken.locationSpan.getStart(), end)
     const el = new html.Element(tokens, fullName, attrs, [], span, span, undefined)
     this._pushElement(el)
@@ -0,0 +1,520 @@
+import { isRedirectRoute, PRIMARY_OUTLET, RedirectRoute, Route } from './route'
+import { mapValues, throwIfUndefined } from '../../utils'
+
+/**
+ * A route which the router activates for a URL, as Angular's `ActivatedRouteSnapshot`.
+ */
+export interface RouteMatch {
+  readonly route: Route
+  readonly outlet: string
+  /**
+   * The URL segments which the route consumed, as `['users', '42']` for `users/:id`.
+   * Empty for a route with an empty path.
+   */
+  readonly segments: string[]
+  /**
+   * The parameters from the path, as `id` for `users/:id`, and the matrix parameters
+   * (as in `users/42;tab=info`) of the last segment which the route consumed.
+   */
+  readonly params: Map<string, string>
+  /**
+   * The activated child routes, the one in the primary outlet first.
+   */
+  readonly children: RouteMatch[]
+}
+
+export interface RedirectStep {
+  readonly route: RedirectRoute
+  /**
+   * The URL segments which the redirect matched, as `products/42`.
+   */
+  readonly from: string
+  /**
+   * Where the redirect leads, with the parameters filled in, as `items/42`. An absolute
+   * redirect, as `/shop/items/42`, starts matching again from the root.
+   */
+  readonly to: string
+}
+
+export interface UrlMatch {
+  /**
+   * The routes activated at the root, the one in the primary outlet first.
+   */
+  readonly routes: RouteMatch[]
+  /**
+   * The routes activated in the primary outlet, from the root down.
+   */
+  readonly chain: RouteMatch[]
+  /**
+   * The redirects which were followed, in order.
+   */
+  readonly redirects: RedirectStep[]
+  /**
+   * The query parameters, which an absolute redirect replaces with its own.
+   * A repeated parameter keeps its last value.
+   */
+  readonly queryParams: Map<string, string>
+  readonly fragment: string | undefined
+}
+
+/**
+ * Finds the routes which the router activates for the URL, following Angular's rules: routes
+ * are tried in order, `pathMatch: 'full'` needs the whole remaining URL, `**` matches anything,
+ * and a redirect matches again from the same routes (a relative one, which can't redirect
+ * again) or from the root (an absolute one). A route with a custom matcher never matches,
+ * since the matcher can't be run without the app.
+ *
+ * @param routes The root routes.
+ * @param url The URL, as in `/shop/items/42?tab=reviews`, where named outlets are written as in `/shop(sidebar:help)`.
+ * @return The match, or `undefined` if the router would report that it cannot match any routes.
+ */
+export function matchRoutes (routes: Route[], url: string): UrlMatch | undefined {
+  const redirects: RedirectStep[] = []
+  let urlTree = new UrlParser(url).parseUrlTree()
+  for (let absoluteRedirectCount = 0; absoluteRedirectCount <= MAX_ABSOLUTE_REDIRECTS; absoluteRedirectCount++) {
+    try {
+      const { segmentGroup } = split(urlTree.root, [], [], routes)
+      const matches = processSegmentGroup({ urlTree, redirects }, routes, segmentGroup, PRIMARY_OUTLET)
+      if (matches == null) return undefined
+      return {
+        routes: matches,
+        chain: getPrimaryChain(matches),
+        redirects,
+        queryParams: urlTree.queryParams,
+        fragment: urlTree.fragment,
+      }
+    } catch (error) {
+      if (!(error instanceof AbsoluteRedirect)) throw error
+      urlTree = error.urlTree
+    }
+  }
+  throw new Error(`Detected possible infinite redirect when matching "${url}".`)
+}
+
+// region Internal
+
+/**
+ * The same limit as Angular's.
+ */
+const MAX_ABSOLUTE_REDIRECTS = 31
+
+interface UrlSegment {
+  path: string
+  parameters: Map<string, string>
+}
+
+interface UrlSegmentGroup {
+  segments: UrlSegment[]
+  children: Map<string, UrlSegmentGroup>
+}
+
+interface UrlTree {
+  root: UrlSegmentGroup
+  queryParams: Map<string, string>
+  fragment: string | undefined
+}
+
+interface MatchContext {
+  urlTree: UrlTree
+  redirects: RedirectStep[]
+}
+
+interface MatchResult {
+  consumed: UrlSegment[]
+  positionalParams: Map<string, UrlSegment>
+}
+
+/**
+ * Thrown from wherever an absolute redirect matches, to start over with the new URL.
+ */
+class AbsoluteRedirect {
+  public constructor (public readonly urlTree: UrlTree) {
+  }
+}
+
+function processSegmentGroup (context: MatchContext, routes: Route[], segmentGroup: UrlSegmentGroup, outlet: string): RouteMatch[] | undefined {
+  if (segmentGroup.segments.length == 0 && segmentGroup.children.size > 0) {
+    return processChildren(context, routes, segmentGroup)
+  }
+  return processSegment(context, routes, segmentGroup, segmentGroup.segments, outlet, true)
+}
+
+function processChildren (context: MatchContext, routes: Route[], segmentGroup: UrlSegmentGroup): RouteMatch[] | undefined {
+  const result: RouteMatch[] = []
+  for (const [outlet, child] of segmentGroup.children) {
+    const matches = processSegmentGroup(context, routes, child, outlet)
+    if (matches == null) return undefined
+    result.push(...matches)
+  }
+  return result.sort((a, b) => {
+    if (a.outlet == PRIMARY_OUTLET) return -1
+    if (b.outlet == PRIMARY_OUTLET) return 1
+    return a.outlet.localeCompare(b.outlet)
+  })
+}
+
+function processSegment (context: MatchContext,
+                         routes: Route[],
+                         segmentGroup: UrlSegmentGroup,
+                         segments: UrlSegment[],
+                         outlet: string,
+                         allowRedirects: boolean): RouteMatch[] | undefined {
+  for (const route of routes) {
+    const redirectCount = context.redirects.length
+    const matches = isRedirectRoute(route)
+      ? (allowRedirects ? processSegmentAgainstRedirect(context, routes, route, segmentGroup, segments, outlet) : undefined)
+      : processSegmentAgainstRoute(context, route, segmentGroup, segments, outlet)
+    if (matches != null) return matches
+    // The redirect led nowhere, so it's not a part of the trace.
+    context.redirects.length = redirectCount
+  }
+  const hasLeftovers = segments.length > 0 || segmentGroup.children.has(outlet)
+  return hasLeftovers ? undefined : []
+}
+
+function processSegmentAgainstRedirect (context: MatchContext,
+                                        routes: Route[],
+                                        route: RedirectRoute,
+                                        segmentGroup: UrlSegmentGroup,
+                                        segments: UrlSegment[],
+                                        outlet: string): RouteMatch[] | undefined {
+  if (route.getOutlet() != outlet) return undefined
+  const result = matchRoute(route, segmentGroup, segments)
+  if (result == null) return undefined
+
+  const redirectTo = route.getRedirectTo()
+  const urlTree = applyRedirectCommands(context.urlTree, redirectTo, result.positionalParams)
+  if (redirectTo.startsWith('/')) {
+    context.redirects.push({ route, from: serializeSegments(result.consumed), to: serializeUrlTree(urlTree) })
+    throw new AbsoluteRedirect(urlTree)
+  }
+  const newSegments = linearizeSegments(urlTree, redirectTo)
+  context.redirects.push({ route, from: serializeSegments(result.consumed), to: serializeSegments(newSegments) })
+  const remainingSegments = segments.slice(result.consumed.length)
+  return processSegment(context, routes, segmentGroup, [...newSegments, ...remainingSegments], outlet, false)
+}
+
+function processSegmentAgainstRoute (context: MatchContext,
+                                     route: Route,
+                                     rawSegmentGroup: UrlSegmentGroup,
+                                     segments: UrlSegment[],
+                                     outlet: string): RouteMatch[] | undefined {
+  if (route.getOutlet() != outlet) return undefined
+  const result = matchRoute(route, rawSegmentGroup, segments)
+  if (result == null) return undefined
+
+  const childRoutes = route.getChildren()
+  const remainingSegments = segments.slice(result.consumed.length)
+  const { segmentGroup, slicedSegments } = split(rawSegmentGroup, result.consumed, remainingSegments, childRoutes)
+  const children = slicedSegments.length == 0 && segmentGroup.children.size > 0
+    ? processChildren(context, childRoutes, segmentGroup)
+    : processSegment(context, childRoutes, segmentGroup, slicedSegments, PRIMARY_OUTLET, true)
+  if (children == null) return undefined
+
+  return [{
+    route,
+    outlet,
+    segments: result.consumed.map(segment => segment.path),
+    params: getParams(result),
+    children,
+  }]
+}
+
+/**
+ * Angular's default URL matcher.
+ *
+ * @return The consumed segments, or `undefined` if the route doesn't match.
+ */
+function matchRoute (route: Route, segmentGroup: UrlSegmentGroup, segments: UrlSegment[]): MatchResult | undefined {
+  const path = route.getPath()
+  if (path == null) return undefined
+  if (path == '**') return { consumed: segments, positionalParams: new Map() }
+
+  const isFull = route.getPathMatch() == 'full'
+  if (path == '') {
+    if (isFull && (segmentGroup.children.size > 0 || segments.length > 0)) return undefined
+    return { consumed: [], positionalParams: new Map() }
+  }
+
+  const parts = path.split('/')
+  if (parts.length > segments.length) return undefined
+  if (isFull && (segmentGroup.children.size > 0 || parts.length < segments.length)) return undefined
+  const positionalParams = new Map<string, UrlSegment>()
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i]
+    if (part.startsWith(':')) {
+      positionalParams.set(part.substring(1), segments[i])
+    } else if (part != segments[i].path) {
+      return undefined
+    }
+  }
+  return { consumed: segments.slice(0, parts.length), positionalParams }
+}
+
+function getParams ({ consumed, positionalParams }: MatchResult): Map<string, string> {
+  const result = mapValues(positionalParams, segment => segment.path)
+  const lastSegment = consumed[consumed.length - 1]
+  if (lastSegment != null) {
+    for (const [name, value] of lastSegment.parameters) {
+      result.set(name, value)
+    }
+  }
+  return result
+}
+
+/**
+ * Regroups the segments left after a route so that child routes with an empty path get
+ * activated in named outlets too, next to the primary one.
+ */
+function split (segmentGroup: UrlSegmentGroup,
+                consumed: UrlSegment[],
+                slicedSegments: UrlSegment[],
+                routes: Route[]): { segmentGroup: UrlSegmentGroup, slicedSegments: UrlSegment[] } {
+  const isEmptyPathMatch = (route: Route) => {
+    if ((segmentGroup.children.size > 0 || slicedSegments.length > 0) && route.getPathMatch() == 'full') return false
+    return route.getPath() == '' && !isRedirectRoute(route)
+  }
+
+  if (slicedSegments.length > 0 && routes.some(route => isEmptyPathMatch(route) && route.getOutlet() != PRIMARY_OUTLET)) {
+    const children = new Map([[PRIMARY_OUTLET, { segments: slicedSegments, children: segmentGroup.children }]])
+    for (const route of routes) {
+      if (route.getPath() == '' && route.getOutlet() != PRIMARY_OUTLET) {
+        children.set(route.getOutlet(), { segments: [], children: new Map() })
+      }
+    }
+    return { segmentGroup: { segments: consumed, children }, slicedSegments: [] }
+  }
+
+  if (slicedSegments.length == 0 && routes.some(isEmptyPathMatch)) {
+    const children = new Map(segmentGroup.children)
+    for (const route of routes) {
+      if (isEmptyPathMatch(route) && !segmentGroup.children.has(route.getOutlet())) {
+        children.set(route.getOutlet(), { segments: [], children: new Map() })
+      }
+    }
+    return { segmentGroup: { segments: segmentGroup.segments, children }, slicedSegments }
+  }
+
+  return { segmentGroup, slicedSegments }
+}
+
+/**
+ * Creates the URL which a redirect leads to, filling in the `:param` segments from the matched
+ * path, and the `:param` query parameters from the current URL.
+ */
+function applyRedirectCommands (urlTree: UrlTree, redirectTo: string, positionalParams: Map<string, UrlSegment>): UrlTree {
+  const target = new UrlParser(redirectTo).parseUrlTree()
+  const queryParams = new Map<string, string>()
+  for (const [name, value] of target.queryParams) {
+    const actualValue = value.startsWith(':') ? urlTree.queryParams.get(value.substring(1)) : value
+    if (actualValue != null) {
+      queryParams.set(name, actualValue)
+    }
+  }
+  const substitute = (group: UrlSegmentGroup): UrlSegmentGroup => ({
+    segments: group.segments.map(segment => {
+      if (!segment.path.startsWith(':')) return segment
+      const message = `Cannot redirect to "${redirectTo}", since the route has no "${segment.path}".`
+      return throwIfUndefined(positionalParams.get(segment.path.substring(1)), message)
+    }),
+    children: mapValues(group.children, substitute),
+  })
+  return { root: substitute(target.root), queryParams, fragment: target.fragment }
+}
+
+function linearizeSegments (urlTree: UrlTree, redirectTo: string): UrlSegment[] {
+  const result: UrlSegment[] = []
+  let group = urlTree.root
+  while (true) {
+    result.push(...group.segments)
+    if (group.children.size == 0) return result
+    const primary = group.children.get(PRIMARY_OUTLET)
+    if (group.children.size > 1 || primary == null) {
+      throw new Error(`Only absolute redirects can have named outlets, but found "${redirectTo}".`)
+    }
+    group = primary
+  }
+}
+
+function getPrimaryChain (matches: RouteMatch[]): RouteMatch[] {
+  const result: RouteMatch[] = []
+  let match = matches.find(({ outlet }) => outlet == PRIMARY_OUTLET)
+  while (match != null) {
+    result.push(match)
+    match = match.children.find(({ outlet }) => outlet == PRIMARY_OUTLET)
+  }
+  return result
+}
+
+function serializeUrlTree ({ root, queryParams, fragment }: UrlTree): string {
+  const query = [...queryParams].map(([name, value]) => `${name}=${value}`).join('&')
+  return `/${serializeSegmentGroup(root, true)}` + (query == '' ? `` : `?${query}`) + (fragment == null ? `` : `#${fragment}`)
+}
+
+function serializeSegmentGroup (group: UrlSegmentGroup, isRoot: boolean): string {
+  const paths = serializeSegments(group.segments)
+  const primary = group.children.get(PRIMARY_OUTLET)
+  const primaryText = primary == null ? [] : [serializeSegmentGroup(primary, false)]
+  const namedTexts = [...group.children]
+    .filter(([outlet]) => outlet != PRIMARY_OUTLET)
+    .map(([outlet, child]) => `${outlet}:${serializeSegmentGroup(child, false)}`)
+  if (group.children.size == 0) return paths
+  if (isRoot) return primaryText.join('') + (namedTexts.length == 0 ? `` : `(${namedTexts.join('//')})`)
+  if (namedTexts.length == 0) return `${paths}/${primaryText.join('')}`
+  return `${paths}/(${[...primaryText, ...namedTexts].join('//')})`
+}
+
+function serializeSegments (segments: UrlSegment[]): string {
+  return segments.map(({ path, parameters }) => {
+    return path + [...parameters].map(([name, value]) => `;${name}=${value}`).join('')
+  }).join('/')
+}
+
+/**
+ * Parses URLs the way Angular's `DefaultUrlSerializer` does.
+ */
+class UrlParser {
+
+  private remaining: string
+
+  public constructor (private url: string) {
+    this.remaining = url
+  }
+
+  public parseUrlTree (): UrlTree {
+    const root = this.parseRootSegmentGroup()
+    const queryParams = this.parseQueryParams()
+    const fragment = this.consumeOptional('#') ? decodeURIComponent(this.remaining) : undefined
+    return { root, queryParams, fragment }
+  }
+
+  private parseRootSegmentGroup (): UrlSegmentGroup {
+    this.consumeOptional('/')
+    if (this.remaining == '' || this.peekStartsWith('?') || this.peekStartsWith('#')) {
+      return { segments: [], children: new Map() }
+    }
+    return { segments: [], children: this.parseChildren() }
+  }
+
+  private parseChildren (): Map<string, UrlSegmentGroup> {
+    if (this.remaining == '') return new Map()
+    this.consumeOptional('/')
+
+    const segments: UrlSegment[] = []
+    if (!this.peekStartsWith('(')) {
+      segments.push(this.parseSegment())
+    }
+    while (this.peekStartsWith('/') && !this.peekStartsWith('//') && !this.peekStartsWith('/(')) {
+      this.capture('/')
+      segments.push(this.parseSegment())
+    }
+
+    let children = new Map<string, UrlSegmentGroup>()
+    if (this.peekStartsWith('/(')) {
+      this.capture('/')
+      children = this.parseParens(true)
+    }
+    const result = this.peekStartsWith('(') ? this.parseParens(false) : new Map<string, UrlSegmentGroup>()
+    if (segments.length > 0 || children.size > 0) {
+      result.set(PRIMARY_OUTLET, { segments, children })
+    }
+    return result
+  }
+
+  private parseSegment (): UrlSegment {
+    const path = this.peekMatch(/^[^\/()?;=#]*/)
+    if (path == '' && this.peekStartsWith(';')) {
+      throw new Error(`Expected a path before the parameters in URL "${this.url}".`)
+    }
+    this.capture(path)
+    return { path: decodeURIComponent(path), parameters: this.parseMatrixParams() }
+  }
+
+  private parseMatrixParams (): Map<string, string> {
+    const result = new Map<string, string>()
+    while (this.consumeOptional(';')) {
+      const name = this.peekMatch(/^[^\/()?;=#]*/)
+      this.capture(name)
+      const value = this.consumeOptional('=') ? this.peekMatch(/^[^\/()?;=#]*/) : ''
+      this.capture(value)
+      if (name != '') {
+        result.set(decodeURIComponent(name), decodeURIComponent(value))
+      }
+    }
+    return result
+  }
+
+  private parseQueryParams (): Map<string, string> {
+    const result = new Map<string, string>()
+    if (!this.consumeOptional('?')) return result
+    do {
+      const name = this.peekMatch(/^[^=?&#]*/)
+      this.capture(name)
+      const value = this.consumeOptional('=') ? this.peekMatch(/^[^&#]*/) : ''
+      this.capture(value)
+      if (name != '') {
+        result.set(decodeQueryComponent(name), decodeQueryComponent(value))
+      }
+    } while (this.consumeOptional('&'))
+    return result
+  }
+
+  /**
+   * Parses the outlets in parentheses, as in `(sidebar:help//popup:compose)`. Only the ones
+   * after a slash, as in `/shop/(items//sidebar:help)`, can leave out the primary outlet's name.
+   */
+  private parseParens (allowPrimary: boolean): Map<string, UrlSegmentGroup> {
+    const result = new Map<string, UrlSegmentGroup>()
+    this.capture('(')
+    while (!this.consumeOptional(')') && this.remaining.length > 0) {
+      const path = this.peekMatch(/^[^\/()?;=#]*/)
+      const next = this.remaining[path.length]
+      if (next != '/' && next != ')' && next != ';') {
+        throw new Error(`Cannot parse URL "${this.url}".`)
+      }
+      const colonIndex = path.indexOf(':')
+      if (colonIndex == -1 && !allowPrimary) {
+        throw new Error(`Expected an outlet name in "${path}" in URL "${this.url}".`)
+      }
+      let outlet = PRIMARY_OUTLET
+      if (colonIndex != -1) {
+        outlet = path.slice(0, colonIndex)
+        this.capture(outlet)
+        this.capture(':')
+      }
+      const children = this.parseChildren()
+      const primary = children.get(PRIMARY_OUTLET)
+      result.set(outlet, children.size == 1 && primary != null ? primary : { segments: [], children })
+      this.consumeOptional('//')
+    }
+    return result
+  }
+
+  private peekStartsWith (text: string): boolean {
+    return this.remaining.startsWith(text)
+  }
+
+  private peekMatch (regex: RegExp): string {
+    const match = this.remaining.match(regex)
+    return match == null ? '' : match[0]
+  }
+
+  private consumeOptional (text: string): boolean {
+    if (!this.peekStartsWith(text)) return false
+    this.remaining = this.remaining.substring(text.length)
+    return true
+  }
+
+  private capture (text: string): void {
+    if (!this.consumeOptional(text)) {
+      throw new Error(`Expected "${text}" in URL "${this.url}".`)
+    }
+  }
+
+}
+
+function decodeQueryComponent (text: string): string {
+  return decodeURIComponent(text.replace(/\+/g, '%20'))
+}
+
+// endregion Internal
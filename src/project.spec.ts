@@ -0,0 +1,237 @@
+import * as chai from 'chai'
+import { createAppProject, createProject } from './utils/test-utils'
+import { PlatformKind } from './nodes/ng-ast-node/entry-point'
+import { isElementWithTagName } from './nodes/ng-ast-node/template/template-nodes-type-guards'
+
+const appModuleTs = `
+  import { NgModule } from '@angular/core'
+
+  @NgModule({})
+  export class AppModule {
+  }
+`
+
+const appServerModuleTs = `
+  import { NgModule } from '@angular/core'
+  import { AppModule } from './app.module'
+
+  @NgModule({
+    imports: [AppModule],
+  })
+  export class AppServerModule {
+  }
+`
+
+function createProjectWithTemplates () {
+  return createAppProject({
+    '/app/app.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-root',
+        templateUrl: './app.component.html',
+      })
+      export class AppComponent {
+      }
+    `,
+    '/app/app.component.html': `<div><app-card></app-card></div>`,
+    '/app/card.component.ts': `
+      import { Component } from '@angular/core'
+
+      @Component({
+        selector: 'app-card',
+        template: '<div>Card</div>',
+      })
+      export class CardComponent {
+      }
+    `,
+  }, ['AppComponent', 'CardComponent'])
+}
+
+describe(`Project`, () => {
+
+  describe(`getEntryPoints`, () => {
+
+    it(`finds platformBrowser().bootstrapModule`, () => {
+      const project = createProject({
+        '/main.ts': `
+          import { platformBrowser } from '@angular/platform-browser'
+          import { AppModule } from './app/app.module'
+          platformBrowser().bootstrapModule(AppModule)
+        `,
+        '/app/app.module.ts': appModuleTs,
+      })
+      const [entryPoint] = project.getEntryPoints()
+      chai.assert.equal(entryPoint.getPlatformKind(), PlatformKind.Browser)
+      chai.assert.equal(project.getBootstrapModule().getName(), 'AppModule')
+    })
+
+    it(`follows the platform through a variable`, () => {
+      const project = createProject({
+        '/main.ts': `
+          import { platformBrowserDynamic } from '@angular/platform-browser-dynamic'
+          import { AppModule } from './app/app.module'
+          const platform = platformBrowserDynamic()
+          platform.bootstrapModule(AppModule)
+        `,
+        '/app/app.module.ts': appModuleTs,
+      })
+      const [entryPoint] = project.getEntryPoints()
+      chai.assert.equal(entryPoint.getPlatformKind(), PlatformKind.BrowserDynamic)
+    })
+
+    it(`finds bootstrapModule wrapped in an HMR helper`, () => {
+      const project = createProject({
+        '/main.ts': `
+          import { platformBrowserDynamic } from '@angular/platform-browser-dynamic'
+          import { AppModule } from './app/app.module'
+          import { hmrBootstrap } from './hmr'
+          const bootstrap = () => platformBrowserDynamic().bootstrapModule(AppModule)
+          if (module['hot']) {
+            hmrBootstrap(module, bootstrap)
+          } else {
+            bootstrap()
+          }
+        `,
+        '/app/app.module.ts': appModuleTs,
+      })
+      chai.assert.lengthOf(project.getEntryPoints(), 1)
+      chai.assert.equal(project.getBootstrapModule().getName(), 'AppModule')
+    })
+
+    it(`finds the server module exported from the server's main file`, () => {
+      const project = createAppProject({
+        '/main.server.ts': `
+          export { AppServerModule } from './app/app.server.module'
+        `,
+        '/app/app.module.ts': appModuleTs,
+        '/app/app.server.module.ts': appServerModuleTs,
+      }, [], { serverMainFilePath: '/main.server.ts' })
+      const entryPoints = project.getEntryPoints()
+      chai.assert.sameOrderedMembers(entryPoints.map(entryPoint => entryPoint.getNgModule().getName()), ['AppModule', 'AppServerModule'])
+      chai.assert.sameOrderedMembers(entryPoints.map(entryPoint => entryPoint.isServer()), [false, true])
+      chai.assert.equal(project.getBootstrapModule().getName(), 'AppModule')
+    })
+
+    it(`throws when nothing is bootstrapped`, () => {
+      chai.assert.throws(() => createProject({ '/main.ts': `console.log('hello')` }), /bootstrapModule/)
+    })
+
+  })
+
+  describe(`save`, () => {
+
+    it(`writes edits of external and inline templates`, () => {
+      const project = createProjectWithTemplates()
+      chai.assert.isEmpty(project.getDirtyFiles())
+
+      const app = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+      app.getTemplate().getFirstTemplateNodeOrThrow(isElementWithTagName('div')).changeTagName('section')
+      const card = project.getComponentByClassNameIfSingleOrThrow('CardComponent')
+      card.getTemplate().getFirstTemplateNodeOrThrow(isElementWithTagName('div')).changeTagName('article')
+      chai.assert.sameMembers(project.getDirtyFiles().map(file => file.getUri()), ['/app/app.component.html', '/app/card.component.ts'])
+
+      project.save()
+      const fileSystem = project.tsMorphProject.getFileSystem()
+      chai.assert.equal(fileSystem.readFileSync('/app/app.component.html'), `<section><app-card></app-card></section>`)
+      chai.assert.include(fileSystem.readFileSync('/app/card.component.ts'), `template: '<article>Card</article>',`)
+      chai.assert.isEmpty(project.getDirtyFiles())
+    })
+
+    it(`gives the pending changes, and only the diff in a dry run`, () => {
+      const project = createProjectWithTemplates()
+      const card = project.getComponentByClassNameIfSingleOrThrow('CardComponent')
+      card.getTemplate().getFirstTemplateNodeOrThrow(isElementWithTagName('div')).changeTagName('article')
+
+      const [change] = project.getPendingChanges()
+      chai.assert.equal(change.filePath, '/app/card.component.ts')
+      chai.assert.include(change.before, `template: '<div>Card</div>',`)
+      chai.assert.include(change.after, `template: '<article>Card</article>',`)
+      chai.assert.include(change.diff, [
+        `-  template: '<div>Card</div>',`,
+        `+  template: '<article>Card</article>',`,
+      ].join('\n'))
+
+      chai.assert.equal(project.save({ dryRun: true }), change.diff)
+      const fileSystem = project.tsMorphProject.getFileSystem()
+      chai.assert.equal(fileSystem.readFileSync('/app/card.component.ts'), change.before)
+      project.save()
+      chai.assert.isEmpty(project.getPendingChanges())
+    })
+
+    it(`refuses to overwrite a file which was changed on the file system`, () => {
+      const project = createProjectWithTemplates()
+      const app = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+      app.getTemplate().getFirstTemplateNodeOrThrow(isElementWithTagName('div')).changeTagName('section')
+      const card = project.getComponentByClassNameIfSingleOrThrow('CardComponent')
+      card.renameSelector('app-user-card')
+
+      const fileSystem = project.tsMorphProject.getFileSystem()
+      fileSystem.writeFileSync('/app/app.component.html', `<p><app-card></app-card></p>`)
+      chai.assert.throws(() => project.save(), /app\.component\.html/)
+      chai.assert.equal(fileSystem.readFileSync('/app/app.component.html'), `<p><app-card></app-card></p>`)
+      chai.assert.include(fileSystem.readFileSync('/app/card.component.ts'), `selector: 'app-card',`)
+    })
+
+    it(`refuses to overwrite a TypeScript file which was changed on the file system`, () => {
+      const project = createProjectWithTemplates()
+      const app = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+      app.getTemplate().getFirstTemplateNodeOrThrow(isElementWithTagName('div')).changeTagName('section')
+      const card = project.getComponentByClassNameIfSingleOrThrow('CardComponent')
+      card.renameSelector('app-user-card')
+
+      const fileSystem = project.tsMorphProject.getFileSystem()
+      const changedText = fileSystem.readFileSync('/app/card.component.ts') + `\nexport const changedOnDisk = true\n`
+      fileSystem.writeFileSync('/app/card.component.ts', changedText)
+      chai.assert.throws(() => project.save(), /card\.component\.ts/)
+      chai.assert.equal(fileSystem.readFileSync('/app/card.component.ts'), changedText)
+      chai.assert.equal(fileSystem.readFileSync('/app/app.component.html'), `<div><app-card></app-card></div>`)
+    })
+
+    it(`saves a TypeScript file again after it was saved`, () => {
+      const project = createProjectWithTemplates()
+      const card = project.getComponentByClassNameIfSingleOrThrow('CardComponent')
+      card.renameSelector('app-user-card')
+      project.save()
+      card.renameSelector('app-profile-card')
+      project.save()
+      const fileSystem = project.tsMorphProject.getFileSystem()
+      chai.assert.include(fileSystem.readFileSync('/app/card.component.ts'), `selector: 'app-profile-card',`)
+    })
+
+  })
+
+  describe(`transaction`, () => {
+
+    it(`keeps the changes when the function returns`, () => {
+      const project = createProjectWithTemplates()
+      const result = project.transaction(() => {
+        project.getComponentByClassNameIfSingleOrThrow('CardComponent').renameSelector('app-user-card')
+        return 42
+      })
+      chai.assert.equal(result, 42)
+      chai.assert.sameMembers(project.getDirtyFiles().map(file => file.getUri()), ['/app/app.component.html', '/app/card.component.ts'])
+    })
+
+    it(`restores TypeScript and template files when the function throws`, () => {
+      const project = createProjectWithTemplates()
+      const app = project.getComponentByClassNameIfSingleOrThrow('AppComponent')
+      app.getTemplate().getFirstTemplateNodeOrThrow(isElementWithTagName('div')).changeTagName('section')
+
+      chai.assert.throws(() => project.transaction(() => {
+        project.getComponentByClassNameIfSingleOrThrow('CardComponent').renameSelector('app-user-card')
+        project.tsMorphProject.createSourceFile('/app/new.ts', `export const x = 1`)
+        throw new Error(`Oops.`)
+      }), /Oops/)
+
+      chai.assert.equal(project.getComponentByClassNameIfSingleOrThrow('CardComponent').getSelectorDefinition(), 'app-card')
+      const template = project.getComponentByClassNameIfSingleOrThrow('AppComponent').getTemplate()
+      chai.assert.equal(template.getText(), `<section><app-card></app-card></section>`)
+      chai.assert.isNotNull(template.getFirstTemplateNodeOrThrow(isElementWithTagName('app-card')).getMatchedComponent())
+      chai.assert.isUndefined(project.tsMorphProject.getSourceFile('/app/new.ts'))
+      chai.assert.deepEqual(project.getDirtyFiles().map(file => file.getUri()), ['/app/app.component.html'])
+    })
+
+  })
+
+})
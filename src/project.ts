@@ -1,5 +1,5 @@
 import * as tsMorph from 'ts-morph'
-import { ClassDeclaration, SyntaxKind, TypeGuards } from 'ts-morph'
+import { ClassDeclaration, SyntaxKind } from 'ts-morph'
 import { NgModule } from './nodes/ng-ast-node/ng-module'
 import { flatMap, throwIfLengthNotOne, throwIfUndefined } from './utils'
 import { Component } from './nodes/ng-ast-node/component/component'
@@ -7,14 +7,71 @@ import * as path from 'path'
 import { Declarable } from './nodes/ng-ast-node/declarable'
 import { createDeclarable } from './nodes/ng-ast-node/declarable-factory'
 import { Routes } from './nodes/ng-ast-node/routes'
-import { LocationFileManager } from './nodes/ng-ast-node/location'
+import { LocationFile, LocationFileManager, LocationSpan } from './nodes/ng-ast-node/location'
+import { EntryPoint, findEntryPointCandidates } from './nodes/ng-ast-node/entry-point'
+import { DependencyInjectionGraph } from './nodes/ng-ast-node/injector'
+import { DependencyConsumer, Injectable } from './nodes/ng-ast-node/injectable/injectable'
+import { ProviderToken } from './nodes/ng-ast-node/provider'
+import { Pipe } from './nodes/ng-ast-node/pipe/pipe'
+import { findPipeUsagesInTemplate, PipeUsage } from './nodes/ng-ast-node/pipe/pipe-usage'
+import { DirectiveBinding, DirectiveInput, DirectiveOutput } from './nodes/ng-ast-node/directive/bindings'
+import { AttributeTemplateNode } from './nodes/ng-ast-node/template/template-nodes'
+import { isAttribute } from './nodes/ng-ast-node/template/template-nodes-type-guards'
+import { createUnifiedDiff } from './utils/unified-diff'
+import { createRouteTable, RouteTableEntry } from './nodes/ng-ast-node/route-table'
+import { matchRoutes, UrlMatch } from './nodes/ng-ast-node/url-matcher'
 
 export interface Singletons {
   readonly locationFileManager: LocationFileManager
 }
 
-const defaultSingletons: Singletons = {
-  locationFileManager: new LocationFileManager()
+function createDefaultSingletons (tsMorphProject: tsMorph.Project): Singletons {
+  return {
+    locationFileManager: new LocationFileManager(tsMorphProject.getFileSystem()),
+  }
+}
+
+export interface ProjectConfig {
+  /**
+   * Path to the file which bootstraps the application, usually `main.ts`. When loading
+   * a project through a {@link Workspace}, this is `architect.build.options.main`.
+   */
+  readonly mainFilePath: string
+  /**
+   * Path to the `tsconfig.json` used to build the application, if known.
+   */
+  readonly tsConfigFilePath?: string
+  /**
+   * Path to the file with the server-side entry point (`architect.server.options.main`), if any.
+   */
+  readonly serverMainFilePath?: string
+}
+
+/**
+ * A file which {@link Project.save} would write.
+ */
+export interface PendingChange {
+  readonly filePath: string
+  /**
+   * The content as it was read from the file system (empty for a new file).
+   */
+  readonly before: string
+  readonly after: string
+  /**
+   * The change in the unified format (the one of `git diff`).
+   */
+  readonly diff: string
+}
+
+export interface SaveOptions {
+  /**
+   * Only give back the diff, without writing anything.
+   */
+  readonly dryRun: boolean
+}
+
+const defaultProjectConfig: ProjectConfig = {
+  mainFilePath: `main.ts`,
 }
 
 
@@ -22,12 +79,28 @@ export class Project {
 
   private bootstrapModule!: NgModule
 
+  private entryPoints: EntryPoint[] = []
+
+  private dependencyInjectionGraph?: DependencyInjectionGraph
+
   private registeredNgModules: NgModule[] = []
 
   private allDeclarables: Declarable[] = []
 
   private builtInNgModules: NgModule[] = []
 
+  private injectables?: Injectable[]
+
+  private compilerOptions?: tsMorph.CompilerOptions
+
+  /**
+   * The text of each TypeScript file as it was on the file system when it was loaded or last
+   * saved, to tell whether it was changed there since.
+   */
+  private savedSourceFileTexts = new Map<string, string>()
+
+  public readonly config: ProjectConfig
+
   public isClassDeclarationForRouterModule (classDeclaration: ClassDeclaration): boolean {
     const routerModule = this.getRouterModule()
     if (routerModule == null) return false
@@ -43,15 +116,31 @@ export class Project {
   }
 
   constructor (public readonly tsMorphProject: tsMorph.Project,
-               public readonly singletons: Singletons = defaultSingletons) {
+               public readonly singletons: Singletons = createDefaultSingletons(tsMorphProject),
+               config: Partial<ProjectConfig> = {}) {
+    this.config = { ...defaultProjectConfig, ...config }
     this.setUpBuiltInNgModules()
     this.setUp()
   }
 
+  /**
+   * The module bootstrapped in the browser. When an application is only bootstrapped on the
+   * server, this is the server module.
+   *
+   * @see getEntryPoints
+   */
   public getBootstrapModule (): NgModule {
     return this.bootstrapModule
   }
 
+  /**
+   * All places where a module is bootstrapped, in the main file and (if configured) in the
+   * server's main file.
+   */
+  public getEntryPoints (): EntryPoint[] {
+    return this.entryPoints
+  }
+
   public getNgModules (): NgModule[] {
     return this.registeredNgModules
   }
@@ -145,6 +234,233 @@ export class Project {
     return declarable
   }
 
+  public getDeclarables (): Declarable[] {
+    return this.allDeclarables
+  }
+
+  /**
+   * All classes decorated with `@Injectable` in the project's own source files (declaration
+   * files and `node_modules` are not searched). Collected on the first call.
+   */
+  public getInjectables (): Injectable[] {
+    if (this.injectables == null) {
+      this.injectables = []
+      for (const sourceFile of this.tsMorphProject.getSourceFiles()) {
+        if (sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) continue
+        for (const classDeclaration of sourceFile.getClasses()) {
+          if (classDeclaration.getDecorator('Injectable') == null) continue
+          this.injectables.push(new Injectable(this, classDeclaration))
+        }
+      }
+    }
+    return this.injectables
+  }
+
+  public getInjectableByClassDeclaration (classDeclaration: ClassDeclaration): Injectable | undefined {
+    return this.getInjectables().find(injectable => injectable.getClassDeclaration() == classDeclaration)
+  }
+
+  public getInjectableByClassName (className: string): Injectable | undefined {
+    return this.getInjectables().find(injectable => injectable.getName() == className)
+  }
+
+  public getInjectableByClassNameOrThrow (className: string): Injectable {
+    return throwIfUndefined(this.getInjectableByClassName(className), `Expected to find an @Injectable with class name "${className}".`)
+  }
+
+  /**
+   * Everything which asks for the token in its constructor: services and declarables
+   * (components, directives and pipes).
+   *
+   * @param token - The token, or its declaration (such as the class of a service).
+   */
+  public getConsumersOf (token: ProviderToken | tsMorph.Node): DependencyConsumer[] {
+    const consumers: DependencyConsumer[] = [...this.getInjectables(), ...this.getDeclarables()]
+    return consumers.filter(consumer => {
+      return consumer.getConstructorDependencies().some(dependency => dependency.getToken().isSameAs(token))
+    })
+  }
+
+  /**
+   * Services which are not injected anywhere in the project.
+   *
+   * Only constructor injection is considered; a service which is only retrieved through
+   * `Injector.get` or used in a factory provider is reported as well.
+   */
+  public getUnusedInjectables (): Injectable[] {
+    return this.getInjectables().filter(injectable => injectable.isUnused())
+  }
+
+  /**
+   * Finds every place where the pipe is applied, in templates of all components which have
+   * the pipe in their compilation scope.
+   */
+  public findPipeUsages (pipe: Pipe): PipeUsage[] {
+    const pipeName = pipe.getPipeName()
+    const ngModules = this.getNgModules().filter(ngModule => ngModule.getDeclarablesInScope().includes(pipe))
+    const components = flatMap(ngModules, ngModule => ngModule.getComponents())
+    return flatMap(components, component => {
+      return findPipeUsagesInTemplate(component, component.getTemplate(), pipeName)
+    })
+  }
+
+  /**
+   * Finds every attribute which sets the input (as in `[value]`, `value` or `[(value)]`), in
+   * templates of all components which have the input's directive in scope.
+   */
+  public findInputUsages (input: DirectiveInput): AttributeTemplateNode[] {
+    return this.findBindingUsages(input, attribute => attribute.getBoundInput())
+  }
+
+  /**
+   * Finds every attribute which listens to the output (as in `(valueChange)` or `[(value)]`),
+   * in templates of all components which have the output's directive in scope.
+   */
+  public findOutputUsages (output: DirectiveOutput): AttributeTemplateNode[] {
+    return this.findBindingUsages(output, attribute => attribute.getBoundOutput())
+  }
+
+  /**
+   * Files with changes which {@link save} would write: external files (such as templates)
+   * and TypeScript files changed through ts-morph. Edits made to the nodes of templates are
+   * written back to where the templates come from first, so an edited inline template shows
+   * up as its component's TypeScript file.
+   */
+  public getDirtyFiles (): LocationFile[] {
+    this.writeEditedTemplates()
+    const sourceFiles = this.getUnsavedSourceFiles().map(sourceFile => LocationFile.FromTsm(sourceFile))
+    return [...this.singletons.locationFileManager.getDirtyFiles(), ...sourceFiles]
+  }
+
+  /**
+   * What {@link save} would write, compared to what is on the file system. Files whose
+   * content ends up the same are left out.
+   */
+  public getPendingChanges (): PendingChange[] {
+    this.writeEditedTemplates()
+    const fileSystem = this.tsMorphProject.getFileSystem()
+    const locationFiles = this.singletons.locationFileManager.getDirtyFiles().map(file => {
+      return { filePath: file.getUri(), before: file.getSavedContent(), after: file.getContent() }
+    })
+    const sourceFiles = this.getUnsavedSourceFiles().map(sourceFile => {
+      const filePath = sourceFile.getFilePath()
+      const before = fileSystem.fileExistsSync(filePath) ? fileSystem.readFileSync(filePath, 'utf8') : ''
+      return { filePath, before, after: sourceFile.getFullText() }
+    })
+    return [...locationFiles, ...sourceFiles]
+      .filter(({ before, after }) => before != after)
+      .map(change => ({ ...change, diff: createUnifiedDiff(change.filePath, change.before, change.after) }))
+  }
+
+  /**
+   * Writes all changes to the file system of the ts-morph project, which might be a virtual
+   * one. Edits made to the nodes of templates are written back to where the templates come
+   * from first.
+   *
+   * @return The unified diff of all changes (see {@link getPendingChanges}).
+   * @throws Error - If a file to write (an external or a TypeScript one) was changed on the
+   * file system since it was read. Nothing is written in that case.
+   */
+  public save (options: Partial<SaveOptions> = {}): string {
+    const diff = this.getPendingChanges().map(change => change.diff).join('')
+    if (options.dryRun) return diff
+    const sourceFiles = this.getUnsavedSourceFiles()
+    this.throwIfChangedOnFileSystem(sourceFiles)
+    this.singletons.locationFileManager.saveDirtyFiles()
+    for (const sourceFile of sourceFiles) {
+      sourceFile.saveSync()
+      this.savedSourceFileTexts.set(sourceFile.getFilePath(), sourceFile.getFullText())
+    }
+    return diff
+  }
+
+  /**
+   * Runs the function, and undoes all changes which it made if it throws: external files
+   * (such as templates) and TypeScript files get their previous content back, and templates
+   * are parsed again. The error is thrown further.
+   *
+   * ts-morph forgets the nodes of a TypeScript file whose text is restored, so if any had to
+   * be restored, the project is set up again. Objects taken from the project before (such as
+   * components) should then be looked up again. Changes which were already saved to the
+   * file system are not undone.
+   */
+  public transaction<T> (fn: () => T): T {
+    this.writeEditedTemplates()
+    const locationFileManager = this.singletons.locationFileManager
+    const locationFiles = locationFileManager._takeSnapshot()
+    const sourceFiles = this.tsMorphProject.getSourceFiles().map(sourceFile => {
+      return { sourceFile, filePath: sourceFile.getFilePath(), text: sourceFile.getFullText(), isSaved: sourceFile.isSaved() }
+    })
+    try {
+      return fn()
+    } catch (error) {
+      locationFileManager._restoreSnapshot(locationFiles)
+      for (const declarable of this.getDeclarables()) {
+        if (declarable instanceof Component) declarable._forgetTemplate()
+      }
+      if (this.restoreSourceFiles(sourceFiles)) this.reset()
+      throw error
+    }
+  }
+
+  /**
+   * The graph of injectors in the application, created on the first call.
+   */
+  public getDependencyInjectionGraph (): DependencyInjectionGraph {
+    if (this.dependencyInjectionGraph == null) {
+      this.dependencyInjectionGraph = new DependencyInjectionGraph(this)
+    }
+    return this.dependencyInjectionGraph
+  }
+
+  /**
+   * The compiler options which the application is built with: the ones from
+   * {@link ProjectConfig.tsConfigFilePath} (including what it extends) if given, or else the
+   * ones of the ts-morph project.
+   */
+  public getCompilerOptions (): tsMorph.CompilerOptions {
+    if (this.compilerOptions == null) {
+      const tsConfigFilePath = this.config.tsConfigFilePath
+      if (tsConfigFilePath == null) {
+        this.compilerOptions = this.tsMorphProject.getCompilerOptions()
+      } else {
+        const fileSystem = this.tsMorphProject.getFileSystem()
+        const { options, errors } = tsMorph.getCompilerOptionsFromTsConfig(tsConfigFilePath, { fileSystem })
+        for (const error of errors) {
+          const message = error.getMessageText()
+          console.warn(`Problem in "${tsConfigFilePath}": ${typeof message == 'string' ? message : message.getMessageText()}`)
+        }
+        this.compilerOptions = { ...this.tsMorphProject.getCompilerOptions(), ...options }
+      }
+    }
+    return this.compilerOptions
+  }
+
+  /**
+   * Finds the file which a module specifier refers to, the way TypeScript resolves an import
+   * in the given file. This includes the `baseUrl` and `paths` of the compiler options.
+   *
+   * @return The source file, or `undefined` if the module cannot be found.
+   */
+  public resolveModule (moduleSpecifier: string, containingFile: tsMorph.SourceFile): tsMorph.SourceFile | undefined {
+    const fileSystem = this.tsMorphProject.getFileSystem()
+    const fileExists = (filePath: string) => this.tsMorphProject.getSourceFile(filePath) != null || fileSystem.fileExistsSync(filePath)
+    const host: tsMorph.ts.ModuleResolutionHost = {
+      fileExists,
+      readFile: filePath => {
+        const sourceFile = this.tsMorphProject.getSourceFile(filePath)
+        if (sourceFile != null) return sourceFile.getFullText()
+        return fileSystem.fileExistsSync(filePath) ? fileSystem.readFileSync(filePath) : undefined
+      },
+    }
+    const { resolvedModule } = tsMorph.ts.resolveModuleName(moduleSpecifier, containingFile.getFilePath(), this.getCompilerOptions(), host)
+    if (resolvedModule == null) return undefined
+    const fileName = resolvedModule.resolvedFileName
+    const sourceFile = this.tsMorphProject.getSourceFile(fileName) || this.tsMorphProject.addExistingSourceFileIfExists(fileName)
+    this.recordSavedSourceFileTexts()
+    return sourceFile
+  }
+
   public getRootRoutes (): Routes | undefined {
     for (const ngModule of this.getNgModules()) {
       const routes = ngModule.getRoutes()
@@ -161,6 +477,125 @@ export class Project {
     return throwIfUndefined(this.getRootRoutes(), `Expected to find root routes in the project.`)
   }
 
+  /**
+   * Every route reachable from the root routes, through children and lazy modules, with its
+   * full URL pattern, as in `/admin/users/:id`.
+   *
+   * @return The routes, or an empty array if the project has no root routes.
+   */
+  public getRouteTable (): RouteTableEntry[] {
+    const routes = this.getRootRoutes()
+    return routes == null ? [] : createRouteTable(routes.getRoutes())
+  }
+
+  /**
+   * Finds the routes which the router activates for the URL, as in `/shop/items/42?tab=reviews`,
+   * along with their parameters and the redirects on the way.
+   *
+   * @return The match, or `undefined` if no route matches the URL.
+   */
+  public matchUrl (url: string): UrlMatch | undefined {
+    const routes = this.getRootRoutes()
+    return matchRoutes(routes == null ? [] : routes.getRoutes(), url)
+  }
+
+  public matchUrlOrThrow (url: string): UrlMatch {
+    return throwIfUndefined(this.matchUrl(url), `Cannot match any routes for URL "${url}".`)
+  }
+
+  private findBindingUsages (binding: DirectiveBinding, getBound: (attribute: AttributeTemplateNode) => DirectiveBinding | undefined): AttributeTemplateNode[] {
+    const classDeclaration = binding.getClassDeclaration()
+    const ngModules = this.getNgModules().filter(ngModule => {
+      return ngModule.getDeclarablesInScope().some(declarable => declarable.getClassDeclaration() == classDeclaration)
+    })
+    const components = flatMap(ngModules, ngModule => ngModule.getComponents())
+    return flatMap(components, component => {
+      return component.getTemplate().getTemplateNodes(isAttribute).filter(attribute => binding.isSameAs(getBound(attribute)))
+    })
+  }
+
+  private writeEditedTemplates (): void {
+    for (const declarable of this.getDeclarables()) {
+      if (declarable instanceof Component) declarable._writeTemplateIfEdited()
+    }
+  }
+
+  private getUnsavedSourceFiles (): tsMorph.SourceFile[] {
+    return this.tsMorphProject.getSourceFiles().filter(sourceFile => !sourceFile.isSaved())
+  }
+
+  /**
+   * Remembers the text of the files loaded since the last call, which is what they have on
+   * the file system.
+   */
+  private recordSavedSourceFileTexts (): void {
+    for (const sourceFile of this.tsMorphProject.getSourceFiles()) {
+      const filePath = sourceFile.getFilePath()
+      if (sourceFile.isSaved() && !this.savedSourceFileTexts.has(filePath)) {
+        this.savedSourceFileTexts.set(filePath, sourceFile.getFullText())
+      }
+    }
+  }
+
+  /**
+   * @throws Error - If a file has something else on the file system than when it was loaded or
+   * last saved. A file created in the project must not exist on the file system yet.
+   */
+  private throwIfChangedOnFileSystem (sourceFiles: tsMorph.SourceFile[]): void {
+    const fileSystem = this.tsMorphProject.getFileSystem()
+    for (const sourceFile of sourceFiles) {
+      const filePath = sourceFile.getFilePath()
+      const content = fileSystem.fileExistsSync(filePath) ? fileSystem.readFileSync(filePath, 'utf8') : undefined
+      if (content != this.savedSourceFileTexts.get(filePath)) {
+        throw new Error(`Refusing to overwrite "${filePath}", which was changed on the file system since it was read.`)
+      }
+    }
+  }
+
+  /**
+   * @return Whether any file had to be restored.
+   */
+  private restoreSourceFiles (snapshot: Array<{ sourceFile: tsMorph.SourceFile, filePath: string, text: string, isSaved: boolean }>): boolean {
+    let isRestored = false
+    const fileSystem = this.tsMorphProject.getFileSystem()
+    for (const sourceFile of this.tsMorphProject.getSourceFiles()) {
+      if (snapshot.some(file => file.sourceFile == sourceFile)) continue
+      sourceFile.forget()
+      isRestored = true
+    }
+    for (const { sourceFile, filePath, text, isSaved } of snapshot) {
+      if (!sourceFile.wasForgotten() && sourceFile.getFullText() == text) continue
+      const isOnFileSystem = isSaved && fileSystem.fileExistsSync(filePath) && fileSystem.readFileSync(filePath, 'utf8') == text
+      if (sourceFile.wasForgotten()) {
+        if (isOnFileSystem) {
+          this.tsMorphProject.addExistingSourceFile(filePath)
+        } else {
+          this.tsMorphProject.createSourceFile(filePath, text, { overwrite: true })
+        }
+      } else if (isOnFileSystem) {
+        sourceFile.refreshFromFileSystemSync()
+      } else {
+        sourceFile.replaceWithText(text)
+      }
+      isRestored = true
+    }
+    return isRestored
+  }
+
+  /**
+   * Forgets everything found in the project so far, and sets it up from scratch.
+   */
+  private reset () {
+    this.entryPoints = []
+    this.dependencyInjectionGraph = undefined
+    this.registeredNgModules = []
+    this.allDeclarables = []
+    this.builtInNgModules = []
+    this.injectables = undefined
+    this.setUpBuiltInNgModules()
+    this.setUp()
+  }
+
   private setUpBuiltInNgModules () {
     const specifiers: string[] = [
       `router/router.d.ts#RouterModule`,
@@ -186,35 +621,32 @@ export class Project {
   }
 
   private setUp () {
-    const mainTsFile = this.tsMorphProject.getSourceFile(`main.ts`)
-    if (mainTsFile == null) throw new Error(`Could not find main.ts file.`)
-
-    let bootstrapModuleIdentifier: any
-
-    mainTsFile.forEachDescendant((node, traversal) => {
-      if (!TypeGuards.isCallExpression(node)) return false
-      if (node.getExpression().getText() != 'platformBrowserDynamic().bootstrapModule') return false
-      const [firstArgument] = node.getArguments()
-      bootstrapModuleIdentifier = firstArgument
-      traversal.stop()
-    })
+    const { mainFilePath, serverMainFilePath } = this.config
+    const mainTsFile = this.tsMorphProject.getSourceFile(mainFilePath)
+    if (mainTsFile == null) throw new Error(`Could not find the main file "${mainFilePath}".`)
 
-    if (bootstrapModuleIdentifier == null) {
-      throw new Error(`Expected to find a platformBrowserDynamic().bootstrapModule(xxx) call.`)
+    const candidates = findEntryPointCandidates(mainTsFile, false)
+    if (candidates.length == 0) {
+      throw new Error(`Expected to find a bootstrapModule(xxx) call in "${mainTsFile.getFilePath()}".`)
     }
 
-    if (!TypeGuards.isIdentifier(bootstrapModuleIdentifier)) {
-      throw new Error(`Expected bootstrapModule to have an identifier as the first argument.`)
+    if (serverMainFilePath != null) {
+      const serverMainTsFile = this.tsMorphProject.getSourceFile(serverMainFilePath)
+      if (serverMainTsFile == null) throw new Error(`Could not find the server main file "${serverMainFilePath}".`)
+      candidates.push(...findEntryPointCandidates(serverMainTsFile, true))
     }
 
-    const definitions = bootstrapModuleIdentifier.getDefinitionNodes()
-    const classDeclaration = definitions.find(TypeGuards.isClassDeclaration)
-    if (classDeclaration == null) {
-      throw new Error(`Expected bootstrapModule's first argument to reference a class.`)
+    for (const { node, platformKind, classDeclaration } of candidates) {
+      const existingNgModule = this.getNgModuleByClassDeclaration(classDeclaration)
+      const ngModule = existingNgModule != null
+        ? existingNgModule
+        : this.registerNgModuleButThrowIfRegistered(new NgModule(this, classDeclaration))
+      this.entryPoints.push(new EntryPoint(this, LocationSpan.FromTsm(node), platformKind, ngModule, node))
     }
 
-    this.bootstrapModule = new NgModule(this, classDeclaration)
-    this.registeredNgModules.push(this.bootstrapModule)
+    const browserEntryPoint = this.entryPoints.find(entryPoint => !entryPoint.isServer())
+    this.bootstrapModule = (browserEntryPoint || this.entryPoints[0]).getNgModule()
+    this.recordSavedSourceFileTexts()
   }
 
 }
@@ -45,11 +45,25 @@ function _resolve (node: tsm.Node): tsm.Node[] {
 const isFallThrough = tg.fp.or(
   tsm.TypeGuards.isIdentifier,
   tsm.TypeGuards.isCallExpression,
+  tsm.TypeGuards.isPropertyAccessExpression,
+  tg.fp.or(
+    tsm.TypeGuards.isObjectLiteralExpression,
+    tsm.TypeGuards.isStringLiteral,
+    tsm.TypeGuards.isNoSubstitutionTemplateLiteral,
+    // Functions written inline, e.g. guards in routes.
+    tg.fp.or(
+      tsm.TypeGuards.isArrowFunction,
+      tsm.TypeGuards.isFunctionExpression,
+    ),
+  ),
 )
 
 function _resolveArrayElement (node: tsm.Node): tsm.Node[] {
   if (isFallThrough(node)) {
     return [node]
+  } else if (tsm.TypeGuards.isArrayLiteralExpression(node)) {
+    // Angular flattens nested arrays, e.g. in "providers".
+    return _resolve(node)
   } else if (tsm.TypeGuards.isSpreadElement(node)) {
     const identifier = node.getExpression()
     if (!tsm.TypeGuards.isIdentifier(identifier)) throw new Error(`Expected spread operator to have been used on an identifier.`)
@@ -38,6 +38,10 @@ export function flatMap<T, R> (array: T[], mapper: (element: T) => R[]): R[] {
   return result
 }
 
+export function mapValues<Key, Value, NewValue> (map: Map<Key, Value>, mapper: (value: Value) => NewValue): Map<Key, NewValue> {
+  return new Map([...map].map(([key, value]) => [key, mapper(value)] as [Key, NewValue]))
+}
+
 /**
  *
  * @param object
@@ -14,5 +14,17 @@ export abstract class SimpleCache<Key, Value> {
     return cachedValue
   }
 
+  protected getValues (): Value[] {
+    return [...this.cache.values()]
+  }
+
+  protected getEntries (): Array<[Key, Value]> {
+    return [...this.cache.entries()]
+  }
+
+  protected delete (key: Key): void {
+    this.cache.delete(key)
+  }
+
 
 }
@@ -1,6 +1,8 @@
 import * as tsm from 'ts-morph'
 import * as chai from 'chai'
 import * as tags from 'common-tags'
+import * as path from 'path'
+import { Project, ProjectConfig } from '../project'
 
 export function getResult<T> (sourceFileText: string, getResult: (sourceFile: tsm.SourceFile) => T): T {
   const project = new tsm.Project({ useVirtualFileSystem: true })
@@ -19,3 +21,106 @@ export function assertTransform (sourceFileText: string, doTest: (sourceFile: ts
   const actualResultFileText = file.getText()
   chai.assert.equal(actualResultFileText, tags.stripIndent(expectedResultFileText))
 }
+
+/**
+ * The virtual file system has no default library, so without this even the type of a
+ * dynamic `import()` cannot be resolved. Only the bare minimum is declared to keep the
+ * tests fast.
+ */
+const minimalLibFile = tags.stripIndent`
+  interface Array<T> { length: number, [n: number]: T }
+  interface Boolean {}
+  interface Function {}
+  interface IArguments {}
+  interface Number {}
+  interface Object {}
+  interface RegExp {}
+  interface String {}
+  interface PromiseLike<T> {}
+  interface Promise<T> {
+    then<R> (onfulfilled: (value: T) => R | PromiseLike<R>): Promise<R>
+  }
+`
+
+/**
+ * Creates a project in a virtual file system. Keys of `files` are file paths and values
+ * are their contents, which get their indentation stripped. All files start out saved, as
+ * they would be in a project loaded from disk. Files other than TypeScript ones (such as
+ * external templates) are only written to the file system.
+ */
+export function createProject (files: Record<string, string>, config: Partial<ProjectConfig> = {}): Project {
+  const tsmProject = new tsm.Project({ useVirtualFileSystem: true })
+  tsmProject.getFileSystem().writeFileSync('/node_modules/typescript/lib/lib.d.ts', minimalLibFile)
+  for (const [filePath, content] of Object.entries(files)) {
+    if (filePath.endsWith('.ts')) {
+      tsmProject.createSourceFile(filePath, tags.stripIndent(content))
+    } else {
+      tsmProject.getFileSystem().writeFileSync(filePath, tags.stripIndent(content))
+    }
+  }
+  tsmProject.saveSync()
+  return new Project(tsmProject, undefined, config)
+}
+
+/**
+ * Like {@link createProject}, with a `/main.ts` which bootstraps `AppModule` from
+ * `/app/app.module.ts`. Given `declarations`, the module is generated to declare those
+ * classes, each imported from the file among `files` which exports it; otherwise `files`
+ * has to include the module.
+ */
+export function createAppProject (files: Record<string, string>,
+                                  declarations: string[] = [],
+                                  config: Partial<ProjectConfig> = {}): Project {
+  const appFiles: Record<string, string> = {
+    '/main.ts': `
+      import { platformBrowserDynamic } from '@angular/platform-browser-dynamic'
+      import { AppModule } from './app/app.module'
+      platformBrowserDynamic().bootstrapModule(AppModule)
+    `,
+    ...files,
+  }
+  if (declarations.length > 0) {
+    if (files['/app/app.module.ts'] != null) {
+      throw new Error(`Expected either declarations or "/app/app.module.ts", but got both.`)
+    }
+    appFiles['/app/app.module.ts'] = createAppModuleText(files, declarations)
+  }
+  return createProject(appFiles, config)
+}
+
+function createAppModuleText (files: Record<string, string>, declarations: string[]): string {
+  const importsByFile = new Map<string, string[]>()
+  for (const className of declarations) {
+    const filePath = Object.keys(files).find(filePath => new RegExp(`export class ${className}\\b`).test(files[filePath]))
+    if (filePath == null) throw new Error(`Expected a file which exports class "${className}".`)
+    const specifier = `./${path.posix.relative('/app', filePath).replace(/\.ts$/, '')}`
+    importsByFile.set(specifier, [...(importsByFile.get(specifier) || []), className])
+  }
+  const imports = [...importsByFile].map(([specifier, classNames]) => `import { ${classNames.join(', ')} } from '${specifier}'`)
+  return [
+    `import { NgModule } from '@angular/core'`,
+    ...imports,
+    ``,
+    `@NgModule({`,
+    `  declarations: [${declarations.join(', ')}],`,
+    `})`,
+    `export class AppModule {`,
+    `}`,
+  ].join('\n')
+}
+
+/**
+ * Just enough of `@angular/router` for {@link Project} to recognize `RouterModule`.
+ * Spread into the files given to {@link createProject}.
+ */
+export const routerModuleStubFiles: Record<string, string> = {
+  '/node_modules/@angular/router/index.d.ts': `
+    export * from './router'
+  `,
+  '/node_modules/@angular/router/router.d.ts': `
+    export declare class RouterModule {
+      static forRoot (routes: any[]): any
+      static forChild (routes: any[]): any
+    }
+  `,
+}
@@ -0,0 +1,46 @@
+import * as chai from 'chai'
+import { createUnifiedDiff } from './unified-diff'
+
+describe(`createUnifiedDiff`, () => {
+
+  it(`gives nothing for the same texts`, () => {
+    chai.assert.equal(createUnifiedDiff('/a.txt', `a\nb\n`, `a\nb\n`), ``)
+  })
+
+  it(`groups changes into hunks with context`, () => {
+    const before = `1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n11\n12\n13\n14\n15\n`
+    const after = `1\ntwo\n3\n4\n5\n6\n7\n8\n9\n10\n11\n12\n13\n15\n16\n`
+    chai.assert.equal(createUnifiedDiff('/numbers.txt', before, after), [
+      `--- a/numbers.txt`,
+      `+++ b/numbers.txt`,
+      `@@ -1,5 +1,5 @@`,
+      ` 1`,
+      `-2`,
+      `+two`,
+      ` 3`,
+      ` 4`,
+      ` 5`,
+      `@@ -11,5 +11,5 @@`,
+      ` 11`,
+      ` 12`,
+      ` 13`,
+      `-14`,
+      ` 15`,
+      `+16`,
+      ``,
+    ].join('\n'))
+  })
+
+  it(`reports a missing line break at the end`, () => {
+    chai.assert.equal(createUnifiedDiff('/a.txt', `a\nb`, ``), [
+      `--- a/a.txt`,
+      `+++ b/a.txt`,
+      `@@ -1,2 +0,0 @@`,
+      `-a`,
+      `-b`,
+      `\\ No newline at end of file`,
+      ``,
+    ].join('\n'))
+  })
+
+})
@@ -0,0 +1,120 @@
+interface DiffLine {
+  kind: ' ' | '-' | '+'
+  line: string
+}
+
+/**
+ * Creates a diff of two versions of a file in the unified format (the one of `git diff`),
+ * with the given number of unchanged lines around each change.
+ *
+ * @return The diff, or an empty string if the texts are the same.
+ */
+export function createUnifiedDiff (filePath: string, before: string, after: string, contextLength: number = 3): string {
+  const lines = diffLines(splitLines(before), splitLines(after))
+  const changeIndexes = lines.map((line, index) => line.kind == ' ' ? -1 : index).filter(index => index != -1)
+  if (changeIndexes.length == 0) return ''
+
+  // Line numbers (zero-based) in the old and the new text where each line of the diff is.
+  const oldLineNumbers: number[] = []
+  const newLineNumbers: number[] = []
+  let oldLineNumber = 0
+  let newLineNumber = 0
+  for (const line of lines) {
+    oldLineNumbers.push(oldLineNumber)
+    newLineNumbers.push(newLineNumber)
+    if (line.kind != '+') oldLineNumber++
+    if (line.kind != '-') newLineNumber++
+  }
+
+  const result = [`--- a${filePath}\n`, `+++ b${filePath}\n`]
+  let i = 0
+  while (i < changeIndexes.length) {
+    const start = Math.max(0, changeIndexes[i] - contextLength)
+    let end = Math.min(lines.length, changeIndexes[i] + contextLength + 1)
+    i++
+    while (i < changeIndexes.length && changeIndexes[i] - contextLength <= end) {
+      end = Math.min(lines.length, changeIndexes[i] + contextLength + 1)
+      i++
+    }
+    const hunk = lines.slice(start, end)
+    const oldRange = formatRange(oldLineNumbers[start], hunk.filter(line => line.kind != '+').length)
+    const newRange = formatRange(newLineNumbers[start], hunk.filter(line => line.kind != '-').length)
+    result.push(`@@ -${oldRange} +${newRange} @@\n`)
+    for (const { kind, line } of hunk) {
+      result.push(line.endsWith('\n') ? kind + line : `${kind}${line}\n\\ No newline at end of file\n`)
+    }
+  }
+  return result.join('')
+}
+
+// region Internal
+
+/**
+ * Splits the text into lines, keeping the line breaks, so that a missing line break at the
+ * end of the text counts as a change.
+ */
+function splitLines (text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || []
+}
+
+/**
+ * A shortest list of lines to remove and add, based on the longest common subsequence.
+ * The common start and end are skipped before building the table, since a change usually
+ * touches only a small part of a file.
+ */
+function diffLines (oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefixLength = 0
+  while (prefixLength < oldLines.length && prefixLength < newLines.length && oldLines[prefixLength] == newLines[prefixLength]) {
+    prefixLength++
+  }
+  let suffixLength = 0
+  while (
+    suffixLength < oldLines.length - prefixLength &&
+    suffixLength < newLines.length - prefixLength &&
+    oldLines[oldLines.length - 1 - suffixLength] == newLines[newLines.length - 1 - suffixLength]
+  ) {
+    suffixLength++
+  }
+
+  const oldMiddle = oldLines.slice(prefixLength, oldLines.length - suffixLength)
+  const newMiddle = newLines.slice(prefixLength, newLines.length - suffixLength)
+  const n = oldMiddle.length
+  const m = newMiddle.length
+
+  // lengths[i * (m + 1) + j] is the length of the longest common subsequence of oldMiddle[i..] and newMiddle[j..].
+  const lengths = new Uint32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = oldMiddle[i] == newMiddle[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1])
+    }
+  }
+
+  const result: DiffLine[] = oldLines.slice(0, prefixLength).map(line => ({ kind: ' ' as const, line }))
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && oldMiddle[i] == newMiddle[j]) {
+      result.push({ kind: ' ', line: oldMiddle[i++] })
+      j++
+    } else if (j == m || (i < n && lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+      result.push({ kind: '-', line: oldMiddle[i++] })
+    } else {
+      result.push({ kind: '+', line: newMiddle[j++] })
+    }
+  }
+  result.push(...oldLines.slice(oldLines.length - suffixLength).map(line => ({ kind: ' ' as const, line })))
+  return result
+}
+
+/**
+ * A range as in a hunk header, with one-based line numbers. An empty range is given by the
+ * line before it, as `git` does.
+ */
+function formatRange (zeroBasedStart: number, length: number): string {
+  const start = length == 0 ? zeroBasedStart : zeroBasedStart + 1
+  return length == 1 ? `${start}` : `${start},${length}`
+}
+
+// endregion Internal
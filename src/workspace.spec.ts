@@ -0,0 +1,123 @@
+import * as tsm from 'ts-morph'
+import * as chai from 'chai'
+import * as tags from 'common-tags'
+import { Workspace } from './workspace'
+
+function createMainTs (moduleName: string, modulePath: string) {
+  return tags.stripIndent`
+    import { platformBrowserDynamic } from '@angular/platform-browser-dynamic'
+    import { ${moduleName} } from '${modulePath}'
+
+    platformBrowserDynamic().bootstrapModule(${moduleName})
+  `
+}
+
+function createModuleTs (moduleName: string) {
+  return tags.stripIndent`
+    import { NgModule } from '@angular/core'
+
+    @NgModule({})
+    export class ${moduleName} {
+    }
+  `
+}
+
+function createTsMorphProject (workspaceFileName: string, workspaceJson: object) {
+  const tsmProject = new tsm.Project({ useVirtualFileSystem: true })
+  tsmProject.getFileSystem().writeFileSync(`/${workspaceFileName}`, JSON.stringify(workspaceJson))
+  tsmProject.createSourceFile('/projects/shop/src/main.ts', createMainTs('ShopModule', './app/shop.module'))
+  tsmProject.createSourceFile('/projects/shop/src/app/shop.module.ts', createModuleTs('ShopModule'))
+  tsmProject.createSourceFile('/projects/admin/src/main.ts', createMainTs('AdminModule', './app/admin.module'))
+  tsmProject.createSourceFile('/projects/admin/src/app/admin.module.ts', createModuleTs('AdminModule'))
+  return tsmProject
+}
+
+function createApplicationJson (name: string) {
+  return {
+    projectType: 'application',
+    root: `projects/${name}`,
+    sourceRoot: `projects/${name}/src`,
+    architect: {
+      build: {
+        builder: '@angular-devkit/build-angular:browser',
+        options: {
+          main: `projects/${name}/src/main.ts`,
+          tsConfig: `projects/${name}/tsconfig.app.json`,
+        },
+      },
+    },
+  }
+}
+
+const angularJson = {
+  version: 1,
+  defaultProject: 'shop',
+  projects: {
+    shop: createApplicationJson('shop'),
+    admin: createApplicationJson('admin'),
+    ui: {
+      projectType: 'library',
+      root: 'projects/ui',
+      sourceRoot: 'projects/ui/src',
+      architect: {
+        build: {
+          builder: '@angular-devkit/build-ng-packagr:build',
+          options: {
+            tsConfig: 'projects/ui/tsconfig.lib.json',
+          },
+        },
+      },
+    },
+  },
+}
+
+describe(`Workspace`, () => {
+
+  it(`lists applications and libraries from angular.json`, () => {
+    const workspace = Workspace.FromTsm(createTsMorphProject('angular.json', angularJson), '/')
+    chai.assert.sameOrderedMembers(workspace.getApplications().map(app => app.getName()), ['shop', 'admin'])
+    chai.assert.sameOrderedMembers(workspace.getLibraries().map(lib => lib.getName()), ['ui'])
+  })
+
+  it(`resolves main and tsConfig relative to the workspace root`, () => {
+    const workspace = Workspace.FromTsm(createTsMorphProject('angular.json', angularJson), '/')
+    const shop = workspace.getWorkspaceProjectOrThrow('shop')
+    chai.assert.equal(shop.getMainFilePath(), '/projects/shop/src/main.ts')
+    chai.assert.equal(shop.getTsConfigFilePath(), '/projects/shop/tsconfig.app.json')
+    chai.assert.isUndefined(workspace.getWorkspaceProjectOrThrow('ui').getMainFilePath())
+  })
+
+  it(`creates one project per application`, () => {
+    const workspace = Workspace.FromTsm(createTsMorphProject('angular.json', angularJson), '/')
+    const bootstrapModuleNames = workspace.getProjects().map(project => project.getBootstrapModule().getName())
+    chai.assert.sameOrderedMembers(bootstrapModuleNames, ['ShopModule', 'AdminModule'])
+    chai.assert.strictEqual(workspace.getProject('shop'), workspace.getProject('shop'))
+  })
+
+  it(`refuses to create a project from a library`, () => {
+    const workspace = Workspace.FromTsm(createTsMorphProject('angular.json', angularJson), '/')
+    chai.assert.throws(() => workspace.getWorkspaceProjectOrThrow('ui').getProject(), /library/)
+  })
+
+  it(`tells what's wrong with a malformed workspace file`, () => {
+    const createWorkspace = (workspaceJson: object) => Workspace.FromTsm(createTsMorphProject('angular.json', workspaceJson), '/')
+    chai.assert.throws(() => createWorkspace([]), `Expected "/angular.json" to contain an object.`)
+    chai.assert.throws(() => createWorkspace({ projects: [] }), `Expected "/angular.json" to have a "projects" object.`)
+    const shop = { ...createApplicationJson('shop'), architect: { build: { options: 'projects/shop/src/main.ts' } } }
+    chai.assert.throws(() => createWorkspace({ projects: { shop } }), `Expected "architect.build.options" of project "shop" to be an object.`)
+  })
+
+  it(`reads Nx's workspace.json with "targets"`, () => {
+    const { architect: _, ...shop } = createApplicationJson('shop')
+    const workspaceJson = {
+      version: 2,
+      projects: {
+        shop: { ...shop, targets: createApplicationJson('shop').architect },
+      },
+    }
+    const workspace = Workspace.FromTsm(createTsMorphProject('workspace.json', workspaceJson), '/')
+    chai.assert.equal(workspace.getWorkspaceFilePath(), '/workspace.json')
+    chai.assert.equal(workspace.getDefaultWorkspaceProject()!.getMainFilePath(), '/projects/shop/src/main.ts')
+  })
+
+})
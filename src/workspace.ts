@@ -0,0 +1,354 @@
+import * as tsm from 'ts-morph'
+import * as path from 'path'
+import * as tg from 'type-guards'
+import { Project } from './project'
+import { throwIfUndefined } from './utils'
+
+const WORKSPACE_FILE_NAMES = ['angular.json', 'workspace.json']
+
+export type WorkspaceProjectType = 'application' | 'library'
+
+type JsonObject = Record<string, unknown>
+
+interface WorkspaceTargetJson {
+  options?: JsonObject
+}
+
+interface WorkspaceProjectJson {
+  projectType: WorkspaceProjectType
+  root: string
+  sourceRoot?: string
+  architect?: Record<string, WorkspaceTargetJson>
+  targets?: Record<string, WorkspaceTargetJson>
+}
+
+interface WorkspaceJson {
+  defaultProject?: string
+  /**
+   * Each project is checked separately when it's read, since it can also be the path to
+   * the directory of a `project.json`.
+   */
+  projects: JsonObject
+}
+
+const isWorkspaceProjectType = tg.isEnum('application' as const, 'library' as const)
+
+function isJsonObject (value: unknown): value is JsonObject {
+  return tg.isObject(value) && value != null && !Array.isArray(value)
+}
+
+function readJson (fileSystem: tsm.FileSystemHost, filePath: string): unknown {
+  const content = fileSystem.readFileSync(filePath)
+  try {
+    return JSON.parse(content)
+  } catch (e) {
+    throw new Error(`Could not parse "${filePath}" as JSON: ${e.message}`)
+  }
+}
+
+function readOptionalString (value: unknown, errorMessage: string): string | undefined {
+  if (value == null) return undefined
+  if (!tg.isString(value)) throw new Error(errorMessage)
+  return value
+}
+
+function readOptionalJsonObject (value: unknown, errorMessage: string): JsonObject | undefined {
+  if (value == null) return undefined
+  if (!isJsonObject(value)) throw new Error(errorMessage)
+  return value
+}
+
+function readJsonObject (fileSystem: tsm.FileSystemHost, filePath: string): JsonObject {
+  const json = readJson(fileSystem, filePath)
+  if (!isJsonObject(json)) throw new Error(`Expected "${filePath}" to contain an object.`)
+  return json
+}
+
+/**
+ * Checks the parts of the workspace file which are read later on, so that a malformed file
+ * fails right away, telling what's wrong.
+ */
+function readWorkspaceJson (fileSystem: tsm.FileSystemHost, filePath: string): WorkspaceJson {
+  const { defaultProject, projects } = readJsonObject(fileSystem, filePath)
+  if (!isJsonObject(projects)) {
+    throw new Error(`Expected "${filePath}" to have a "projects" object.`)
+  }
+  return {
+    defaultProject: readOptionalString(defaultProject, `Expected "defaultProject" in "${filePath}" to be a string.`),
+    projects,
+  }
+}
+
+/**
+ * @param key - Where the targets are listed: `architect` (Angular CLI) or `targets` (Nx).
+ */
+function readTargets (projectName: string, key: string, targets: unknown): Record<string, WorkspaceTargetJson> | undefined {
+  const targetsObject = readOptionalJsonObject(targets, `Expected "${key}" of project "${projectName}" to be an object.`)
+  if (targetsObject == null) return undefined
+  const result: Record<string, WorkspaceTargetJson> = {}
+  for (const [targetName, target] of Object.entries(targetsObject)) {
+    if (!isJsonObject(target)) {
+      throw new Error(`Expected "${key}.${targetName}" of project "${projectName}" to be an object.`)
+    }
+    const options = readOptionalJsonObject(target.options, `Expected "${key}.${targetName}.options" of project "${projectName}" to be an object.`)
+    result[targetName] = { options }
+  }
+  return result
+}
+
+/**
+ * A single entry from the `projects` section of `angular.json` (or Nx's `workspace.json`).
+ * Both applications and libraries are listed, but only an application can be loaded as
+ * a {@link Project}, since a library has nothing to bootstrap.
+ */
+export class WorkspaceProject {
+
+  private project?: Project
+
+  public constructor (private workspace: Workspace,
+                      private name: string,
+                      private definition: WorkspaceProjectJson) {
+  }
+
+  public getWorkspace (): Workspace {
+    return this.workspace
+  }
+
+  public getName (): string {
+    return this.name
+  }
+
+  public getProjectType (): WorkspaceProjectType {
+    return this.definition.projectType
+  }
+
+  public isApplication (): boolean {
+    return this.getProjectType() == 'application'
+  }
+
+  public isLibrary (): boolean {
+    return this.getProjectType() == 'library'
+  }
+
+  /**
+   * The absolute path to the project's root directory.
+   */
+  public getRoot (): string {
+    return this.workspace.resolvePath(this.definition.root)
+  }
+
+  /**
+   * The absolute path to the project's source directory, if defined.
+   */
+  public getSourceRoot (): string | undefined {
+    const { sourceRoot } = this.definition
+    return sourceRoot == null ? undefined : this.workspace.resolvePath(sourceRoot)
+  }
+
+  /**
+   * Options of the given target (such as `build` or `server`). Angular CLI lists targets
+   * under `architect`, while Nx lists them under `targets`; both are supported.
+   */
+  public getTargetOptions (targetName: string): Record<string, unknown> | undefined {
+    const targets = this.definition.architect || this.definition.targets || {}
+    const target = targets[targetName]
+    return target == null ? undefined : target.options
+  }
+
+  /**
+   * The absolute path of the file which bootstraps the application (`architect.build.options.main`).
+   * Libraries do not have one.
+   */
+  public getMainFilePath (): string | undefined {
+    return this.getTargetOptionPath('build', 'main')
+  }
+
+  public getMainFilePathOrThrow (): string {
+    return throwIfUndefined(this.getMainFilePath(), `Expected project "${this.getName()}" to define "architect.build.options.main".`)
+  }
+
+  /**
+   * The absolute path of the server-side entry file (`architect.server.options.main`), if the
+   * application is rendered on the server.
+   */
+  public getServerMainFilePath (): string | undefined {
+    return this.getTargetOptionPath('server', 'main')
+  }
+
+  /**
+   * The absolute path of the tsconfig used for building the project (`architect.build.options.tsConfig`).
+   */
+  public getTsConfigFilePath (): string | undefined {
+    return this.getTargetOptionPath('build', 'tsConfig')
+  }
+
+  /**
+   * Lazily creates the {@link Project} for this application. The same instance is returned
+   * on subsequent calls.
+   *
+   * @throws Error - If this is a library, or if the application has no main file.
+   */
+  public getProject (): Project {
+    if (this.project != null) return this.project
+    if (!this.isApplication()) {
+      throw new Error(`Cannot create a Project from "${this.getName()}" because it is a ${this.getProjectType()}, not an application.`)
+    }
+    this.project = new Project(this.workspace.getTsMorphProject(), undefined, {
+      mainFilePath: this.getMainFilePathOrThrow(),
+      tsConfigFilePath: this.getTsConfigFilePath(),
+      serverMainFilePath: this.getServerMainFilePath(),
+    })
+    return this.project
+  }
+
+  private getTargetOptionPath (targetName: string, optionName: string): string | undefined {
+    const options = this.getTargetOptions(targetName)
+    if (options == null) return undefined
+    const value = options[optionName]
+    if (value == null) return undefined
+    if (!tg.isString(value)) {
+      throw new Error(`Expected "${targetName}.options.${optionName}" of project "${this.getName()}" to be a string.`)
+    }
+    return this.workspace.resolvePath(value)
+  }
+
+}
+
+/**
+ * Represents an Angular CLI (`angular.json`) or Nx (`workspace.json`) workspace, which
+ * can contain several applications and libraries.
+ *
+ * All files are read through the file system of the given ts-morph project, so a virtual
+ * file system works just as well as the real one.
+ */
+export class Workspace {
+
+  /**
+   * Finds `angular.json` or `workspace.json` in the given directory.
+   *
+   * @param tsMorphProject - The ts-morph project whose file system is used.
+   * @param rootDirectory - Where to look for the workspace file. Defaults to the current directory.
+   */
+  public static FromTsm (tsMorphProject: tsm.Project, rootDirectory?: string): Workspace {
+    const fileSystem = tsMorphProject.getFileSystem()
+    const root = rootDirectory != null ? rootDirectory : fileSystem.getCurrentDirectory()
+    const candidates = WORKSPACE_FILE_NAMES.map(fileName => path.join(root, fileName))
+    const workspaceFilePath = candidates.find(candidate => fileSystem.fileExistsSync(candidate))
+    if (workspaceFilePath == null) {
+      throw new Error(`Expected to find one of ${WORKSPACE_FILE_NAMES.join(', ')} in "${root}".`)
+    }
+    return new Workspace(tsMorphProject, workspaceFilePath)
+  }
+
+  private readonly projects: WorkspaceProject[]
+
+  private readonly defaultProjectName?: string
+
+  public constructor (private tsMorphProject: tsm.Project,
+                      private workspaceFilePath: string) {
+    const json = readWorkspaceJson(tsMorphProject.getFileSystem(), workspaceFilePath)
+    this.defaultProjectName = json.defaultProject
+    this.projects = Object.keys(json.projects).map(name => {
+      const definition = this.readProjectDefinition(name, json.projects[name])
+      return new WorkspaceProject(this, name, definition)
+    })
+  }
+
+  public getTsMorphProject (): tsm.Project {
+    return this.tsMorphProject
+  }
+
+  public getWorkspaceFilePath (): string {
+    return this.workspaceFilePath
+  }
+
+  /**
+   * The directory in which the workspace file is located.
+   */
+  public getRootDirectory (): string {
+    return path.dirname(this.workspaceFilePath)
+  }
+
+  /**
+   * @internal
+   *
+   * Resolves a path from the workspace file, which is always relative to the workspace root.
+   */
+  public resolvePath (relativePath: string): string {
+    return path.join(this.getRootDirectory(), relativePath)
+  }
+
+  public getWorkspaceProjects (): WorkspaceProject[] {
+    return this.projects
+  }
+
+  public getApplications (): WorkspaceProject[] {
+    return this.projects.filter(project => project.isApplication())
+  }
+
+  public getLibraries (): WorkspaceProject[] {
+    return this.projects.filter(project => project.isLibrary())
+  }
+
+  public getWorkspaceProject (name: string): WorkspaceProject | undefined {
+    return this.projects.find(project => project.getName() == name)
+  }
+
+  public getWorkspaceProjectOrThrow (name: string): WorkspaceProject {
+    const known = this.projects.map(project => project.getName()).join(', ') || '(none)'
+    return throwIfUndefined(this.getWorkspaceProject(name), `Expected to find project "${name}" in "${this.workspaceFilePath}". These projects were found: ${known}.`)
+  }
+
+  public getDefaultWorkspaceProject (): WorkspaceProject | undefined {
+    if (this.defaultProjectName != null) {
+      return this.getWorkspaceProject(this.defaultProjectName)
+    }
+    const applications = this.getApplications()
+    return applications.length == 1 ? applications[0] : undefined
+  }
+
+  /**
+   * Creates a {@link Project} for every application in the workspace.
+   */
+  public getProjects (): Project[] {
+    return this.getApplications().map(application => application.getProject())
+  }
+
+  /**
+   * A shortcut for getting the {@link Project} of the application with the given name.
+   */
+  public getProject (name: string): Project {
+    return this.getWorkspaceProjectOrThrow(name).getProject()
+  }
+
+  // region Internal
+
+  private readProjectDefinition (name: string, definition: unknown): WorkspaceProjectJson {
+    // Newer Nx workspaces only list the location of the project and keep the rest in "project.json".
+    if (tg.isString(definition)) {
+      const projectJsonPath = path.join(this.resolvePath(definition), 'project.json')
+      const projectJson = readJsonObject(this.tsMorphProject.getFileSystem(), projectJsonPath)
+      return this.readProjectDefinition(name, { root: definition, ...projectJson })
+    }
+    if (!isJsonObject(definition)) {
+      throw new Error(`Expected project "${name}" to be an object, or the path to the directory of its "project.json".`)
+    }
+    const { projectType, root, sourceRoot } = definition
+    if (!isWorkspaceProjectType(projectType)) {
+      throw new Error(`Expected "projectType" of project "${name}" to be "application" or "library", but got "${projectType}".`)
+    }
+    if (!tg.isString(root)) {
+      throw new Error(`Expected project "${name}" to have a "root".`)
+    }
+    return {
+      projectType,
+      root,
+      sourceRoot: readOptionalString(sourceRoot, `Expected "sourceRoot" of project "${name}" to be a string.`),
+      architect: readTargets(name, 'architect', definition.architect),
+      targets: readTargets(name, 'targets', definition.targets),
+    }
+  }
+
+  // endregion Internal
+
+}